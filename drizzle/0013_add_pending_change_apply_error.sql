@@ -0,0 +1,2 @@
+-- Record why an approved change could not be applied (e.g. changeData failed validation)
+ALTER TABLE "pending_changes" ADD COLUMN IF NOT EXISTS "apply_error" text;
@@ -0,0 +1,26 @@
+-- Changesets group pending changes that are reviewed and applied as one unit
+CREATE TABLE IF NOT EXISTS "changesets" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"description" text,
+	"status" "change_status" DEFAULT 'pending' NOT NULL,
+	"reviewed_by" uuid,
+	"reviewed_at" timestamp,
+	"review_notes" text,
+	"apply_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "changesets" ADD CONSTRAINT "changesets_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "changesets" ADD CONSTRAINT "changesets_reviewed_by_users_id_fk" FOREIGN KEY ("reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "pending_changes" ADD COLUMN IF NOT EXISTS "changeset_id" uuid;
+--> statement-breakpoint
+ALTER TABLE "pending_changes" ADD COLUMN IF NOT EXISTS "sequence" integer;
+--> statement-breakpoint
+ALTER TABLE "pending_changes" ADD COLUMN IF NOT EXISTS "ref" varchar(100);
+--> statement-breakpoint
+ALTER TABLE "pending_changes" ADD CONSTRAINT "pending_changes_changeset_id_changesets_id_fk" FOREIGN KEY ("changeset_id") REFERENCES "public"."changesets"("id") ON DELETE cascade ON UPDATE no action;
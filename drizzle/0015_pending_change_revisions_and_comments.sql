@@ -0,0 +1,19 @@
+-- Let admins send a pending change back to its editor
+ALTER TYPE "change_status" ADD VALUE IF NOT EXISTS 'needs_revision';
+--> statement-breakpoint
+ALTER TYPE "action_type" ADD VALUE IF NOT EXISTS 'request_revision';
+--> statement-breakpoint
+-- Comment threads on pending changes
+CREATE TABLE IF NOT EXISTS "pending_change_comments" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"pending_change_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"body" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "pending_change_comments" ADD CONSTRAINT "pending_change_comments_pending_change_id_pending_changes_id_fk" FOREIGN KEY ("pending_change_id") REFERENCES "public"."pending_changes"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "pending_change_comments" ADD CONSTRAINT "pending_change_comments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "pending_change_comments_change_idx" ON "pending_change_comments" ("pending_change_id");
@@ -0,0 +1,16 @@
+-- Append-only revision history for products, categories, subcategories, specifications and posts
+CREATE TABLE IF NOT EXISTS "revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"resource_type" varchar(100) NOT NULL,
+	"resource_id" varchar(255) NOT NULL,
+	"revision" integer NOT NULL,
+	"action" "action_type" NOT NULL,
+	"snapshot" json NOT NULL,
+	"restored_from" integer,
+	"user_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "revisions" ADD CONSTRAINT "revisions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "revisions_resource_revision_idx" ON "revisions" ("resource_type","resource_id","revision");
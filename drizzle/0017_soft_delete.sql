@@ -0,0 +1,27 @@
+-- Soft delete: trashed rows keep their data until purged
+ALTER TABLE "categories" ADD COLUMN "deleted_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "subcategories" ADD COLUMN "deleted_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "deleted_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "product_specifications" ADD COLUMN "deleted_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "deleted_at" timestamp;
+--> statement-breakpoint
+-- Slugs only need to be unique among live rows
+ALTER TABLE "categories" DROP CONSTRAINT "categories_slug_unique";
+--> statement-breakpoint
+ALTER TABLE "subcategories" DROP CONSTRAINT "subcategories_slug_unique";
+--> statement-breakpoint
+ALTER TABLE "products" DROP CONSTRAINT "products_slug_unique";
+--> statement-breakpoint
+ALTER TABLE "posts" DROP CONSTRAINT "posts_slug_unique";
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "categories_slug_live_idx" ON "categories" ("slug") WHERE "categories"."deleted_at" is null;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "subcategories_slug_live_idx" ON "subcategories" ("slug") WHERE "subcategories"."deleted_at" is null;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "products_slug_live_idx" ON "products" ("slug") WHERE "products"."deleted_at" is null;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "posts_slug_live_idx" ON "posts" ("slug") WHERE "posts"."deleted_at" is null;
@@ -0,0 +1,16 @@
+-- Scheduled publishing windows
+ALTER TABLE "categories" ADD COLUMN "publish_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "unpublish_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "subcategories" ADD COLUMN "publish_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "subcategories" ADD COLUMN "unpublish_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "publish_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "unpublish_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "publish_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "unpublish_at" timestamp;
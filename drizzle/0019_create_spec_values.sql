@@ -0,0 +1,23 @@
+-- Search index of specification table cells for faceted product search
+CREATE TABLE IF NOT EXISTS "spec_values" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"specification_id" uuid NOT NULL,
+	"label" varchar(500) NOT NULL,
+	"facet_key" varchar(500) NOT NULL,
+	"value" varchar(500) NOT NULL,
+	"numeric_min" double precision,
+	"numeric_max" double precision
+);
+--> statement-breakpoint
+ALTER TABLE "spec_values" ADD CONSTRAINT "spec_values_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "spec_values" ADD CONSTRAINT "spec_values_specification_id_product_specifications_id_fk" FOREIGN KEY ("specification_id") REFERENCES "public"."product_specifications"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "spec_values_facet_value_idx" ON "spec_values" ("facet_key","value");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "spec_values_facet_numeric_idx" ON "spec_values" ("facet_key","numeric_min","numeric_max");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "spec_values_product_idx" ON "spec_values" ("product_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "spec_values_specification_idx" ON "spec_values" ("specification_id");
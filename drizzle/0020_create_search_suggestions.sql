@@ -0,0 +1,24 @@
+-- Autocomplete index of visible product names, category names and product SEO keywords
+CREATE MATERIALIZED VIEW IF NOT EXISTS "search_suggestions" AS
+	SELECT 'product'::varchar(20) AS "kind", "id"::text AS "ref", "name"::text AS "term", lower("name") AS "normalized", "slug", 3 AS "weight"
+	FROM "products"
+	WHERE "is_active" = true AND "deleted_at" IS NULL
+		AND ("publish_at" IS NULL OR "publish_at" <= now()) AND ("unpublish_at" IS NULL OR "unpublish_at" > now())
+	UNION ALL
+	SELECT 'category'::varchar(20), "id"::text, "name"::text, lower("name"), "slug", 2
+	FROM "categories"
+	WHERE "is_active" = true AND "deleted_at" IS NULL
+		AND ("publish_at" IS NULL OR "publish_at" <= now()) AND ("unpublish_at" IS NULL OR "unpublish_at" > now())
+	UNION ALL
+	SELECT 'keyword'::varchar(20), lower(trim("keyword")), min(trim("keyword")), lower(trim("keyword")), NULL::varchar(255), count(DISTINCT "products"."id")::int
+	FROM "products", json_array_elements_text(CASE WHEN json_typeof("products"."seo_keywords") = 'array' THEN "products"."seo_keywords" ELSE '[]'::json END) AS "keyword"
+	WHERE "is_active" = true AND "deleted_at" IS NULL
+		AND ("publish_at" IS NULL OR "publish_at" <= now()) AND ("unpublish_at" IS NULL OR "unpublish_at" > now())
+		AND trim("keyword") <> ''
+	GROUP BY lower(trim("keyword"));
+--> statement-breakpoint
+-- Required for REFRESH MATERIALIZED VIEW CONCURRENTLY
+CREATE UNIQUE INDEX IF NOT EXISTS "search_suggestions_kind_ref_idx" ON "search_suggestions" ("kind","ref");
+--> statement-breakpoint
+-- Trigram index serves both prefix/infix LIKE completions and "did you mean" similarity lookups
+CREATE INDEX IF NOT EXISTS "search_suggestions_normalized_trgm_idx" ON "search_suggestions" USING gin ("normalized" gin_trgm_ops);
@@ -0,0 +1,29 @@
+-- Search analytics: logged queries and the results visitors clicked
+CREATE TABLE IF NOT EXISTS "search_queries" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source" varchar(20) NOT NULL,
+	"query" varchar(200) NOT NULL,
+	"normalized_query" varchar(200) NOT NULL,
+	"result_count" integer NOT NULL,
+	"latency_ms" integer NOT NULL,
+	"visitor_id" varchar(64),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "search_clicks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"search_id" uuid NOT NULL,
+	"result_type" varchar(20) NOT NULL,
+	"result_id" varchar(100) NOT NULL,
+	"position" integer,
+	"visitor_id" varchar(64),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "search_clicks" ADD CONSTRAINT "search_clicks_search_id_search_queries_id_fk" FOREIGN KEY ("search_id") REFERENCES "public"."search_queries"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "search_queries_normalized_query_idx" ON "search_queries" ("normalized_query");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "search_queries_date_idx" ON "search_queries" ("created_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "search_clicks_search_idx" ON "search_clicks" ("search_id");
@@ -0,0 +1,20 @@
+-- Admin-managed search tuning: synonym expansion and pinned results for product search
+CREATE TABLE IF NOT EXISTS "search_synonyms" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"term" varchar(100) NOT NULL,
+	"synonyms" json NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "search_synonyms_term_unique" UNIQUE("term")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "search_pins" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"query" varchar(200) NOT NULL,
+	"product_ids" json NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "search_pins_query_unique" UNIQUE("query")
+);
@@ -0,0 +1,29 @@
+-- Product variants (SKUs) with their own attributes, price, MOQ and availability
+CREATE TYPE "public"."variant_availability" AS ENUM('in_stock', 'made_to_order', 'out_of_stock', 'discontinued');
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "product_variants" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"sku" varchar(100) NOT NULL,
+	"name" varchar(255),
+	"attributes" json DEFAULT '{}'::json NOT NULL,
+	"price" numeric(12, 2),
+	"currency" varchar(3) DEFAULT 'INR' NOT NULL,
+	"moq" integer DEFAULT 1 NOT NULL,
+	"availability" "variant_availability" DEFAULT 'in_stock' NOT NULL,
+	"images" json,
+	"display_order" integer DEFAULT 0 NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+-- SKUs are unique regardless of case
+CREATE UNIQUE INDEX IF NOT EXISTS "product_variants_sku_idx" ON "product_variants" (lower("sku"));
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "product_variants_product_idx" ON "product_variants" ("product_id");
+--> statement-breakpoint
+-- Serves SKU lookups from product search, including partial SKUs
+CREATE INDEX IF NOT EXISTS "product_variants_sku_trgm_idx" ON "product_variants" USING gin (lower("sku") gin_trgm_ops);
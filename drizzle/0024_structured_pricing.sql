@@ -0,0 +1,36 @@
+-- Structured product pricing, parsed from the legacy free-text price column
+CREATE TYPE "public"."price_mode" AS ENUM('fixed', 'on_request');
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "price_mode" "price_mode";
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "price_amount" numeric(12, 2);
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "price_currency" varchar(3) DEFAULT 'INR' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "price_unit" varchar(50);
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "price_tiers" json;
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "price_needs_review" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+-- "Contact us", "Price on request", "Call for quote", ...
+UPDATE "products" SET "price_mode" = 'on_request'
+WHERE "price" ~* '^\s*(contact|call|enquire|inquire|ask|price on request|on request|request|poa|quote|get quote)';
+--> statement-breakpoint
+-- "450", "₹450/roll", "Rs. 1,200 per piece", "INR 300/-"; same pattern as parseLegacyPrice in src/utils/pricing.ts
+UPDATE "products" SET
+	"price_mode" = 'fixed',
+	"price_amount" = replace("parsed"."m"[1], ',', '')::numeric,
+	"price_unit" = nullif(lower(rtrim("parsed"."m"[2], ' .')), '')
+FROM (
+	SELECT "id", regexp_match("price", '^\s*(?:₹|rs\.?|inr)?\s*([0-9][0-9,]*(?:\.[0-9]+)?)\s*(?:/-)?\s*(?:(?:/|per\y)\s*([a-z][a-z .]*))?\s*$', 'i') AS "m"
+	FROM "products"
+	WHERE "price_mode" IS NULL
+) AS "parsed"
+WHERE "products"."id" = "parsed"."id" AND "parsed"."m" IS NOT NULL;
+--> statement-breakpoint
+-- Anything else ("from ₹300", "₹200-300", ...) is left for an editor to fix
+UPDATE "products" SET "price_needs_review" = true
+WHERE "price_mode" IS NULL AND coalesce(trim("price"), '') <> '';
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "products_price_amount_idx" ON "products" ("price_amount");
@@ -0,0 +1,20 @@
+-- Typed, curated relationships between products (accessories, spare parts, alternatives, bought together)
+CREATE TYPE "public"."product_relation_type" AS ENUM('accessory', 'spare_part', 'alternative', 'frequently_bought_with');
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "product_relations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"related_product_id" uuid NOT NULL,
+	"type" "product_relation_type" NOT NULL,
+	"display_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "product_relations_not_self" CHECK ("product_id" <> "related_product_id")
+);
+--> statement-breakpoint
+ALTER TABLE "product_relations" ADD CONSTRAINT "product_relations_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "product_relations" ADD CONSTRAINT "product_relations_related_product_id_products_id_fk" FOREIGN KEY ("related_product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "product_relations_unique_idx" ON "product_relations" ("product_id","related_product_id","type");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "product_relations_related_idx" ON "product_relations" ("related_product_id");
@@ -0,0 +1,24 @@
+-- Many-to-many product placement; each product keeps one primary placement (products.subcategory_id)
+CREATE TABLE IF NOT EXISTS "product_placements" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"product_id" uuid NOT NULL,
+	"subcategory_id" uuid NOT NULL,
+	"is_primary" boolean DEFAULT false NOT NULL,
+	"display_order" varchar(10),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "product_placements" ADD CONSTRAINT "product_placements_product_id_products_id_fk" FOREIGN KEY ("product_id") REFERENCES "public"."products"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "product_placements" ADD CONSTRAINT "product_placements_subcategory_id_subcategories_id_fk" FOREIGN KEY ("subcategory_id") REFERENCES "public"."subcategories"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "product_placements_product_subcategory_idx" ON "product_placements" ("product_id","subcategory_id");
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "product_placements_primary_idx" ON "product_placements" ("product_id") WHERE "product_placements"."is_primary";
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "product_placements_subcategory_idx" ON "product_placements" ("subcategory_id");
+--> statement-breakpoint
+-- Every existing product starts with its current subcategory as the primary placement
+INSERT INTO "product_placements" ("product_id", "subcategory_id", "is_primary", "display_order")
+SELECT "id", "subcategory_id", true, "display_order" FROM "products"
+ON CONFLICT DO NOTHING;
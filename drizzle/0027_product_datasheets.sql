@@ -0,0 +1,6 @@
+-- Generated datasheet PDFs; products.pdf_url stays as a manual override
+ALTER TABLE "products" ADD COLUMN "datasheet_url" varchar(500);
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "datasheet_hash" varchar(64);
+--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "datasheet_generated_at" timestamp;
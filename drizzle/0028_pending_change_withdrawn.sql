@@ -0,0 +1,2 @@
+-- Withdrawn changes are kept, with their comment threads, instead of being deleted
+ALTER TYPE "change_status" ADD VALUE IF NOT EXISTS 'withdrawn';
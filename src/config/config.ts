@@ -1,3 +1,16 @@
+import { randomBytes } from 'crypto';
+
+// A known salt would let anyone rebuild visitor hashes from IP addresses, so production must set one.
+// Elsewhere a random per-process salt is used; visitor ids then only hold until a restart.
+function visitorSalt(): string {
+  const salt = process.env.SEARCH_VISITOR_SALT;
+  if (salt) return salt;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SEARCH_VISITOR_SALT must be set in production');
+  }
+  return randomBytes(32).toString('hex');
+}
+
 export const config = {
   jwt: {
     secret: process.env.JWT_SECRET || 'your-secret-key-change-in-production',
@@ -10,5 +23,29 @@ export const config = {
     sameSite: (process.env.NODE_ENV === 'production' ? 'none' : 'lax') as 'none' | 'lax',
     maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
     path: '/'
+  },
+  trash: {
+    // Days a deleted record stays restorable before it is purged for good
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30'),
+    purgeIntervalMs: 6 * 60 * 60 * 1000, // 6 hours
+  },
+  publishing: {
+    // How often scheduled publish/unpublish times are checked
+    intervalMs: 60 * 1000, // 1 minute
+  },
+  search: {
+    // How often the autocomplete index is rebuilt from the catalog
+    suggestionsRefreshMs: 5 * 60 * 1000, // 5 minutes
+    // Salt for the visitor hash stored with search analytics
+    visitorSalt: visitorSalt(),
+  },
+  datasheets: {
+    // How often products changed since their datasheet was rendered are picked up
+    intervalMs: 60 * 1000, // 1 minute
+    // Products rendered per run, so a bulk edit is worked through gradually
+    batchSize: 10,
+    brandName: process.env.DATASHEET_BRAND_NAME || 'GoGreen',
+    brandColor: process.env.DATASHEET_BRAND_COLOR || '#2E7D32',
+    website: process.env.DATASHEET_WEBSITE || 'https://gogreen-frontend.vercel.app',
   }
 } as const;
@@ -16,12 +16,12 @@ const needsSSL = dbUrl.includes('rds.amazonaws.com') || dbUrl.includes('sslmode=
 console.log('🔌 Database connection config:');
 console.log('  - URL contains RDS:', dbUrl.includes('rds.amazonaws.com'));
 console.log('  - SSL enabled:', needsSSL);
-console.log('  - Host:', dbUrl.match(/@([^:\/]+)/)?.[1] || 'unknown');
+console.log('  - Host:', dbUrl.match(/@([^:/]+)/)?.[1] || 'unknown');
 
 // SSL configuration for RDS
 // Using rejectUnauthorized: false for development
 // TODO: Switch to CA bundle verification before production deployment
-let sslConfig = needsSSL ? { rejectUnauthorized: false } : undefined;
+const sslConfig = needsSSL ? { rejectUnauthorized: false } : undefined;
 
 if (needsSSL) {
   console.log('  - SSL mode: rejectUnauthorized=false (DEV ONLY)');
@@ -36,5 +36,8 @@ const pool = new Pool({
 // Create Drizzle instance
 export const db = drizzle(pool, { schema });
 
+// Either the shared instance or an open transaction, so models can join a caller's transaction
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 // Export pool for raw queries if needed
 export { pool };
@@ -1,6 +1,6 @@
-import { pgTable, uuid, varchar, timestamp, pgEnum, text, json, jsonb, boolean, serial, integer } from 'drizzle-orm/pg-core';
+import { pgTable, pgMaterializedView, uuid, varchar, timestamp, pgEnum, text, json, jsonb, boolean, serial, integer, doublePrecision, numeric } from 'drizzle-orm/pg-core';
 import { relations } from 'drizzle-orm';
-import { index } from 'drizzle-orm/pg-core';
+import { index, uniqueIndex, check } from 'drizzle-orm/pg-core';
 import { sql } from 'drizzle-orm';
 
 
@@ -8,10 +8,19 @@ import { sql } from 'drizzle-orm';
 export const userRoleEnum = pgEnum('user_role', ['admin', 'editor']);
 
 // Enum for change status
-export const changeStatusEnum = pgEnum('change_status', ['pending', 'approved', 'rejected']);
+export const changeStatusEnum = pgEnum('change_status', ['pending', 'approved', 'rejected', 'needs_revision', 'withdrawn']);
 
 // Enum for action types
-export const actionTypeEnum = pgEnum('action_type', ['create', 'update', 'delete', 'login', 'logout', 'approve', 'reject']);
+export const actionTypeEnum = pgEnum('action_type', ['create', 'update', 'delete', 'login', 'logout', 'approve', 'reject', 'request_revision']);
+
+// Enum for how a product is priced
+export const priceModeEnum = pgEnum('price_mode', ['fixed', 'on_request']);
+
+// Enum for how two products are related
+export const productRelationTypeEnum = pgEnum('product_relation_type', ['accessory', 'spare_part', 'alternative', 'frequently_bought_with']);
+
+// Enum for product variant stock status
+export const variantAvailabilityEnum = pgEnum('variant_availability', ['in_stock', 'made_to_order', 'out_of_stock', 'discontinued']);
 
 // Users table
 export const users = pgTable('users', {
@@ -27,13 +36,24 @@ export const users = pgTable('users', {
 export const categories = pgTable('categories', {
   id: uuid('id').primaryKey().defaultRandom(),
   name: varchar('name', { length: 255 }).notNull(),
-  slug: varchar('slug', { length: 255 }).notNull().unique(),
+  slug: varchar('slug', { length: 255 }).notNull(),
   description: text('description'),
   image: varchar('image', { length: 500 }),
   displayOrder: varchar('display_order', { length: 10 }),
   isActive: boolean('is_active').notNull().default(true),
+  // Optional publishing window; outside it the row is hidden from public queries,
+  // and the scheduler flips isActive when each boundary passes
+  publishAt: timestamp('publish_at'),
+  unpublishAt: timestamp('unpublish_at'),
+  // Set when moved to the trash; trashed rows are hidden and purged after the retention period
+  deletedAt: timestamp('deleted_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    // Slugs only need to be unique among live rows, so a trashed slug can be reused
+    slugIdx: uniqueIndex('categories_slug_live_idx').on(table.slug).where(sql`${table.deletedAt} is null`),
+  };
 });
 
 // Subcategories table
@@ -41,13 +61,20 @@ export const subcategories = pgTable('subcategories', {
   id: uuid('id').primaryKey().defaultRandom(),
   categoryId: uuid('category_id').notNull().references(() => categories.id, { onDelete: 'cascade' }),
   name: varchar('name', { length: 255 }).notNull(),
-  slug: varchar('slug', { length: 255 }).notNull().unique(),
+  slug: varchar('slug', { length: 255 }).notNull(),
   description: text('description'),
   image: varchar('image', { length: 500 }),
   displayOrder: varchar('display_order', { length: 10 }),
   isActive: boolean('is_active').notNull().default(true),
+  publishAt: timestamp('publish_at'),
+  unpublishAt: timestamp('unpublish_at'),
+  deletedAt: timestamp('deleted_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    slugIdx: uniqueIndex('subcategories_slug_live_idx').on(table.slug).where(sql`${table.deletedAt} is null`),
+  };
 });
 
 // Products table
@@ -56,13 +83,30 @@ export const products = pgTable('products', {
   id: uuid('id').primaryKey().defaultRandom(),
   subcategoryId: uuid('subcategory_id').notNull().references(() => subcategories.id, { onDelete: 'cascade' }),
   name: varchar('name', { length: 255 }).notNull(),
-  slug: varchar('slug', { length: 255 }).notNull().unique(),
+  slug: varchar('slug', { length: 255 }).notNull(),
   description: text('description'),
   shortDescription: text('short_description'),
+  // Legacy free-text price, e.g. "₹450/roll". Parsed into the structured columns below when written.
   price: varchar('price', { length: 50 }),
+  // Unset until the price is known or has been reviewed
+  priceMode: priceModeEnum('price_mode'),
+  priceAmount: numeric('price_amount', { precision: 12, scale: 2, mode: 'number' }),
+  priceCurrency: varchar('price_currency', { length: 3 }).notNull().default('INR'),
+  // What the amount buys, e.g. "roll", "piece", "metre"
+  priceUnit: varchar('price_unit', { length: 50 }),
+  // Bulk prices, ascending by minQuantity
+  priceTiers: json('price_tiers').$type<{ minQuantity: number; amount: number }[]>(),
+  // Set when a legacy price string could not be parsed
+  priceNeedsReview: boolean('price_needs_review').notNull().default(false),
   images: json('images').$type<string[]>(),
   coverImage: varchar('cover_image', { length: 500 }),
+  // Uploaded by hand; overrides the generated datasheet
   pdfUrl: varchar('pdf_url', { length: 500 }),
+  // Generated from the product and its specifications (see datasheet.service)
+  datasheetUrl: varchar('datasheet_url', { length: 500 }),
+  // Hash of what the datasheet was rendered from, so unchanged products are not re-rendered
+  datasheetHash: varchar('datasheet_hash', { length: 64 }),
+  datasheetGeneratedAt: timestamp('datasheet_generated_at'),
   specifications: json('specifications'),
   features: json('features').$type<string[]>(),
   seoKeywords: json('seo_keywords').$type<string[]>(),
@@ -71,10 +115,15 @@ export const products = pgTable('products', {
   displayOrder: varchar('display_order', { length: 10 }),
   isActive: boolean('is_active').notNull().default(true),
   isFeatured: boolean('is_featured').notNull().default(false),
+  publishAt: timestamp('publish_at'),
+  unpublishAt: timestamp('unpublish_at'),
+  deletedAt: timestamp('deleted_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => {
   return {
+    slugIdx: uniqueIndex('products_slug_live_idx').on(table.slug).where(sql`${table.deletedAt} is null`),
+    priceAmountIdx: index('products_price_amount_idx').on(table.priceAmount),
     searchIndex: index('search_index').using('gin', sql`(
       setweight(to_tsvector('english', ${table.name}), 'A') ||
       setweight(to_tsvector('english', coalesce(${table.description}, '')), 'B')
@@ -107,10 +156,65 @@ export const pendingChanges = pgTable('pending_changes', {
   reviewedBy: uuid('reviewed_by').references(() => users.id),
   reviewedAt: timestamp('reviewed_at'),
   reviewNotes: text('review_notes'),
+  // Set when an approval is refused because changeData no longer passes validation
+  applyError: text('apply_error'),
+  // Set when the change is one operation of a changeset, applied in sequence order
+  changesetId: uuid('changeset_id').references(() => changesets.id, { onDelete: 'cascade' }),
+  sequence: integer('sequence'),
+  // Name later operations in the same changeset use to point at the row this one creates ("$ref:<name>")
+  ref: varchar('ref', { length: 100 }),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Review discussion on a pending change, so feedback is not limited to reviewNotes
+export const pendingChangeComments = pgTable('pending_change_comments', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  pendingChangeId: uuid('pending_change_id').notNull().references(() => pendingChanges.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  body: text('body').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    pendingChangeIdx: index('pending_change_comments_change_idx').on(table.pendingChangeId),
+  };
+});
+
+// Changesets bundle several pending changes that are approved or rejected together
+export const changesets = pgTable('changesets', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  title: varchar('title', { length: 255 }).notNull(),
+  description: text('description'),
+  status: changeStatusEnum('status').notNull().default('pending'),
+  reviewedBy: uuid('reviewed_by').references(() => users.id),
+  reviewedAt: timestamp('reviewed_at'),
+  reviewNotes: text('review_notes'),
+  applyError: text('apply_error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Append-only history: a snapshot of a catalog or content record after every write
+// (for deletes, the record as it was just before)
+export const revisions = pgTable('revisions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  resourceType: varchar('resource_type', { length: 100 }).notNull(),
+  resourceId: varchar('resource_id', { length: 255 }).notNull(),
+  // Increments per resource, starting at 1
+  revision: integer('revision').notNull(),
+  action: actionTypeEnum('action').notNull(),
+  snapshot: json('snapshot').notNull(),
+  // Revision this one restored, when the write was a rollback
+  restoredFrom: integer('restored_from'),
+  userId: uuid('user_id').references(() => users.id),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    resourceRevisionIdx: uniqueIndex('revisions_resource_revision_idx').on(table.resourceType, table.resourceId, table.revision),
+  };
+});
+
 // Product Specifications table with JSONB for flexible table structures
 export const productSpecifications = pgTable('product_specifications', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -122,17 +226,144 @@ export const productSpecifications = pgTable('product_specifications', {
   content: jsonb('content').notNull(),
   displayOrder: varchar('display_order', { length: 10 }),
   isActive: boolean('is_active').notNull().default(true),
+  deletedAt: timestamp('deleted_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Product variants: the sellable SKUs of a product, e.g. one per diameter, flow rate or pack size
+export const productVariants = pgTable('product_variants', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  sku: varchar('sku', { length: 100 }).notNull(),
+  name: varchar('name', { length: 255 }),
+  // What distinguishes this variant, e.g. { "Diameter": "16 mm", "Flow Rate": "4 LPH" }
+  attributes: json('attributes').$type<Record<string, string>>().notNull().default({}),
+  price: numeric('price', { precision: 12, scale: 2, mode: 'number' }),
+  currency: varchar('currency', { length: 3 }).notNull().default('INR'),
+  // Minimum order quantity
+  moq: integer('moq').notNull().default(1),
+  availability: variantAvailabilityEnum('availability').notNull().default('in_stock'),
+  images: json('images').$type<string[]>(),
+  displayOrder: integer('display_order').notNull().default(0),
+  isActive: boolean('is_active').notNull().default(true),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    skuIdx: uniqueIndex('product_variants_sku_idx').on(sql`lower(${table.sku})`),
+    productIdx: index('product_variants_product_idx').on(table.productId),
+    skuTrgmIdx: index('product_variants_sku_trgm_idx').using('gin', sql`lower(${table.sku}) gin_trgm_ops`),
+  };
+});
+
+export type ProductVariant = typeof productVariants.$inferSelect;
+export type NewProductVariant = typeof productVariants.$inferInsert;
+
+// Where a product is listed. Every product has exactly one primary placement, mirrored in
+// products.subcategoryId, which gives its canonical URL and breadcrumbs.
+export const productPlacements = pgTable('product_placements', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  subcategoryId: uuid('subcategory_id').notNull().references(() => subcategories.id, { onDelete: 'cascade' }),
+  isPrimary: boolean('is_primary').notNull().default(false),
+  // Order within this subcategory; same format as products.displayOrder
+  displayOrder: varchar('display_order', { length: 10 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    productSubcategoryIdx: uniqueIndex('product_placements_product_subcategory_idx').on(table.productId, table.subcategoryId),
+    primaryIdx: uniqueIndex('product_placements_primary_idx').on(table.productId).where(sql`${table.isPrimary}`),
+    subcategoryIdx: index('product_placements_subcategory_idx').on(table.subcategoryId),
+  };
+});
+
+export type ProductPlacement = typeof productPlacements.$inferSelect;
+export type NewProductPlacement = typeof productPlacements.$inferInsert;
+
+// Curated links between products, e.g. a drip kit to its compatible filters and connectors.
+// accessory and spare_part point one way; alternative and frequently_bought_with are read both ways.
+export const productRelations = pgTable('product_relations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  relatedProductId: uuid('related_product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  type: productRelationTypeEnum('type').notNull(),
+  displayOrder: integer('display_order').notNull().default(0),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    uniqueRelationIdx: uniqueIndex('product_relations_unique_idx').on(table.productId, table.relatedProductId, table.type),
+    relatedIdx: index('product_relations_related_idx').on(table.relatedProductId),
+    notSelf: check('product_relations_not_self', sql`${table.productId} <> ${table.relatedProductId}`),
+  };
 });
 
-// Define relations
+export type ProductRelation = typeof productRelations.$inferSelect;
+export type NewProductRelation = typeof productRelations.$inferInsert;
+
+// Search index of specification table cells: one row per value under a header path.
+// Rebuilt from a specification's content whenever it is written.
+export const specValues = pgTable('spec_values', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  productId: uuid('product_id').notNull().references(() => products.id, { onDelete: 'cascade' }),
+  specificationId: uuid('specification_id').notNull().references(() => productSpecifications.id, { onDelete: 'cascade' }),
+  // Header path as displayed, e.g. "Flow Rate (LPH)" or "Dimensions > Diameter"
+  label: varchar('label', { length: 500 }).notNull(),
+  // Normalised label used to group values into a facet
+  facetKey: varchar('facet_key', { length: 500 }).notNull(),
+  value: varchar('value', { length: 500 }).notNull(),
+  // Bounds parsed from numeric values and ranges like "1.0-3.0"; equal for a single number
+  numericMin: doublePrecision('numeric_min'),
+  numericMax: doublePrecision('numeric_max'),
+}, (table) => {
+  return {
+    facetValueIdx: index('spec_values_facet_value_idx').on(table.facetKey, table.value),
+    facetNumericIdx: index('spec_values_facet_numeric_idx').on(table.facetKey, table.numericMin, table.numericMax),
+    productIdx: index('spec_values_product_idx').on(table.productId),
+    specificationIdx: index('spec_values_specification_idx').on(table.specificationId),
+  };
+});
+
+// Autocomplete terms: visible product names, category names and product SEO keywords.
+// A materialized view (see drizzle/0020) with trigram indexes, refreshed on an interval.
+export const searchSuggestions = pgMaterializedView('search_suggestions', {
+  // 'product' | 'category' | 'keyword'
+  kind: varchar('kind', { length: 20 }).notNull(),
+  // Source row id; the normalised term for keywords
+  ref: text('ref').notNull(),
+  term: text('term').notNull(),
+  normalized: text('normalized').notNull(),
+  slug: varchar('slug', { length: 255 }),
+  // Ranking weight; for keywords, the number of products tagged with it
+  weight: integer('weight').notNull(),
+}).existing();
+
 export const productsRelations = relations(products, ({ one, many }) => ({
   subcategory: one(subcategories, {
     fields: [products.subcategoryId],
     references: [subcategories.id],
   }),
   specifications: many(productSpecifications),
+  variants: many(productVariants),
+  placements: many(productPlacements),
+}));
+
+export const productPlacementsRelations = relations(productPlacements, ({ one }) => ({
+  product: one(products, {
+    fields: [productPlacements.productId],
+    references: [products.id],
+  }),
+  subcategory: one(subcategories, {
+    fields: [productPlacements.subcategoryId],
+    references: [subcategories.id],
+  }),
+}));
+
+export const productVariantsRelations = relations(productVariants, ({ one }) => ({
+  product: one(products, {
+    fields: [productVariants.productId],
+    references: [products.id],
+  }),
 }));
 
 export const subcategoriesRelations = relations(subcategories, ({ one, many }) => ({
@@ -169,19 +400,35 @@ export type NewSubcategory = typeof subcategories.$inferInsert;
 export type NewAuditLog = typeof auditLogs.$inferInsert;
 export type PendingChange = typeof pendingChanges.$inferSelect;
 export type NewPendingChange = typeof pendingChanges.$inferInsert;
+export type PendingChangeComment = typeof pendingChangeComments.$inferSelect;
+export type NewPendingChangeComment = typeof pendingChangeComments.$inferInsert;
+export type SpecValue = typeof specValues.$inferSelect;
+export type NewSpecValue = typeof specValues.$inferInsert;
+export type Revision = typeof revisions.$inferSelect;
+export type NewRevision = typeof revisions.$inferInsert;
+export type Changeset = typeof changesets.$inferSelect;
+export type NewChangeset = typeof changesets.$inferInsert;
 
 // Blog Posts table
 export const posts = pgTable('posts', {
   id: serial('id').primaryKey(),
   title: text('title').notNull(),
-  slug: text('slug').notNull().unique(),
+  slug: text('slug').notNull(),
   content: jsonb('content').notNull(),
   coverImage: varchar('cover_image', { length: 500 }),
   seoKeywords: json('seo_keywords').$type<string[]>(),
   published: boolean('published').default(false),
   publishedAt: timestamp('published_at'),
+  // Scheduled publish/unpublish; the scheduler flips published when each passes
+  publishAt: timestamp('publish_at'),
+  unpublishAt: timestamp('unpublish_at'),
+  deletedAt: timestamp('deleted_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    slugIdx: uniqueIndex('posts_slug_live_idx').on(table.slug).where(sql`${table.deletedAt} is null`),
+  };
 });
 
 export type Post = typeof posts.$inferSelect;
@@ -229,6 +476,74 @@ export const analytics = pgTable('analytics', {
 export type AnalyticsEntry = typeof analytics.$inferSelect;
 export type NewAnalyticsEntry = typeof analytics.$inferInsert;
 
+// Search analytics: one row per public search request
+export const searchQueries = pgTable('search_queries', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  // Which search answered: 'site', 'products' (faceted) or 'catalog' (GET /api/products?search=)
+  source: varchar('source', { length: 20 }).notNull(),
+  query: varchar('query', { length: 200 }).notNull(),
+  // Lowercased, whitespace-collapsed query used to group reports
+  normalizedQuery: varchar('normalized_query', { length: 200 }).notNull(),
+  resultCount: integer('result_count').notNull(),
+  latencyMs: integer('latency_ms').notNull(),
+  // Salted hash of IP and user agent; never the raw values
+  visitorId: varchar('visitor_id', { length: 64 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    normalizedQueryIdx: index('search_queries_normalized_query_idx').on(table.normalizedQuery),
+    dateIdx: index('search_queries_date_idx').on(table.createdAt),
+  };
+});
+
+// A result chosen from a logged search
+export const searchClicks = pgTable('search_clicks', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  searchId: uuid('search_id').notNull().references(() => searchQueries.id, { onDelete: 'cascade' }),
+  resultType: varchar('result_type', { length: 20 }).notNull(),
+  resultId: varchar('result_id', { length: 100 }).notNull(),
+  // 1-based rank of the result in the list the visitor saw
+  position: integer('position'),
+  visitorId: varchar('visitor_id', { length: 64 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => {
+  return {
+    searchIdx: index('search_clicks_search_idx').on(table.searchId),
+  };
+});
+
+export type SearchQueryEntry = typeof searchQueries.$inferSelect;
+export type NewSearchQueryEntry = typeof searchQueries.$inferInsert;
+export type SearchClick = typeof searchClicks.$inferSelect;
+export type NewSearchClick = typeof searchClicks.$inferInsert;
+
+// Search synonyms: a query word that should also match other words, e.g. "dripper" -> ["emitter"].
+// One-way; add the reverse entry for a two-way synonym.
+export const searchSynonyms = pgTable('search_synonyms', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  // Lowercased
+  term: varchar('term', { length: 100 }).notNull().unique(),
+  synonyms: json('synonyms').$type<string[]>().notNull(),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Pinned search results: products shown first, in order, for an exact (normalised) query
+export const searchPins = pgTable('search_pins', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  query: varchar('query', { length: 200 }).notNull().unique(),
+  productIds: json('product_ids').$type<string[]>().notNull(),
+  isActive: boolean('is_active').notNull().default(true),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export type SearchSynonym = typeof searchSynonyms.$inferSelect;
+export type NewSearchSynonym = typeof searchSynonyms.$inferInsert;
+export type SearchPin = typeof searchPins.$inferSelect;
+export type NewSearchPin = typeof searchPins.$inferInsert;
+
 // YouTube videos table for homepage videos section
 export const youtubeVideos = pgTable('youtube_videos', {
   id: uuid('id').defaultRandom().primaryKey(),
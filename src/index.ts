@@ -4,6 +4,10 @@ import cookieParser from 'cookie-parser';
 import authRoutes from './routes/auth.routes.js';
 import auditRoutes from './routes/audit.routes.js';
 import pendingChangesRoutes from './routes/pending-changes.routes.js';
+import changesetsRoutes from './routes/changesets.routes.js';
+import trashRoutes from './routes/trash.routes.js';
+import searchRoutes from './routes/search.routes.js';
+import searchTuningRoutes from './routes/search-tuning.routes.js';
 import usersRoutes from './routes/users.routes.js';
 import categoriesRoutes from './routes/categories.routes.js';
 import subcategoriesRoutes from './routes/subcategories.routes.js';
@@ -19,6 +23,12 @@ import youtubeRoutes from './routes/youtube.routes.js';
 import homePopupRoutes from './routes/home-popup.routes.js';
 import { authenticateToken, requireAdmin, requireEditor } from './middleware/auth.middleware.js';
 import logger, { requestLogger, errorLogger } from './utils/logger.js';
+import { scheduleTrashPurge } from './services/trash.service.js';
+import { schedulePublishing } from './services/publishing.service.js';
+import { scheduleSuggestionRefresh } from './services/suggestion.service.js';
+import { scheduleDatasheets } from './services/datasheet.service.js';
+import { ensureSpecificationIndex } from './services/spec-search.service.js';
+import { config } from './config/config.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -65,6 +75,10 @@ app.use((req, res, next) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/audit', auditRoutes);
 app.use('/api/pending-changes', pendingChangesRoutes);
+app.use('/api/changesets', changesetsRoutes);
+app.use('/api/trash', trashRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/search', searchTuningRoutes);
 app.use('/api/users', usersRoutes);
 app.use('/api/categories', categoriesRoutes);
 app.use('/api/subcategories', subcategoriesRoutes);
@@ -97,7 +111,7 @@ app.get('/health', (req, res) => {
 app.use(errorLogger);
 
 // Global error handler
-app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
+app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
   res.status(500).json({ 
     success: false, 
     error: process.env.NODE_ENV === 'production' ? 'Internal server error' : err.message 
@@ -114,4 +128,22 @@ app.listen(PORT, () => {
   logger.info('   Admin - email: admin@gogreen.com, password: admin123');
   logger.info('   Editor - email: editor@gogreen.com, password: editor123');
   logger.info('✅ Server ready to accept connections');
+
+  // Permanently remove trashed records once their retention period is over
+  scheduleTrashPurge();
+  logger.info(`🗑️  Trash retention: ${config.trash.retentionDays} days`);
+
+  // Apply scheduled publish/unpublish times and revalidate the frontend
+  schedulePublishing();
+
+  // Rebuild the search autocomplete index from the catalog
+  scheduleSuggestionRefresh();
+
+  // Re-render datasheet PDFs for products edited since their last one
+  scheduleDatasheets();
+
+  // Fill the faceted search index if it is empty (first start after it was added)
+  ensureSpecificationIndex()
+    .then((count) => count > 0 && logger.info(`🔎 Indexed ${count} specifications for faceted search`))
+    .catch((error) => logger.error({ err: error }, 'Specification index backfill failed'));
 });
@@ -58,3 +58,26 @@ export const requireRole = (...roles: UserRole[]) => {
 
 export const requireAdmin = requireRole(UserRole.ADMIN);
 export const requireEditor = requireRole(UserRole.EDITOR, UserRole.ADMIN);
+
+// Identify the user when a valid session cookie is sent, but let anonymous requests through
+export const optionalAuth = (
+  req: AuthRequest,
+  _res: Response,
+  next: NextFunction
+): void => {
+  const token = req.cookies[config.cookie.name];
+
+  if (token) {
+    try {
+      req.user = jwt.verify(token, config.jwt.secret) as JWTPayload;
+    } catch (error) {
+      // An invalid or expired token is treated as no token
+    }
+  }
+
+  next();
+};
+
+// Editors and admins can open records outside their publishing window; everyone else gets the public view
+export const canSeeUnscheduled = (req: AuthRequest): boolean =>
+  !!req.user && [UserRole.EDITOR, UserRole.ADMIN].includes(req.user.role);
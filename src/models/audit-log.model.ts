@@ -1,4 +1,4 @@
-import { db } from '../db/index.js';
+import { db, type DbExecutor } from '../db/index.js';
 import { auditLogs } from '../db/schema.js';
 import { eq, desc, and, gte, lte } from 'drizzle-orm';
 import { ActionType } from '../types/auth.js';
@@ -14,8 +14,8 @@ export interface CreateAuditLogData {
 }
 
 export class AuditLogModel {
-  static async create(data: CreateAuditLogData) {
-    const result = await db.insert(auditLogs).values({
+  static async create(data: CreateAuditLogData, tx: DbExecutor = db) {
+    const result = await tx.insert(auditLogs).values({
       userId: data.userId,
       action: data.action,
       resourceType: data.resourceType,
@@ -1,6 +1,8 @@
-import { db } from '../db/index.js';
+import { db, type DbExecutor } from '../db/index.js';
 import { categories } from '../db/schema.js';
-import { eq, desc, asc } from 'drizzle-orm';
+import { moveToTrash } from '../services/trash.service.js';
+import { withinSchedule } from '../utils/schedule.js';
+import { eq, asc, and, isNull } from 'drizzle-orm';
 
 export interface Category {
   id: string;
@@ -10,6 +12,9 @@ export interface Category {
   image: string | null;
   displayOrder: string | null;
   isActive: boolean;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+  deletedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -21,47 +26,54 @@ export class CategoryModel {
     description?: string | undefined;
     image?: string | undefined;
     displayOrder?: string | undefined;
-  }): Promise<Category> {
-    const result = await db.insert(categories).values(data).returning();
+    publishAt?: Date | null | undefined;
+    unpublishAt?: Date | null | undefined;
+  }, tx: DbExecutor = db): Promise<Category> {
+    const result = await tx.insert(categories).values(data).returning();
     return result[0]!;
   }
 
   static async getAll(includeInactive = false): Promise<Category[]> {
     if (includeInactive) {
-      return await db.select().from(categories).orderBy(asc(categories.displayOrder));
+      return await db.select().from(categories).where(isNull(categories.deletedAt)).orderBy(asc(categories.displayOrder));
     }
-    return await db.select().from(categories).where(eq(categories.isActive, true)).orderBy(asc(categories.displayOrder));
+    return await db.select().from(categories).where(and(eq(categories.isActive, true), isNull(categories.deletedAt), withinSchedule(categories))).orderBy(asc(categories.displayOrder));
   }
 
   static async getById(id: string): Promise<Category | null> {
-    const result = await db.select().from(categories).where(eq(categories.id, id)).limit(1);
+    const result = await db.select().from(categories).where(and(eq(categories.id, id), isNull(categories.deletedAt))).limit(1);
     return result.length > 0 ? result[0]! : null;
   }
 
-  static async getBySlug(slug: string): Promise<Category | null> {
-    const result = await db.select().from(categories).where(eq(categories.slug, slug)).limit(1);
+  // Public pages pass onlyScheduled so a category outside its publishing window 404s
+  static async getBySlug(slug: string, onlyScheduled = false): Promise<Category | null> {
+    const result = await db
+      .select()
+      .from(categories)
+      .where(and(eq(categories.slug, slug), isNull(categories.deletedAt), onlyScheduled ? withinSchedule(categories) : undefined))
+      .limit(1);
     return result.length > 0 ? result[0]! : null;
   }
 
-  static async update(id: string, data: Partial<Omit<Category, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Category | null> {
-    const result = await db
+  static async update(id: string, data: Partial<Omit<Category, 'id' | 'createdAt' | 'updatedAt'>>, tx: DbExecutor = db): Promise<Category | null> {
+    const result = await tx
       .update(categories)
       .set({ ...data, updatedAt: new Date() })
-      .where(eq(categories.id, id))
+      .where(and(eq(categories.id, id), isNull(categories.deletedAt)))
       .returning();
     return result.length > 0 ? result[0]! : null;
   }
 
-  static async delete(id: string): Promise<boolean> {
-    const result = await db.delete(categories).where(eq(categories.id, id)).returning();
-    return result.length > 0;
+  // Moves the category and everything under it to the trash
+  static async delete(id: string, tx: DbExecutor = db): Promise<boolean> {
+    return (await moveToTrash('category', id, tx)) !== null;
   }
 
-  static async toggleActive(id: string, isActive: boolean): Promise<boolean> {
-    const result = await db
+  static async toggleActive(id: string, isActive: boolean, tx: DbExecutor = db): Promise<boolean> {
+    const result = await tx
       .update(categories)
       .set({ isActive, updatedAt: new Date() })
-      .where(eq(categories.id, id))
+      .where(and(eq(categories.id, id), isNull(categories.deletedAt)))
       .returning();
     return result.length > 0;
   }
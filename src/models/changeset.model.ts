@@ -0,0 +1,86 @@
+import { db, type DbExecutor } from '../db/index.js';
+import { changesets, users } from '../db/schema.js';
+import { eq, and, desc } from 'drizzle-orm';
+import { ChangeStatus } from '../types/auth.js';
+
+export interface CreateChangesetData {
+  userId: string;
+  title: string;
+  description?: string | undefined;
+}
+
+export interface ReviewChangesetData {
+  reviewedBy: string;
+  status: ChangeStatus;
+  reviewNotes?: string | undefined;
+  applyError?: string | undefined;
+}
+
+export class ChangesetModel {
+  static async create(data: CreateChangesetData, tx: DbExecutor = db) {
+    const result = await tx.insert(changesets).values({
+      userId: data.userId,
+      title: data.title,
+      description: data.description,
+      status: 'pending',
+    }).returning();
+
+    return result[0]!;
+  }
+
+  static async getById(id: string) {
+    const result = await db
+      .select()
+      .from(changesets)
+      .where(eq(changesets.id, id))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  // The changeset together with the email of the user who submitted it
+  static async getByIdWithSubmitter(id: string) {
+    const result = await db
+      .select({ changeset: changesets, submitterEmail: users.email })
+      .from(changesets)
+      .innerJoin(users, eq(changesets.userId, users.id))
+      .where(eq(changesets.id, id))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  static async getAllPending() {
+    return await db
+      .select()
+      .from(changesets)
+      .where(eq(changesets.status, 'pending'))
+      .orderBy(desc(changesets.createdAt));
+  }
+
+  static async getByUserId(userId: string) {
+    return await db
+      .select()
+      .from(changesets)
+      .where(eq(changesets.userId, userId))
+      .orderBy(desc(changesets.createdAt));
+  }
+
+  // Only a changeset that is still pending can be reviewed; returns null otherwise
+  static async review(id: string, reviewData: ReviewChangesetData, tx: DbExecutor = db) {
+    const result = await tx
+      .update(changesets)
+      .set({
+        status: reviewData.status,
+        reviewedBy: reviewData.reviewedBy,
+        reviewedAt: new Date(),
+        reviewNotes: reviewData.reviewNotes,
+        applyError: reviewData.applyError,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(changesets.id, id), eq(changesets.status, 'pending')))
+      .returning();
+
+    return result[0] || null;
+  }
+}
@@ -0,0 +1,38 @@
+import { db } from '../db/index.js';
+import { pendingChangeComments, users } from '../db/schema.js';
+import { eq, asc } from 'drizzle-orm';
+
+export interface CreatePendingChangeCommentData {
+  pendingChangeId: string;
+  userId: string;
+  body: string;
+}
+
+export class PendingChangeCommentModel {
+  static async create(data: CreatePendingChangeCommentData) {
+    const result = await db.insert(pendingChangeComments).values({
+      pendingChangeId: data.pendingChangeId,
+      userId: data.userId,
+      body: data.body,
+    }).returning();
+
+    return result[0]!;
+  }
+
+  // Oldest first, with each author's email for display
+  static async getByPendingChangeId(pendingChangeId: string) {
+    return await db
+      .select({
+        id: pendingChangeComments.id,
+        pendingChangeId: pendingChangeComments.pendingChangeId,
+        userId: pendingChangeComments.userId,
+        authorEmail: users.email,
+        body: pendingChangeComments.body,
+        createdAt: pendingChangeComments.createdAt,
+      })
+      .from(pendingChangeComments)
+      .innerJoin(users, eq(pendingChangeComments.userId, users.id))
+      .where(eq(pendingChangeComments.pendingChangeId, pendingChangeId))
+      .orderBy(asc(pendingChangeComments.createdAt));
+  }
+}
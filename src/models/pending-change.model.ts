@@ -1,6 +1,6 @@
-import { db } from '../db/index.js';
-import { pendingChanges } from '../db/schema.js';
-import { eq, and, desc } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db/index.js';
+import { pendingChanges, users } from '../db/schema.js';
+import { eq, and, desc, asc, isNull, inArray } from 'drizzle-orm';
 import { ActionType, ChangeStatus } from '../types/auth.js';
 
 export interface CreatePendingChangeData {
@@ -10,23 +10,35 @@ export interface CreatePendingChangeData {
   resourceId?: string | undefined;
   changeData: any;
   previousData?: any;
+  changesetId?: string | undefined;
+  sequence?: number | undefined;
+  ref?: string | undefined;
 }
 
 export interface ReviewPendingChangeData {
   reviewedBy: string;
   status: ChangeStatus;
   reviewNotes?: string | undefined;
+  applyError?: string | undefined;
+}
+
+export interface AmendPendingChangeData {
+  changeData: unknown;
+  previousData?: unknown;
 }
 
 export class PendingChangeModel {
-  static async create(data: CreatePendingChangeData) {
-    const result = await db.insert(pendingChanges).values({
+  static async create(data: CreatePendingChangeData, tx: DbExecutor = db) {
+    const result = await tx.insert(pendingChanges).values({
       userId: data.userId,
       action: data.action,
       resourceType: data.resourceType,
       resourceId: data.resourceId,
       changeData: data.changeData,
       previousData: data.previousData,
+      changesetId: data.changesetId,
+      sequence: data.sequence,
+      ref: data.ref,
       status: 'pending',
     }).returning();
 
@@ -43,11 +55,24 @@ export class PendingChangeModel {
     return result[0] || null;
   }
 
+  // The change together with the email of the user who submitted it
+  static async getByIdWithSubmitter(id: string) {
+    const result = await db
+      .select({ change: pendingChanges, submitterEmail: users.email })
+      .from(pendingChanges)
+      .innerJoin(users, eq(pendingChanges.userId, users.id))
+      .where(eq(pendingChanges.id, id))
+      .limit(1);
+
+    return result[0] || null;
+  }
+
+  // Changes that belong to a changeset are reviewed through the changeset instead
   static async getAllPending() {
     return await db
       .select()
       .from(pendingChanges)
-      .where(eq(pendingChanges.status, 'pending'))
+      .where(and(eq(pendingChanges.status, 'pending'), isNull(pendingChanges.changesetId)))
       .orderBy(desc(pendingChanges.createdAt));
   }
 
@@ -59,6 +84,14 @@ export class PendingChangeModel {
       .orderBy(desc(pendingChanges.createdAt));
   }
 
+  static async getByChangesetId(changesetId: string) {
+    return await db
+      .select()
+      .from(pendingChanges)
+      .where(eq(pendingChanges.changesetId, changesetId))
+      .orderBy(asc(pendingChanges.sequence));
+  }
+
   static async getByStatus(status: ChangeStatus) {
     return await db
       .select()
@@ -67,28 +100,48 @@ export class PendingChangeModel {
       .orderBy(desc(pendingChanges.createdAt));
   }
 
-  static async review(id: string, reviewData: ReviewPendingChangeData) {
-    const result = await db
+  // Only a change that is still pending can be reviewed; returns null otherwise
+  static async review(id: string, reviewData: ReviewPendingChangeData, tx: DbExecutor = db) {
+    const result = await tx
       .update(pendingChanges)
       .set({
         status: reviewData.status,
         reviewedBy: reviewData.reviewedBy,
         reviewedAt: new Date(),
         reviewNotes: reviewData.reviewNotes,
+        applyError: reviewData.applyError,
         updatedAt: new Date(),
       })
-      .where(eq(pendingChanges.id, id))
+      .where(and(eq(pendingChanges.id, id), eq(pendingChanges.status, 'pending')))
       .returning();
 
     return result[0] || null;
   }
 
-  static async delete(id: string) {
-    const result = await db
-      .delete(pendingChanges)
-      .where(eq(pendingChanges.id, id))
+  // Replace an open change's payload and send it back to the review queue; returns null once reviewed
+  static async amend(id: string, data: AmendPendingChangeData, tx: DbExecutor = db) {
+    const result = await tx
+      .update(pendingChanges)
+      .set({
+        changeData: data.changeData,
+        previousData: data.previousData,
+        status: 'pending',
+        updatedAt: new Date(),
+      })
+      .where(and(eq(pendingChanges.id, id), inArray(pendingChanges.status, ['pending', 'needs_revision'])))
       .returning();
 
-    return result.length > 0;
+    return result[0] || null;
+  }
+
+  // Mark a change its editor withdraws, keeping it and its comments; returns null once reviewed
+  static async withdraw(id: string, tx: DbExecutor = db) {
+    const result = await tx
+      .update(pendingChanges)
+      .set({ status: 'withdrawn', updatedAt: new Date() })
+      .where(and(eq(pendingChanges.id, id), inArray(pendingChanges.status, ['pending', 'needs_revision'])))
+      .returning();
+
+    return result[0] || null;
   }
 }
@@ -0,0 +1,131 @@
+import { db, type DbExecutor } from '../db/index.js';
+import { categories, productPlacements, products, subcategories } from '../db/schema.js';
+import { and, asc, desc, eq, inArray, isNull, notInArray, sql, type SQL } from 'drizzle-orm';
+
+export interface ProductPlacement {
+  id: string;
+  productId: string;
+  subcategoryId: string;
+  isPrimary: boolean;
+  displayOrder: string | null;
+  createdAt: Date;
+}
+
+// A placement with the names and slugs needed for breadcrumbs and links
+export interface PlacementPath {
+  subcategoryId: string;
+  isPrimary: boolean;
+  displayOrder: string | null;
+  subcategory: { id: string; name: string; slug: string };
+  category: { id: string; name: string; slug: string };
+}
+
+export interface PlacementInput {
+  subcategoryId: string;
+  isPrimary: boolean;
+  displayOrder?: string | null | undefined;
+}
+
+// Products placed in a subcategory, primary or not
+export function placedInSubcategory(subcategoryId: string): SQL {
+  return inArray(
+    products.id,
+    db.select({ id: productPlacements.productId }).from(productPlacements).where(eq(productPlacements.subcategoryId, subcategoryId))
+  );
+}
+
+// Products placed in any subcategory of a category
+export function placedInCategory(categoryId: string): SQL {
+  return inArray(
+    products.id,
+    db
+      .select({ id: productPlacements.productId })
+      .from(productPlacements)
+      .innerJoin(subcategories, eq(subcategories.id, productPlacements.subcategoryId))
+      .where(eq(subcategories.categoryId, categoryId))
+  );
+}
+
+// A product's display order within a subcategory, falling back to its own.
+// The placement table is named by hand: inside relational queries drizzle would re-alias its
+// columns to the products table.
+export function placementOrder(subcategoryId: string): SQL {
+  return sql`coalesce((
+    SELECT placement.display_order FROM product_placements AS placement
+    WHERE placement.product_id = ${products.id} AND placement.subcategory_id = ${subcategoryId}
+  ), ${products.displayOrder}, '')`;
+}
+
+export class ProductPlacementModel {
+  static async getByProductId(productId: string, tx: DbExecutor = db): Promise<ProductPlacement[]> {
+    return await tx
+      .select()
+      .from(productPlacements)
+      .where(eq(productPlacements.productId, productId))
+      .orderBy(desc(productPlacements.isPrimary), asc(productPlacements.createdAt));
+  }
+
+  // Placements with their subcategory and category, primary first; trashed subcategories are left out
+  static async getPaths(productId: string): Promise<PlacementPath[]> {
+    return await db
+      .select({
+        subcategoryId: productPlacements.subcategoryId,
+        isPrimary: productPlacements.isPrimary,
+        displayOrder: productPlacements.displayOrder,
+        subcategory: { id: subcategories.id, name: subcategories.name, slug: subcategories.slug },
+        category: { id: categories.id, name: categories.name, slug: categories.slug },
+      })
+      .from(productPlacements)
+      .innerJoin(subcategories, eq(subcategories.id, productPlacements.subcategoryId))
+      .innerJoin(categories, eq(categories.id, subcategories.categoryId))
+      .where(and(eq(productPlacements.productId, productId), isNull(subcategories.deletedAt), isNull(categories.deletedAt)))
+      .orderBy(desc(productPlacements.isPrimary), asc(categories.name), asc(subcategories.name));
+  }
+
+  // Make a subcategory the product's primary placement, keeping any others
+  static async setPrimary(productId: string, subcategoryId: string, displayOrder?: string | null, tx: DbExecutor = db): Promise<void> {
+    // Demote first: only one primary is allowed at a time
+    await tx
+      .update(productPlacements)
+      .set({ isPrimary: false })
+      .where(and(eq(productPlacements.productId, productId), eq(productPlacements.isPrimary, true)));
+    await tx
+      .insert(productPlacements)
+      .values({ productId, subcategoryId, isPrimary: true, displayOrder: displayOrder ?? null })
+      .onConflictDoUpdate({
+        target: [productPlacements.productId, productPlacements.subcategoryId],
+        set: { isPrimary: true },
+      });
+  }
+
+  // Replace all of a product's placements and point products.subcategoryId at the primary one.
+  // Callers validate that exactly one input is primary.
+  static async replace(productId: string, placements: PlacementInput[], tx: DbExecutor = db): Promise<ProductPlacement[]> {
+    const primary = placements.find((placement) => placement.isPrimary)!;
+
+    await tx
+      .delete(productPlacements)
+      .where(and(
+        eq(productPlacements.productId, productId),
+        notInArray(productPlacements.subcategoryId, placements.map((placement) => placement.subcategoryId))
+      ));
+    await this.setPrimary(productId, primary.subcategoryId, primary.displayOrder, tx);
+
+    for (const placement of placements) {
+      await tx
+        .insert(productPlacements)
+        .values({ productId, ...placement, displayOrder: placement.displayOrder ?? null })
+        .onConflictDoUpdate({
+          target: [productPlacements.productId, productPlacements.subcategoryId],
+          set: { isPrimary: placement.isPrimary, displayOrder: placement.displayOrder ?? null },
+        });
+    }
+
+    await tx
+      .update(products)
+      .set({ subcategoryId: primary.subcategoryId, updatedAt: new Date() })
+      .where(eq(products.id, productId));
+
+    return await this.getByProductId(productId, tx);
+  }
+}
@@ -0,0 +1,160 @@
+import { db, type DbExecutor } from '../db/index.js';
+import { productRelations, products } from '../db/schema.js';
+import { withinSchedule } from '../utils/schedule.js';
+import { and, asc, desc, eq, inArray, isNull, ne, or, sql, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+export const productRelationTypes = ['accessory', 'spare_part', 'alternative', 'frequently_bought_with'] as const;
+
+export type ProductRelationType = typeof productRelationTypes[number];
+
+// Relations that hold in both directions, so a link stored on either product shows on both
+const symmetricTypes: ProductRelationType[] = ['alternative', 'frequently_bought_with'];
+
+export interface ProductRelation {
+  id: string;
+  productId: string;
+  relatedProductId: string;
+  type: ProductRelationType;
+  displayOrder: number;
+  createdAt: Date;
+}
+
+// Just enough of a product to render a card
+export interface ProductSummary {
+  id: string;
+  name: string;
+  slug: string;
+  shortDescription: string | null;
+  coverImage: string | null;
+  priceMode: 'fixed' | 'on_request' | null;
+  priceAmount: number | null;
+  priceCurrency: string;
+  priceUnit: string | null;
+}
+
+export interface RelatedProduct {
+  relationId: string;
+  type: ProductRelationType;
+  displayOrder: number;
+  product: ProductSummary;
+}
+
+const summaryColumns = {
+  id: products.id,
+  name: products.name,
+  slug: products.slug,
+  shortDescription: products.shortDescription,
+  coverImage: products.coverImage,
+  priceMode: products.priceMode,
+  priceAmount: products.priceAmount,
+  priceCurrency: products.priceCurrency,
+  priceUnit: products.priceUnit,
+};
+
+// What the public site may show
+const visibleProduct = and(eq(products.isActive, true), isNull(products.deletedAt), withinSchedule(products));
+
+// Lowercased entries of a JSON string array column that also appear in `terms`
+function overlap(column: AnyPgColumn, terms: string[]): SQL {
+  return sql`(
+    SELECT count(*) FROM json_array_elements_text(CASE WHEN json_typeof(${column}) = 'array' THEN ${column} ELSE '[]'::json END) AS entry(value)
+    WHERE lower(entry.value) IN (SELECT json_array_elements_text(${JSON.stringify(terms)}::json))
+  )`;
+}
+
+export class ProductRelationModel {
+  static async create(data: {
+    productId: string;
+    relatedProductId: string;
+    type: ProductRelationType;
+    displayOrder?: number | undefined;
+  }, tx: DbExecutor = db): Promise<ProductRelation> {
+    const result = await tx.insert(productRelations).values(data).returning();
+    return result[0]!;
+  }
+
+  static async getById(id: string): Promise<ProductRelation | null> {
+    const result = await db.select().from(productRelations).where(eq(productRelations.id, id)).limit(1);
+    return result.length > 0 ? result[0]! : null;
+  }
+
+  // Whether the same link, or for symmetric types its reverse, already exists
+  static async exists(productId: string, relatedProductId: string, type: ProductRelationType): Promise<boolean> {
+    const reverse = symmetricTypes.includes(type)
+      ? and(eq(productRelations.productId, relatedProductId), eq(productRelations.relatedProductId, productId))
+      : undefined;
+    const result = await db
+      .select({ id: productRelations.id })
+      .from(productRelations)
+      .where(and(
+        eq(productRelations.type, type),
+        or(and(eq(productRelations.productId, productId), eq(productRelations.relatedProductId, relatedProductId)), reverse)
+      ))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  // Curated relations of a product, including symmetric ones stored on the other product.
+  // Pass includeHidden for the admin, so links to inactive or scheduled products can still be managed.
+  static async getForProduct(productId: string, includeHidden = false): Promise<RelatedProduct[]> {
+    const select = (relatedColumn: typeof productRelations.relatedProductId | typeof productRelations.productId, condition: SQL | undefined) =>
+      db
+        .select({ relation: productRelations, product: summaryColumns })
+        .from(productRelations)
+        .innerJoin(products, eq(products.id, relatedColumn))
+        .where(and(condition, includeHidden ? isNull(products.deletedAt) : visibleProduct));
+
+    const [outgoing, incoming] = await Promise.all([
+      select(productRelations.relatedProductId, eq(productRelations.productId, productId)),
+      select(productRelations.productId, and(eq(productRelations.relatedProductId, productId), inArray(productRelations.type, symmetricTypes))),
+    ]);
+
+    return [...outgoing, ...incoming]
+      .map(({ relation, product }) => ({ relationId: relation.id, type: relation.type, displayOrder: relation.displayOrder, product }))
+      .sort((a, b) => a.displayOrder - b.displayOrder || a.product.name.localeCompare(b.product.name));
+  }
+
+  // Fallback when nothing is curated: visible products sharing the subcategory, features or SEO keywords
+  static async recommend(product: {
+    id: string;
+    subcategoryId: string;
+    features: string[] | null;
+    seoKeywords: string[] | null;
+  }, limit = 6): Promise<ProductSummary[]> {
+    const features = [...new Set((product.features ?? []).map((feature) => feature.toLowerCase()))];
+    const keywords = [...new Set((product.seoKeywords ?? []).map((keyword) => keyword.toLowerCase()))];
+
+    const score = sql<number>`(
+      CASE WHEN ${products.subcategoryId} = ${product.subcategoryId} THEN 3 ELSE 0 END +
+      ${overlap(products.features, features)} * 2 +
+      ${overlap(products.seoKeywords, keywords)}
+    )`;
+
+    return await db
+      .select(summaryColumns)
+      .from(products)
+      .where(and(ne(products.id, product.id), visibleProduct, sql`${score} > 0`))
+      .orderBy(desc(score), asc(products.displayOrder), asc(products.name))
+      .limit(limit);
+  }
+
+  static async update(id: string, data: { type?: ProductRelationType | undefined; displayOrder?: number | undefined }, tx: DbExecutor = db): Promise<ProductRelation | null> {
+    const result = await tx.update(productRelations).set(data).where(eq(productRelations.id, id)).returning();
+    return result.length > 0 ? result[0]! : null;
+  }
+
+  static async delete(id: string, tx: DbExecutor = db): Promise<boolean> {
+    const result = await tx.delete(productRelations).where(eq(productRelations.id, id)).returning();
+    return result.length > 0;
+  }
+}
+
+// Curated relations keyed by type, every type present
+export function groupRelations(relations: RelatedProduct[]): Record<ProductRelationType, RelatedProduct[]> {
+  const grouped = Object.fromEntries(productRelationTypes.map((type) => [type, [] as RelatedProduct[]])) as Record<ProductRelationType, RelatedProduct[]>;
+  for (const relation of relations) {
+    grouped[relation.type].push(relation);
+  }
+  return grouped;
+}
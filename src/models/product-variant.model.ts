@@ -0,0 +1,93 @@
+import { db, type DbExecutor } from '../db/index.js';
+import { productVariants, products } from '../db/schema.js';
+import { and, asc, eq, isNull, ne, sql } from 'drizzle-orm';
+import { withinSchedule } from '../utils/schedule.js';
+
+export interface ProductVariant {
+  id: string;
+  productId: string;
+  sku: string;
+  name: string | null;
+  attributes: Record<string, string>;
+  price: number | null;
+  currency: string;
+  moq: number;
+  availability: 'in_stock' | 'made_to_order' | 'out_of_stock' | 'discontinued';
+  images: string[] | null;
+  displayOrder: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class ProductVariantModel {
+  static async create(data: {
+    productId: string;
+    sku: string;
+    name?: string | undefined;
+    attributes?: Record<string, string> | undefined;
+    price?: number | null | undefined;
+    currency?: string | undefined;
+    moq?: number | undefined;
+    availability?: ProductVariant['availability'] | undefined;
+    images?: string[] | undefined;
+    displayOrder?: number | undefined;
+    isActive?: boolean | undefined;
+  }, tx: DbExecutor = db): Promise<ProductVariant> {
+    const result = await tx.insert(productVariants).values(data).returning();
+    return result[0]!;
+  }
+
+  static async getByProductId(productId: string, includeInactive = false): Promise<ProductVariant[]> {
+    return await db
+      .select()
+      .from(productVariants)
+      .where(and(eq(productVariants.productId, productId), includeInactive ? undefined : eq(productVariants.isActive, true)))
+      .orderBy(asc(productVariants.displayOrder), asc(productVariants.sku));
+  }
+
+  static async getById(id: string): Promise<ProductVariant | null> {
+    const result = await db.select().from(productVariants).where(eq(productVariants.id, id)).limit(1);
+    return result.length > 0 ? result[0]! : null;
+  }
+
+  // Case-insensitive; the variant's product must not be in the trash
+  // Public lookups pass onlyScheduled to skip variants of products outside their publishing window
+  static async getBySku(sku: string, onlyScheduled = false): Promise<ProductVariant | null> {
+    const result = await db
+      .select({ variant: productVariants })
+      .from(productVariants)
+      .innerJoin(products, eq(products.id, productVariants.productId))
+      .where(and(
+        sql`lower(${productVariants.sku}) = lower(${sku.trim()})`,
+        isNull(products.deletedAt),
+        onlyScheduled ? withinSchedule(products) : undefined
+      ))
+      .limit(1);
+    return result.length > 0 ? result[0]!.variant : null;
+  }
+
+  // SKUs are unique across all variants, including those of trashed products
+  static async isSkuTaken(sku: string, exceptId?: string): Promise<boolean> {
+    const result = await db
+      .select({ id: productVariants.id })
+      .from(productVariants)
+      .where(and(sql`lower(${productVariants.sku}) = lower(${sku.trim()})`, exceptId ? ne(productVariants.id, exceptId) : undefined))
+      .limit(1);
+    return result.length > 0;
+  }
+
+  static async update(id: string, data: Partial<Omit<ProductVariant, 'id' | 'productId' | 'createdAt' | 'updatedAt'>>, tx: DbExecutor = db): Promise<ProductVariant | null> {
+    const result = await tx
+      .update(productVariants)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(productVariants.id, id))
+      .returning();
+    return result.length > 0 ? result[0]! : null;
+  }
+
+  static async delete(id: string, tx: DbExecutor = db): Promise<boolean> {
+    const result = await tx.delete(productVariants).where(eq(productVariants.id, id)).returning();
+    return result.length > 0;
+  }
+}
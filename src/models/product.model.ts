@@ -1,6 +1,14 @@
-import { db } from '../db/index.js';
-import { products, productSpecifications } from '../db/schema.js';
-import { eq, desc, asc, and, sql } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db/index.js';
+import { products, productSpecifications, productVariants } from '../db/schema.js';
+import { moveToTrash } from '../services/trash.service.js';
+import { withinSchedule } from '../utils/schedule.js';
+import { resolvePricing } from '../utils/pricing.js';
+import type { ListProductsQuery } from '../types/product.js';
+import { SearchPinModel } from './search-pin.model.js';
+import { SearchSynonymModel } from './search-synonym.model.js';
+import type { ProductVariant } from './product-variant.model.js';
+import { ProductPlacementModel, placedInCategory, placedInSubcategory, placementOrder } from './product-placement.model.js';
+import { eq, desc, asc, and, or, sql, isNull, isNotNull, ne, gte, inArray, type SQL } from 'drizzle-orm';
 
 export interface Product {
   id: string;
@@ -10,9 +18,18 @@ export interface Product {
   description: string | null;
   shortDescription: string | null;
   price: string | null;
+  priceMode: 'fixed' | 'on_request' | null;
+  priceAmount: number | null;
+  priceCurrency: string;
+  priceUnit: string | null;
+  priceTiers: { minQuantity: number; amount: number }[] | null;
+  priceNeedsReview: boolean;
   images: string[] | null;
   coverImage: string | null;
   pdfUrl: string | null;
+  datasheetUrl: string | null;
+  datasheetHash: string | null;
+  datasheetGeneratedAt: Date | null;
   specifications: any | null;
   features: string[] | null;
   seoKeywords: string[] | null;
@@ -20,8 +37,116 @@ export interface Product {
   displayOrder: string | null;
   isActive: boolean;
   isFeatured: boolean;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+  deletedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
+  // Active variants, on single-product reads
+  variants?: ProductVariant[];
+}
+
+// Active variants in display order, for embedding in product reads
+const activeVariants = {
+  where: eq(productVariants.isActive, true),
+  orderBy: [asc(productVariants.displayOrder), asc(productVariants.sku)],
+};
+
+export type ProductListOptions = Omit<ListProductsQuery, 'cursor'> & { cursor?: string | undefined };
+
+export interface ProductPage {
+  data: Record<string, unknown>[];
+  // Pass back as ?cursor= for the next page; null on the last page or without a limit
+  nextCursor: string | null;
+}
+
+// Position of the last row on a page: its sort value (as Postgres text, so timestamps keep
+// their microseconds) and its id as the tie-breaker. The sort is kept so a cursor cannot be
+// replayed against a different ordering.
+interface ProductCursor {
+  sort: string;
+  order: string;
+  value: string;
+  id: string;
+}
+
+function encodeCursor(cursor: ProductCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): ProductCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return ['sort', 'order', 'value', 'id'].every((key) => typeof parsed?.[key] === 'string') ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Whether a product matches a search query
+function searchMatch(query: string): SQL {
+  const searchPattern = `%${query}%`;
+  return sql`(
+    -- Strategy 1: Pattern matching (fast, handles partial matches)
+    LOWER(${products.name}) LIKE LOWER(${searchPattern}) OR
+    LOWER(COALESCE(${products.description}, '')) LIKE LOWER(${searchPattern}) OR
+    LOWER(COALESCE(${products.shortDescription}, '')) LIKE LOWER(${searchPattern}) OR
+
+    -- Strategy 2: Full-text search (handles multiple words)
+    (
+      setweight(to_tsvector('english', ${products.name}), 'A') ||
+      setweight(to_tsvector('english', coalesce(${products.description}, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(${products.shortDescription}, '')), 'C')
+    ) @@ plainto_tsquery('english', ${query}) OR
+
+    -- Strategy 3: Trigram similarity (handles typos)
+    similarity(LOWER(${products.name}), LOWER(${query})) > 0.2 OR
+
+    -- Strategy 4: Word distance (Levenshtein) for close matches
+    word_similarity(LOWER(${query}), LOWER(${products.name})) > 0.3 OR
+
+    -- Strategy 5: SKU of an active variant, whole or leading part
+    EXISTS (
+      SELECT 1 FROM ${productVariants}
+      WHERE ${productVariants.productId} = ${products.id} AND ${productVariants.isActive}
+        AND LOWER(${productVariants.sku}) LIKE LOWER(${query} || '%')
+    )
+  )`;
+}
+
+// Relevance score combining multiple factors
+function searchRelevance(query: string): SQL {
+  const searchPattern = `%${query}%`;
+  return sql`(
+    -- Exact match gets highest score
+    CASE WHEN LOWER(${products.name}) = LOWER(${query}) THEN 100 ELSE 0 END +
+
+    -- Starts with query gets high score
+    CASE WHEN LOWER(${products.name}) LIKE LOWER(${query} || '%') THEN 50 ELSE 0 END +
+
+    -- Contains query gets medium score
+    CASE WHEN LOWER(${products.name}) LIKE LOWER(${searchPattern}) THEN 25 ELSE 0 END +
+
+    -- Full-text search ranking
+    ts_rank(
+      setweight(to_tsvector('english', ${products.name}), 'A') ||
+      setweight(to_tsvector('english', coalesce(${products.description}, '')), 'B'),
+      plainto_tsquery('english', ${query})
+    ) * 10 +
+
+    -- Trigram similarity score
+    similarity(LOWER(${products.name}), LOWER(${query})) * 30 +
+
+    -- Word similarity score
+    word_similarity(LOWER(${query}), LOWER(${products.name})) * 20 +
+
+    -- An exact SKU is as good as an exact name
+    CASE WHEN EXISTS (
+      SELECT 1 FROM ${productVariants}
+      WHERE ${productVariants.productId} = ${products.id} AND ${productVariants.isActive}
+        AND LOWER(${productVariants.sku}) = LOWER(${query})
+    ) THEN 100 ELSE 0 END
+  )`;
 }
 
 export class ProductModel {
@@ -29,29 +154,41 @@ export class ProductModel {
     subcategoryId: string;
     name: string;
     slug: string;
-    description?: string | undefined;
-    shortDescription?: string | undefined;
-    price?: string | undefined;
-    images?: string[] | undefined;
-    coverImage?: string | undefined;
-    pdfUrl?: string | undefined;
+    description?: string | null | undefined;
+    shortDescription?: string | null | undefined;
+    price?: string | null | undefined;
+    priceMode?: 'fixed' | 'on_request' | null | undefined;
+    priceAmount?: number | null | undefined;
+    priceCurrency?: string | undefined;
+    priceUnit?: string | null | undefined;
+    priceTiers?: { minQuantity: number; amount: number }[] | null | undefined;
+    images?: string[] | null | undefined;
+    coverImage?: string | null | undefined;
+    pdfUrl?: string | null | undefined;
     specifications?: any;
-    features?: string[] | undefined;
-    seoKeywords?: string[] | undefined;
-    staticPageUrl?: string | undefined;
-    displayOrder?: string | undefined;
+    features?: string[] | null | undefined;
+    seoKeywords?: string[] | null | undefined;
+    staticPageUrl?: string | null | undefined;
+    displayOrder?: string | null | undefined;
     isFeatured?: boolean | undefined;
-  }): Promise<Product> {
-    const result = await db.insert(products).values(data).returning();
-    return result[0]!;
+    publishAt?: Date | null | undefined;
+    unpublishAt?: Date | null | undefined;
+  }, tx?: DbExecutor): Promise<Product> {
+    // The product and its primary placement are written together; listings read the placement
+    if (!tx) return await db.transaction((inner) => ProductModel.create(data, inner));
+
+    const result = await tx.insert(products).values(resolvePricing(data)).returning();
+    const product = result[0]!;
+    await ProductPlacementModel.setPrimary(product.id, product.subcategoryId, product.displayOrder, tx);
+    return product;
   }
 
   static async getAll(includeInactive = false): Promise<Product[]> {
     const query = db.query.products.findMany({
-      where: includeInactive ? undefined : eq(products.isActive, true),
+      where: includeInactive ? isNull(products.deletedAt) : and(eq(products.isActive, true), isNull(products.deletedAt), withinSchedule(products)),
       with: {
         specifications: {
-          where: eq(productSpecifications.isActive, true),
+          where: and(eq(productSpecifications.isActive, true), isNull(productSpecifications.deletedAt)),
         },
       },
       orderBy: asc(products.displayOrder),
@@ -59,25 +196,29 @@ export class ProductModel {
     return await query;
   }
 
-  static async getById(id: string): Promise<Product | null> {
+  // Public pages pass onlyScheduled so a product outside its publishing window 404s
+  static async getById(id: string, onlyScheduled = false): Promise<Product | null> {
     const result = await db.query.products.findFirst({
-      where: eq(products.id, id),
+      where: and(eq(products.id, id), isNull(products.deletedAt), onlyScheduled ? withinSchedule(products) : undefined),
       with: {
         specifications: {
-          where: eq(productSpecifications.isActive, true),
+          where: and(eq(productSpecifications.isActive, true), isNull(productSpecifications.deletedAt)),
         },
+        variants: activeVariants,
       },
     });
     return result || null;
   }
 
-  static async getBySlug(slug: string): Promise<Product | null> {
+  // Public pages pass onlyScheduled so a product outside its publishing window 404s
+  static async getBySlug(slug: string, onlyScheduled = false): Promise<Product | null> {
     const result = await db.query.products.findFirst({
-      where: eq(products.slug, slug),
+      where: and(eq(products.slug, slug), isNull(products.deletedAt), onlyScheduled ? withinSchedule(products) : undefined),
       with: {
         specifications: {
-          where: eq(productSpecifications.isActive, true),
+          where: and(eq(productSpecifications.isActive, true), isNull(productSpecifications.deletedAt)),
         },
+        variants: activeVariants,
       },
     });
     return result || null;
@@ -86,24 +227,37 @@ export class ProductModel {
   static async getBySubcategoryId(subcategoryId: string, includeInactive = false): Promise<Product[]> {
     const query = db.query.products.findMany({
       where: includeInactive 
-        ? eq(products.subcategoryId, subcategoryId)
-        : and(eq(products.subcategoryId, subcategoryId), eq(products.isActive, true)),
+        ? and(placedInSubcategory(subcategoryId), isNull(products.deletedAt))
+        : and(placedInSubcategory(subcategoryId), eq(products.isActive, true), isNull(products.deletedAt), withinSchedule(products)),
       with: {
         specifications: {
-          where: eq(productSpecifications.isActive, true),
+          where: and(eq(productSpecifications.isActive, true), isNull(productSpecifications.deletedAt)),
         },
       },
-      orderBy: asc(products.displayOrder),
+      orderBy: asc(placementOrder(subcategoryId)),
     });
     return await query;
   }
 
+  // Live products with their specifications in display order; ids that are hidden or missing are left out
+  static async getPublishedByIds(ids: string[]): Promise<Product[]> {
+    return await db.query.products.findMany({
+      where: and(inArray(products.id, ids), eq(products.isActive, true), isNull(products.deletedAt), withinSchedule(products)),
+      with: {
+        specifications: {
+          where: and(eq(productSpecifications.isActive, true), isNull(productSpecifications.deletedAt)),
+          orderBy: asc(productSpecifications.displayOrder),
+        },
+      },
+    });
+  }
+
   static async getFeatured(limit = 10): Promise<Product[]> {
     const query = db.query.products.findMany({
-      where: and(eq(products.isFeatured, true), eq(products.isActive, true)),
+      where: and(eq(products.isFeatured, true), eq(products.isActive, true), isNull(products.deletedAt), withinSchedule(products)),
       with: {
         specifications: {
-          where: eq(productSpecifications.isActive, true),
+          where: and(eq(productSpecifications.isActive, true), isNull(productSpecifications.deletedAt)),
         },
       },
       orderBy: asc(products.displayOrder),
@@ -112,34 +266,164 @@ export class ProductModel {
     return await query;
   }
 
-  static async update(id: string, data: Partial<Omit<Product, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Product | null> {
-    const result = await db
+  // Filtered, sorted, keyset-paginated listing. Without a limit every matching row is returned.
+  // Resolves to null when the cursor is malformed or was issued for a different sort.
+  static async list(options: ProductListOptions): Promise<ProductPage | null> {
+    // displayOrder is nullable; treat missing as '' so it sorts first, as it does today
+    const sortExpressions: Record<ProductListOptions['sort'], SQL> = {
+      name: sql`${products.name}`,
+      createdAt: sql`${products.createdAt}`,
+      updatedAt: sql`${products.updatedAt}`,
+      // Within one subcategory, the order set on that placement
+      displayOrder: options.subcategoryId ? placementOrder(options.subcategoryId) : sql`coalesce(${products.displayOrder}, '')`,
+      // Unpriced products sort after every real amount (numeric(12,2) tops out below this)
+      price: sql`coalesce(${products.priceAmount}, 10000000000)`,
+    };
+    const sortExpression = sortExpressions[options.sort];
+    const direction = options.order === 'desc' ? desc : asc;
+
+    const conditions: (SQL | undefined)[] = [isNull(products.deletedAt)];
+    if (!options.includeInactive) {
+      conditions.push(eq(products.isActive, true), withinSchedule(products));
+    }
+    if (options.isActive !== undefined) conditions.push(eq(products.isActive, options.isActive));
+    if (options.isFeatured !== undefined) conditions.push(eq(products.isFeatured, options.isFeatured));
+    if (options.subcategoryId) conditions.push(placedInSubcategory(options.subcategoryId));
+    if (options.categoryId) conditions.push(placedInCategory(options.categoryId));
+    if (options.hasPdf !== undefined) {
+      conditions.push(options.hasPdf
+        ? or(and(isNotNull(products.pdfUrl), ne(products.pdfUrl, '')), isNotNull(products.datasheetUrl))
+        : and(sql`coalesce(${products.pdfUrl}, '') = ''`, isNull(products.datasheetUrl)));
+    }
+    if (options.priceNeedsReview !== undefined) conditions.push(eq(products.priceNeedsReview, options.priceNeedsReview));
+    if (options.updatedSince) conditions.push(gte(products.updatedAt, options.updatedSince));
+
+    if (options.cursor) {
+      const cursor = decodeCursor(options.cursor);
+      if (!cursor || cursor.sort !== options.sort || cursor.order !== options.order) {
+        return null;
+      }
+      conditions.push(options.order === 'desc'
+        ? sql`(${sortExpression}, ${products.id}) < (${cursor.value}, ${cursor.id})`
+        : sql`(${sortExpression}, ${products.id}) > (${cursor.value}, ${cursor.id})`);
+    }
+
+    // id is always returned so rows stay addressable and the cursor can be built
+    const columns = options.fields
+      ? Object.fromEntries(['id', ...options.fields].map((field) => [field, true]))
+      : undefined;
+    const include = options.include ?? ['specifications'];
+
+    const rows = await db.query.products.findMany({
+      ...(columns ? { columns } : {}),
+      where: and(...conditions),
+      with: {
+        ...(include.includes('specifications') && {
+          specifications: {
+            where: and(eq(productSpecifications.isActive, true), isNull(productSpecifications.deletedAt)),
+          },
+        }),
+        ...(include.includes('variants') && { variants: activeVariants }),
+      },
+      extras: {
+        cursorValue: sql<string>`(${sortExpression})::text`.as('cursor_value'),
+      },
+      orderBy: [direction(sortExpression), direction(products.id)],
+      // One extra row tells us whether there is another page
+      ...(options.limit ? { limit: options.limit + 1 } : {}),
+    });
+
+    const hasMore = options.limit !== undefined && rows.length > options.limit;
+    const page = hasMore ? rows.slice(0, options.limit) : rows;
+    const last = page[page.length - 1];
+
+    return {
+      data: page.map(({ cursorValue, ...row }) => row),
+      nextCursor: hasMore && last ? encodeCursor({ sort: options.sort, order: options.order, value: last.cursorValue, id: last.id }) : null,
+    };
+  }
+
+  static async update(id: string, data: Partial<Omit<Product, 'id' | 'createdAt' | 'updatedAt'>>, tx?: DbExecutor): Promise<Product | null> {
+    if (!tx) return await db.transaction((inner) => ProductModel.update(id, data, inner));
+
+    // Pricing is resolved against the stored price, locked so a concurrent write can't change it underneath
+    const [stored] = await tx
+      .select({
+        priceMode: products.priceMode,
+        priceAmount: products.priceAmount,
+        priceCurrency: products.priceCurrency,
+        priceUnit: products.priceUnit,
+        priceTiers: products.priceTiers,
+      })
+      .from(products)
+      .where(and(eq(products.id, id), isNull(products.deletedAt)))
+      .for('update');
+    if (!stored) return null;
+
+    const result = await tx
       .update(products)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(products.id, id))
+      .set({ ...resolvePricing(data, stored), updatedAt: new Date() })
+      .where(and(eq(products.id, id), isNull(products.deletedAt)))
       .returning();
+    // Moving the product moves its primary placement; other placements stay
+    if (result.length > 0 && data.subcategoryId) {
+      await ProductPlacementModel.setPrimary(id, data.subcategoryId, undefined, tx);
+    }
     return result.length > 0 ? result[0]! : null;
   }
 
-  static async delete(id: string): Promise<boolean> {
-    const result = await db.delete(products).where(eq(products.id, id)).returning();
-    return result.length > 0;
+  // Products whose datasheet is missing or older than the product or one of its specifications,
+  // least recently rendered first
+  static async getStaleDatasheetIds(limit: number): Promise<string[]> {
+    const generatedAt = products.datasheetGeneratedAt;
+    const rows = await db
+      .select({ id: products.id })
+      .from(products)
+      .where(and(
+        isNull(products.deletedAt),
+        or(
+          isNull(products.datasheetGeneratedAt),
+          sql`${products.updatedAt} > ${generatedAt}`,
+          sql`EXISTS (
+            SELECT 1 FROM ${productSpecifications}
+            WHERE ${productSpecifications.productId} = ${products.id}
+              AND (${productSpecifications.updatedAt} > ${generatedAt} OR ${productSpecifications.deletedAt} > ${generatedAt})
+          )`
+        )
+      ))
+      .orderBy(sql`${products.datasheetGeneratedAt} asc nulls first`, asc(products.id))
+      .limit(limit);
+    return rows.map((row) => row.id);
+  }
+
+  // Not a content edit, so updatedAt is left alone
+  static async setDatasheet(id: string, data: {
+    datasheetUrl?: string | undefined;
+    datasheetHash?: string | undefined;
+    datasheetGeneratedAt: Date;
+  }): Promise<void> {
+    await db.update(products).set(data).where(eq(products.id, id));
   }
 
-  static async toggleActive(id: string, isActive: boolean): Promise<boolean> {
-    const result = await db
+  // Moves the product and everything under it to the trash
+  static async delete(id: string, tx: DbExecutor = db): Promise<boolean> {
+    return (await moveToTrash('product', id, tx)) !== null;
+  }
+
+  static async toggleActive(id: string, isActive: boolean, tx: DbExecutor = db): Promise<boolean> {
+    const result = await tx
       .update(products)
       .set({ isActive, updatedAt: new Date() })
-      .where(eq(products.id, id))
+      .where(and(eq(products.id, id), isNull(products.deletedAt)))
       .returning();
     return result.length > 0;
   }
 
-  static async toggleFeatured(id: string, isFeatured: boolean): Promise<boolean> {
-    const result = await db
+  static async toggleFeatured(id: string, isFeatured: boolean, tx: DbExecutor = db): Promise<boolean> {
+    const result = await tx
       .update(products)
       .set({ isFeatured, updatedAt: new Date() })
-      .where(eq(products.id, id))
+      .where(and(eq(products.id, id), isNull(products.deletedAt)))
       .returning();
     return result.length > 0;
   }
@@ -148,61 +432,33 @@ export class ProductModel {
     // 1. Exact match and prefix matching with ILIKE
     // 2. Full-text search with PostgreSQL
     // 3. Trigram similarity for typo tolerance
-    
-    const searchPattern = `%${query}%`;
-    
-    return await db
+    // The query is also expanded with admin-managed synonyms, and pinned products are put first.
+
+    const [variants, pinnedIds] = await Promise.all([
+      SearchSynonymModel.expandQuery(query),
+      SearchPinModel.getPinnedProductIds(query),
+    ]);
+    const visible = and(
+      includeInactive ? undefined : and(eq(products.isActive, true), withinSchedule(products)),
+      isNull(products.deletedAt)
+    );
+
+    const ranked = await db
       .select()
       .from(products)
-      .where(
-        and(
-          includeInactive ? undefined : eq(products.isActive, true),
-          sql`(
-            -- Strategy 1: Pattern matching (fast, handles partial matches)
-            LOWER(${products.name}) LIKE LOWER(${searchPattern}) OR
-            LOWER(COALESCE(${products.description}, '')) LIKE LOWER(${searchPattern}) OR
-            LOWER(COALESCE(${products.shortDescription}, '')) LIKE LOWER(${searchPattern}) OR
-            
-            -- Strategy 2: Full-text search (handles multiple words)
-            (
-              setweight(to_tsvector('english', ${products.name}), 'A') ||
-              setweight(to_tsvector('english', coalesce(${products.description}, '')), 'B') ||
-              setweight(to_tsvector('english', coalesce(${products.shortDescription}, '')), 'C')
-            ) @@ plainto_tsquery('english', ${query}) OR
-            
-            -- Strategy 3: Trigram similarity (handles typos)
-            similarity(LOWER(${products.name}), LOWER(${query})) > 0.2 OR
-            
-            -- Strategy 4: Word distance (Levenshtein) for close matches
-            word_similarity(LOWER(${query}), LOWER(${products.name})) > 0.3
-          )`
-        )
-      )
+      .where(and(visible, or(searchMatch(query), ...variants.map(searchMatch))))
       .orderBy(
-        // Order by relevance score combining multiple factors
-        desc(sql`(
-          -- Exact match gets highest score
-          CASE WHEN LOWER(${products.name}) = LOWER(${query}) THEN 100 ELSE 0 END +
-          
-          -- Starts with query gets high score
-          CASE WHEN LOWER(${products.name}) LIKE LOWER(${query} || '%') THEN 50 ELSE 0 END +
-          
-          -- Contains query gets medium score
-          CASE WHEN LOWER(${products.name}) LIKE LOWER(${searchPattern}) THEN 25 ELSE 0 END +
-          
-          -- Full-text search ranking
-          ts_rank(
-            setweight(to_tsvector('english', ${products.name}), 'A') ||
-            setweight(to_tsvector('english', coalesce(${products.description}, '')), 'B'),
-            plainto_tsquery('english', ${query})
-          ) * 10 +
-          
-          -- Trigram similarity score
-          similarity(LOWER(${products.name}), LOWER(${query})) * 30 +
-          
-          -- Word similarity score
-          word_similarity(LOWER(${query}), LOWER(${products.name})) * 20
-        )`)
+        // A synonym hit ranks a little below the same hit on the words actually typed
+        desc(sql`greatest(${sql.join([searchRelevance(query), ...variants.map((variant) => sql`${searchRelevance(variant)} * 0.9`)], sql`, `)})`)
       );
+
+    if (pinnedIds.length === 0) {
+      return ranked;
+    }
+
+    const pinned = await db.select().from(products).where(and(visible, inArray(products.id, pinnedIds)));
+    pinned.sort((a, b) => pinnedIds.indexOf(a.id) - pinnedIds.indexOf(b.id));
+    const pinnedSet = new Set(pinnedIds);
+    return [...pinned, ...ranked.filter((product) => !pinnedSet.has(product.id))];
   }
 }
@@ -0,0 +1,77 @@
+import { db, type DbExecutor } from '../db/index.js';
+import { revisions, users } from '../db/schema.js';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { ActionType } from '../types/auth.js';
+
+export interface CreateRevisionData {
+  resourceType: string;
+  resourceId: string;
+  action: ActionType;
+  snapshot: unknown;
+  userId?: string | undefined;
+  restoredFrom?: number | undefined;
+}
+
+export class RevisionModel {
+  // Appends the next revision number for the resource. Writers of the same resource queue on an
+  // advisory lock held until their transaction ends, so two of them can't both read the same max.
+  static async create(data: CreateRevisionData, tx: DbExecutor = db): Promise<typeof revisions.$inferSelect> {
+    if (tx === db) {
+      return await db.transaction((trx) => RevisionModel.create(data, trx));
+    }
+
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${data.resourceType} || ':' || ${data.resourceId}))`);
+
+    const [latest] = await tx
+      .select({ revision: sql<number>`coalesce(max(${revisions.revision}), 0)::int` })
+      .from(revisions)
+      .where(and(eq(revisions.resourceType, data.resourceType), eq(revisions.resourceId, data.resourceId)));
+
+    const result = await tx.insert(revisions).values({
+      resourceType: data.resourceType,
+      resourceId: data.resourceId,
+      revision: (latest?.revision ?? 0) + 1,
+      action: data.action,
+      snapshot: data.snapshot,
+      userId: data.userId,
+      restoredFrom: data.restoredFrom,
+    }).returning();
+
+    return result[0]!;
+  }
+
+  // Newest first, with the author's email for display
+  static async getByResource(resourceType: string, resourceId: string) {
+    return await db
+      .select({
+        id: revisions.id,
+        resourceType: revisions.resourceType,
+        resourceId: revisions.resourceId,
+        revision: revisions.revision,
+        action: revisions.action,
+        snapshot: revisions.snapshot,
+        restoredFrom: revisions.restoredFrom,
+        userId: revisions.userId,
+        authorEmail: users.email,
+        createdAt: revisions.createdAt,
+      })
+      .from(revisions)
+      .leftJoin(users, eq(revisions.userId, users.id))
+      .where(and(eq(revisions.resourceType, resourceType), eq(revisions.resourceId, resourceId)))
+      .orderBy(desc(revisions.revision));
+  }
+
+  static async getOne(resourceType: string, resourceId: string, revision: number) {
+    const result = await db
+      .select()
+      .from(revisions)
+      .where(and(
+        eq(revisions.resourceType, resourceType),
+        eq(revisions.resourceId, resourceId),
+        eq(revisions.revision, revision)
+      ))
+      .limit(1);
+
+    return result[0] || null;
+  }
+}
@@ -0,0 +1,131 @@
+import { db } from '../db/index.js';
+import { searchClicks, searchQueries } from '../db/schema.js';
+import { and, desc, eq, gte, sql } from 'drizzle-orm';
+
+export type SearchSource = 'site' | 'products' | 'catalog';
+
+export interface SearchQueryEntry {
+  id: string;
+  source: string;
+  query: string;
+  normalizedQuery: string;
+  resultCount: number;
+  latencyMs: number;
+  visitorId: string | null;
+  createdAt: Date;
+}
+
+export function normalizeSearchQuery(query: string): string {
+  return query.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, 200);
+}
+
+export class SearchAnalyticsModel {
+  static async logQuery(data: {
+    source: SearchSource;
+    query: string;
+    resultCount: number;
+    latencyMs: number;
+    visitorId?: string | undefined;
+  }): Promise<SearchQueryEntry> {
+    const result = await db
+      .insert(searchQueries)
+      .values({
+        ...data,
+        query: data.query.slice(0, 200),
+        normalizedQuery: normalizeSearchQuery(data.query),
+        latencyMs: Math.round(data.latencyMs),
+      })
+      .returning();
+    return result[0]!;
+  }
+
+  // Returns false when the search id is unknown
+  static async logClick(data: {
+    searchId: string;
+    resultType: string;
+    resultId: string;
+    position?: number | undefined;
+    visitorId?: string | undefined;
+  }): Promise<boolean> {
+    const search = await db.select({ id: searchQueries.id }).from(searchQueries).where(eq(searchQueries.id, data.searchId)).limit(1);
+    if (search.length === 0) {
+      return false;
+    }
+    await db.insert(searchClicks).values(data);
+    return true;
+  }
+
+  static async getReport(days = 30, limit = 20) {
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - days);
+    const since = gte(searchQueries.createdAt, startDate);
+    const clicked = sql`exists (select 1 from ${searchClicks} where ${searchClicks.searchId} = ${searchQueries.id})`;
+
+    // Overall volume, zero-result share and click-through
+    const [totals] = await db
+      .select({
+        searches: sql<number>`count(*)::int`,
+        uniqueVisitors: sql<number>`count(DISTINCT ${searchQueries.visitorId})::int`,
+        zeroResultSearches: sql<number>`(count(*) filter (where ${searchQueries.resultCount} = 0))::int`,
+        searchesWithClick: sql<number>`(count(*) filter (where ${clicked}))::int`,
+        avgLatencyMs: sql<number>`coalesce(round(avg(${searchQueries.latencyMs})), 0)::int`,
+      })
+      .from(searchQueries)
+      .where(since);
+
+    // Most frequent queries, with how often they led to a click
+    const topQueries = await db
+      .select({
+        query: searchQueries.normalizedQuery,
+        searches: sql<number>`count(*)::int`,
+        avgResults: sql<number>`round(avg(${searchQueries.resultCount}), 1)::float8`,
+        searchesWithClick: sql<number>`(count(*) filter (where ${clicked}))::int`,
+      })
+      .from(searchQueries)
+      .where(since)
+      .groupBy(searchQueries.normalizedQuery)
+      .orderBy(desc(sql`count(*)`))
+      .limit(limit);
+
+    // Queries that found nothing: missing products or synonyms
+    const zeroResultQueries = await db
+      .select({
+        query: searchQueries.normalizedQuery,
+        searches: sql<number>`count(*)::int`,
+        lastSearchedAt: sql<Date>`max(${searchQueries.createdAt})`,
+      })
+      .from(searchQueries)
+      .where(and(since, eq(searchQueries.resultCount, 0)))
+      .groupBy(searchQueries.normalizedQuery)
+      .orderBy(desc(sql`count(*)`))
+      .limit(limit);
+
+    // Most clicked results
+    const topClicks = await db
+      .select({
+        resultType: searchClicks.resultType,
+        resultId: searchClicks.resultId,
+        clicks: sql<number>`count(*)::int`,
+        avgPosition: sql<number | null>`round(avg(${searchClicks.position}), 1)::float8`,
+      })
+      .from(searchClicks)
+      .where(gte(searchClicks.createdAt, startDate))
+      .groupBy(searchClicks.resultType, searchClicks.resultId)
+      .orderBy(desc(sql`count(*)`))
+      .limit(limit);
+
+    const searches = totals?.searches || 0;
+    const rate = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 1000 : 0);
+
+    return {
+      totalSearches: searches,
+      uniqueVisitors: totals?.uniqueVisitors || 0,
+      avgLatencyMs: totals?.avgLatencyMs || 0,
+      zeroResultRate: rate(totals?.zeroResultSearches || 0, searches),
+      clickThroughRate: rate(totals?.searchesWithClick || 0, searches),
+      topQueries: topQueries.map((row) => ({ ...row, clickThroughRate: rate(row.searchesWithClick, row.searches) })),
+      zeroResultQueries,
+      topClicks,
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { db } from '../db/index.js';
+import { searchPins } from '../db/schema.js';
+import { normalizeSearchQuery } from './search-analytics.model.js';
+import { and, asc, eq } from 'drizzle-orm';
+
+export interface SearchPin {
+  id: string;
+  query: string;
+  productIds: string[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export class SearchPinModel {
+  static async create(data: { query: string; productIds: string[]; isActive?: boolean | undefined }): Promise<SearchPin> {
+    const result = await db
+      .insert(searchPins)
+      .values({ ...data, query: normalizeSearchQuery(data.query), productIds: [...new Set(data.productIds)] })
+      .returning();
+    return result[0]!;
+  }
+
+  static async getAll(): Promise<SearchPin[]> {
+    return await db.select().from(searchPins).orderBy(asc(searchPins.query));
+  }
+
+  static async getById(id: string): Promise<SearchPin | null> {
+    const result = await db.select().from(searchPins).where(eq(searchPins.id, id)).limit(1);
+    return result.length > 0 ? result[0]! : null;
+  }
+
+  static async update(id: string, data: { query?: string | undefined; productIds?: string[] | undefined; isActive?: boolean | undefined }): Promise<SearchPin | null> {
+    const result = await db
+      .update(searchPins)
+      .set({
+        ...data,
+        ...(data.query !== undefined && { query: normalizeSearchQuery(data.query) }),
+        ...(data.productIds !== undefined && { productIds: [...new Set(data.productIds)] }),
+        updatedAt: new Date(),
+      })
+      .where(eq(searchPins.id, id))
+      .returning();
+    return result.length > 0 ? result[0]! : null;
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const result = await db.delete(searchPins).where(eq(searchPins.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Product ids pinned for a query, in display order
+  static async getPinnedProductIds(query: string): Promise<string[]> {
+    const result = await db
+      .select({ productIds: searchPins.productIds })
+      .from(searchPins)
+      .where(and(eq(searchPins.query, normalizeSearchQuery(query)), eq(searchPins.isActive, true)))
+      .limit(1);
+    return result[0]?.productIds ?? [];
+  }
+}
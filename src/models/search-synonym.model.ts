@@ -0,0 +1,95 @@
+import { db } from '../db/index.js';
+import { searchSynonyms } from '../db/schema.js';
+import { and, asc, eq, inArray } from 'drizzle-orm';
+
+export interface SearchSynonym {
+  id: string;
+  term: string;
+  synonyms: string[];
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Stored lowercased so lookups match regardless of how the visitor typed the word
+function normalizeTerm(term: string): string {
+  return term.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function normalizeSynonyms(term: string, synonyms: string[]): string[] {
+  return [...new Set(synonyms.map(normalizeTerm))].filter((synonym) => synonym && synonym !== term);
+}
+
+export class SearchSynonymModel {
+  static async create(data: { term: string; synonyms: string[]; isActive?: boolean | undefined }): Promise<SearchSynonym> {
+    const term = normalizeTerm(data.term);
+    const result = await db
+      .insert(searchSynonyms)
+      .values({ ...data, term, synonyms: normalizeSynonyms(term, data.synonyms) })
+      .returning();
+    return result[0]!;
+  }
+
+  static async getAll(): Promise<SearchSynonym[]> {
+    return await db.select().from(searchSynonyms).orderBy(asc(searchSynonyms.term));
+  }
+
+  static async getById(id: string): Promise<SearchSynonym | null> {
+    const result = await db.select().from(searchSynonyms).where(eq(searchSynonyms.id, id)).limit(1);
+    return result.length > 0 ? result[0]! : null;
+  }
+
+  static async getByTerm(term: string): Promise<SearchSynonym | null> {
+    const result = await db.select().from(searchSynonyms).where(eq(searchSynonyms.term, normalizeTerm(term))).limit(1);
+    return result.length > 0 ? result[0]! : null;
+  }
+
+  static async update(id: string, data: { term?: string | undefined; synonyms?: string[] | undefined; isActive?: boolean | undefined }): Promise<SearchSynonym | null> {
+    const existing = await this.getById(id);
+    if (!existing) {
+      return null;
+    }
+
+    const term = data.term !== undefined ? normalizeTerm(data.term) : existing.term;
+    const result = await db
+      .update(searchSynonyms)
+      .set({
+        ...data,
+        term,
+        synonyms: normalizeSynonyms(term, data.synonyms ?? existing.synonyms),
+        updatedAt: new Date(),
+      })
+      .where(eq(searchSynonyms.id, id))
+      .returning();
+    return result.length > 0 ? result[0]! : null;
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    const result = await db.delete(searchSynonyms).where(eq(searchSynonyms.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Alternative phrasings of a query: the whole query's synonyms, plus the query with each
+  // word swapped for one of its synonyms
+  static async expandQuery(query: string, limit = 10): Promise<string[]> {
+    const normalized = normalizeTerm(query);
+    const words = normalized.split(' ');
+    const rows = await db
+      .select()
+      .from(searchSynonyms)
+      .where(and(eq(searchSynonyms.isActive, true), inArray(searchSynonyms.term, [...new Set([normalized, ...words])])));
+
+    const synonymsOf = new Map(rows.map((row) => [row.term, row.synonyms]));
+    const variants = new Set<string>(synonymsOf.get(normalized) ?? []);
+    if (words.length > 1) {
+      words.forEach((word, index) => {
+        for (const synonym of synonymsOf.get(word) ?? []) {
+          variants.add([...words.slice(0, index), synonym, ...words.slice(index + 1)].join(' '));
+        }
+      });
+    }
+    variants.delete(normalized);
+
+    return [...variants].slice(0, limit);
+  }
+}
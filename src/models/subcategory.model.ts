@@ -1,6 +1,8 @@
-import { db } from '../db/index.js';
+import { db, type DbExecutor } from '../db/index.js';
 import { subcategories } from '../db/schema.js';
-import { eq, desc, asc, and } from 'drizzle-orm';
+import { moveToTrash } from '../services/trash.service.js';
+import { withinSchedule } from '../utils/schedule.js';
+import { eq, asc, and, isNull } from 'drizzle-orm';
 
 export interface Subcategory {
   id: string;
@@ -11,6 +13,9 @@ export interface Subcategory {
   image: string | null;
   displayOrder: string | null;
   isActive: boolean;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+  deletedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -23,58 +28,65 @@ export class SubcategoryModel {
     description?: string | undefined;
     image?: string | undefined;
     displayOrder?: string | undefined;
-  }): Promise<Subcategory> {
-    const result = await db.insert(subcategories).values(data).returning();
+    publishAt?: Date | null | undefined;
+    unpublishAt?: Date | null | undefined;
+  }, tx: DbExecutor = db): Promise<Subcategory> {
+    const result = await tx.insert(subcategories).values(data).returning();
     return result[0]!;
   }
 
   static async getAll(includeInactive = false): Promise<Subcategory[]> {
     if (includeInactive) {
-      return await db.select().from(subcategories).orderBy(asc(subcategories.displayOrder));
+      return await db.select().from(subcategories).where(isNull(subcategories.deletedAt)).orderBy(asc(subcategories.displayOrder));
     }
-    return await db.select().from(subcategories).where(eq(subcategories.isActive, true)).orderBy(asc(subcategories.displayOrder));
+    return await db.select().from(subcategories).where(and(eq(subcategories.isActive, true), isNull(subcategories.deletedAt), withinSchedule(subcategories))).orderBy(asc(subcategories.displayOrder));
   }
 
   static async getById(id: string): Promise<Subcategory | null> {
-    const result = await db.select().from(subcategories).where(eq(subcategories.id, id)).limit(1);
+    const result = await db.select().from(subcategories).where(and(eq(subcategories.id, id), isNull(subcategories.deletedAt))).limit(1);
     return result.length > 0 ? result[0]! : null;
   }
 
-  static async getBySlug(slug: string): Promise<Subcategory | null> {
-    const result = await db.select().from(subcategories).where(eq(subcategories.slug, slug)).limit(1);
+  // Public pages pass onlyScheduled so a subcategory outside its publishing window 404s
+  static async getBySlug(slug: string, onlyScheduled = false): Promise<Subcategory | null> {
+    const result = await db
+      .select()
+      .from(subcategories)
+      .where(and(eq(subcategories.slug, slug), isNull(subcategories.deletedAt), onlyScheduled ? withinSchedule(subcategories) : undefined))
+      .limit(1);
     return result.length > 0 ? result[0]! : null;
   }
 
   static async getByCategoryId(categoryId: string, includeInactive = false): Promise<Subcategory[]> {
     if (includeInactive) {
-      return await db.select().from(subcategories).where(eq(subcategories.categoryId, categoryId)).orderBy(asc(subcategories.displayOrder));
+      return await db.select().from(subcategories).where(and(eq(subcategories.categoryId, categoryId), isNull(subcategories.deletedAt))).orderBy(asc(subcategories.displayOrder));
     }
     return await db
       .select()
       .from(subcategories)
-      .where(and(eq(subcategories.categoryId, categoryId), eq(subcategories.isActive, true)))
+      .where(and(eq(subcategories.categoryId, categoryId), eq(subcategories.isActive, true), isNull(subcategories.deletedAt), withinSchedule(subcategories)))
       .orderBy(asc(subcategories.displayOrder));
   }
 
-  static async update(id: string, data: Partial<Omit<Subcategory, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Subcategory | null> {
-    const result = await db
+  static async update(id: string, data: Partial<Omit<Subcategory, 'id' | 'createdAt' | 'updatedAt'>>, tx: DbExecutor = db): Promise<Subcategory | null> {
+    const result = await tx
       .update(subcategories)
       .set({ ...data, updatedAt: new Date() })
-      .where(eq(subcategories.id, id))
+      .where(and(eq(subcategories.id, id), isNull(subcategories.deletedAt)))
       .returning();
     return result.length > 0 ? result[0]! : null;
   }
 
-  static async delete(id: string): Promise<boolean> {
-    const result = await db.delete(subcategories).where(eq(subcategories.id, id)).returning();
-    return result.length > 0;
+  // Moves the subcategory and everything under it to the trash
+  static async delete(id: string, tx: DbExecutor = db): Promise<boolean> {
+    return (await moveToTrash('subcategory', id, tx)) !== null;
   }
 
-  static async toggleActive(id: string, isActive: boolean): Promise<boolean> {
-    const result = await db
+  static async toggleActive(id: string, isActive: boolean, tx: DbExecutor = db): Promise<boolean> {
+    const result = await tx
       .update(subcategories)
       .set({ isActive, updatedAt: new Date() })
-      .where(eq(subcategories.id, id))
+      .where(and(eq(subcategories.id, id), isNull(subcategories.deletedAt)))
       .returning();
     return result.length > 0;
   }
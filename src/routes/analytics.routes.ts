@@ -1,6 +1,7 @@
 import { Router, type Request, type Response, type IRouter } from 'express';
 import { authenticateToken, requireAdmin, type AuthRequest } from '../middleware/auth.middleware.js';
 import { AnalyticsModel } from '../models/analytics.model.js';
+import { SearchAnalyticsModel } from '../models/search-analytics.model.js';
 import { z } from 'zod';
 
 const router: IRouter = Router();
@@ -82,4 +83,21 @@ router.get('/recent', authenticateToken, requireAdmin, async (req: AuthRequest,
   }
 });
 
+// Get search analytics: top queries, zero-result queries and click-through (Admin only)
+router.get('/search', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const days = parseInt(req.query.days as string) || 30;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const report = await SearchAnalyticsModel.getReport(days, limit);
+
+    res.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Get search analytics error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
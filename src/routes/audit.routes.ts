@@ -1,7 +1,6 @@
 import { Router, type Response, type IRouter } from 'express';
 import { authenticateToken, requireAdmin, type AuthRequest } from '../middleware/auth.middleware.js';
 import { AuditLogModel } from '../models/audit-log.model.js';
-import { z } from 'zod';
 import { ActionType } from '../types/auth.js';
 
 const router: IRouter = Router();
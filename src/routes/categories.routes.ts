@@ -1,17 +1,23 @@
 import { Router, type Request, type Response, type IRouter } from 'express';
-import { authenticateToken, requireAdmin, type AuthRequest } from '../middleware/auth.middleware.js';
+import { authenticateToken, requireEditor, type AuthRequest } from '../middleware/auth.middleware.js';
 import { CategoryModel } from '../models/category.model.js';
 import { AuditLogModel } from '../models/audit-log.model.js';
 import { z } from 'zod';
+import { TransactionRollbackError } from 'drizzle-orm';
+import { db } from '../db/index.js';
 import { ActionType } from '../types/auth.js';
+import { createCategorySchema, updateCategorySchema } from '../types/category.js';
+import { needsApproval, submitForApproval } from '../services/approval.service.js';
+import { recordRevision } from '../services/revision.service.js';
+import { createRevisionRouter } from './revisions.routes.js';
 
 const router: IRouter = Router();
 
 // Helper to remove undefined keys for exactOptionalPropertyTypes compliance
-function cleanData(obj: Record<string, any>): Record<string, any> {
+function cleanData<T extends object>(obj: T): { [K in keyof T]: Exclude<T[K], undefined> } {
   return Object.fromEntries(
     Object.entries(obj).filter(([_, v]) => v !== undefined)
-  );
+  ) as { [K in keyof T]: Exclude<T[K], undefined> };
 }
 
 // Get all categories (public)
@@ -67,7 +73,7 @@ router.get('/slug/:slug', async (req: Request, res: Response): Promise<void> =>
       return;
     }
     
-    const category = await CategoryModel.getBySlug(slug);
+    const category = await CategoryModel.getBySlug(slug, true);
     
     if (!category) {
       res.status(404).json({ error: 'Category not found' });
@@ -84,16 +90,8 @@ router.get('/slug/:slug', async (req: Request, res: Response): Promise<void> =>
   }
 });
 
-// Create category (Admin only)
-const createCategorySchema = z.object({
-  name: z.string().min(1),
-  slug: z.string().min(1),
-  description: z.string().optional(),
-  image: z.string().optional(),
-  displayOrder: z.string().optional(),
-});
-
-router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+// Create category (Admin, or Editor via approval)
+router.post('/', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -109,15 +107,32 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res:
       return;
     }
     
-    const category = await CategoryModel.create(cleanData(data) as any);
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.CREATE,
+        resourceType: 'category',
+        changeData: cleanData(data),
+      });
+      return;
+    }
     
-    // Log the action
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: ActionType.CREATE,
-      resourceType: 'category',
-      resourceId: category.id,
-      details: { name: category.name, slug: category.slug },
+    const userId = req.user.userId;
+    // The row, its revision and the audit entry are written together or not at all
+    const category = await db.transaction(async (tx) => {
+      const created = await CategoryModel.create(cleanData(data), tx);
+      
+      await recordRevision({ resourceType: 'category', resourceId: created.id, action: ActionType.CREATE, userId, snapshot: created }, tx);
+      
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.CREATE,
+        resourceType: 'category',
+        resourceId: created.id,
+        details: { name: created.name, slug: created.slug },
+      }, tx);
+      
+      return created;
     });
     
     res.json({
@@ -135,8 +150,8 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res:
   }
 });
 
-// Toggle category active status (Admin only) - MUST BE BEFORE /:id route
-router.patch('/:id/toggle', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+// Toggle category active status (Admin, or Editor via approval) - MUST BE BEFORE /:id route
+router.patch('/:id/toggle', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -152,22 +167,46 @@ router.patch('/:id/toggle', authenticateToken, requireAdmin, async (req: AuthReq
     
     const { isActive } = req.body;
     
-    const success = await CategoryModel.toggleActive(id, isActive);
+    if (needsApproval(req)) {
+      const current = await CategoryModel.getById(id);
+      if (!current) {
+        res.status(404).json({ error: 'Category not found' });
+        return;
+      }
+      
+      await submitForApproval(req, res, {
+        action: ActionType.UPDATE,
+        resourceType: 'category',
+        resourceId: id,
+        changeData: { isActive },
+        previousData: current,
+      });
+      return;
+    }
+    
+    const userId = req.user.userId;
+    const success = await db.transaction(async (tx) => {
+      if (!await CategoryModel.toggleActive(id, isActive, tx)) return false;
+      
+      await recordRevision({ resourceType: 'category', resourceId: id, action: ActionType.UPDATE, userId }, tx);
+      
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.UPDATE,
+        resourceType: 'category',
+        resourceId: id,
+        details: { action: isActive ? 'activated' : 'deactivated' },
+      }, tx);
+      
+      return true;
+    });
     
     if (!success) {
       res.status(404).json({ error: 'Category not found' });
       return;
     }
     
-    // Log the action
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: ActionType.UPDATE,
-      resourceType: 'category',
-      resourceId: id,
-      details: { action: isActive ? 'activated' : 'deactivated' },
-    });
-    
     res.json({
       success: true,
       message: `Category ${isActive ? 'activated' : 'deactivated'} successfully`,
@@ -178,16 +217,8 @@ router.patch('/:id/toggle', authenticateToken, requireAdmin, async (req: AuthReq
   }
 });
 
-// Update category (Admin only)
-const updateCategorySchema = z.object({
-  name: z.string().min(1).optional(),
-  slug: z.string().min(1).optional(),
-  description: z.string().optional(),
-  image: z.string().optional(),
-  displayOrder: z.string().optional(),
-});
-
-router.patch('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+// Update category (Admin, or Editor via approval)
+router.patch('/:id', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -212,22 +243,47 @@ router.patch('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, r
       }
     }
     
-    const category = await CategoryModel.update(id, cleanData(data) as any);
+    if (needsApproval(req)) {
+      const current = await CategoryModel.getById(id);
+      if (!current) {
+        res.status(404).json({ error: 'Category not found' });
+        return;
+      }
+      
+      await submitForApproval(req, res, {
+        action: ActionType.UPDATE,
+        resourceType: 'category',
+        resourceId: id,
+        changeData: cleanData(data),
+        previousData: current,
+      });
+      return;
+    }
+    
+    const userId = req.user.userId;
+    const category = await db.transaction(async (tx) => {
+      const updated = await CategoryModel.update(id, cleanData(data), tx);
+      if (!updated) return null;
+      
+      await recordRevision({ resourceType: 'category', resourceId: id, action: ActionType.UPDATE, userId, snapshot: updated }, tx);
+      
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.UPDATE,
+        resourceType: 'category',
+        resourceId: id,
+        details: data,
+      }, tx);
+      
+      return updated;
+    });
     
     if (!category) {
       res.status(404).json({ error: 'Category not found' });
       return;
     }
     
-    // Log the action
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: ActionType.UPDATE,
-      resourceType: 'category',
-      resourceId: id,
-      details: data,
-    });
-    
     res.json({
       success: true,
       message: 'Category updated successfully',
@@ -243,8 +299,8 @@ router.patch('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, r
   }
 });
 
-// Delete category (Admin only)
-router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+// Delete category, moving it and everything under it to the trash (Admin, or Editor via approval)
+router.delete('/:id', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -264,25 +320,50 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest,
       return;
     }
     
-    const success = await CategoryModel.delete(id);
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.DELETE,
+        resourceType: 'category',
+        resourceId: id,
+        changeData: {},
+        previousData: category,
+      });
+      return;
+    }
+    
+    const userId = req.user.userId;
+    const success = await db.transaction(async (tx) => {
+      // Keep the record as it was so the delete can be rolled back
+      await recordRevision({ resourceType: 'category', resourceId: id, action: ActionType.DELETE, userId }, tx);
+      
+      if (!await CategoryModel.delete(id, tx)) {
+        // Nothing was deleted, so the revision goes too
+        tx.rollback();
+      }
+      
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.DELETE,
+        resourceType: 'category',
+        resourceId: id,
+        details: { name: category.name },
+      }, tx);
+      
+      return true;
+    }).catch((error) => {
+      if (error instanceof TransactionRollbackError) return false;
+      throw error;
+    });
     
     if (!success) {
       res.status(404).json({ error: 'Category not found' });
       return;
     }
     
-    // Log the action
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: ActionType.DELETE,
-      resourceType: 'category',
-      resourceId: id,
-      details: { name: category.name },
-    });
-    
     res.json({
       success: true,
-      message: 'Category deleted successfully',
+      message: 'Category moved to trash',
     });
   } catch (error) {
     console.error('Delete category error:', error);
@@ -290,4 +371,7 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest,
   }
 });
 
+// Revision history and rollback
+router.use(createRevisionRouter('category'));
+
 export default router;
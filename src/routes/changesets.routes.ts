@@ -0,0 +1,417 @@
+import { Router, type Response, type IRouter } from 'express';
+import { authenticateToken, requireAdmin, requireEditor, type AuthRequest } from '../middleware/auth.middleware.js';
+import { ChangesetModel } from '../models/changeset.model.js';
+import { PendingChangeModel } from '../models/pending-change.model.js';
+import { AuditLogModel } from '../models/audit-log.model.js';
+import { afterChangeApplied, loadCurrent } from '../services/approval.service.js';
+import {
+  applyChangeset,
+  checkOperations,
+  detectChangesetConflicts,
+  unresolvedChangesetConflicts,
+} from '../services/changeset.service.js';
+import { diffChange } from '../utils/diff.js';
+import { db } from '../db/index.js';
+import { TransactionRollbackError } from 'drizzle-orm';
+import { z } from 'zod';
+import { ActionType, ChangeStatus, UserRole } from '../types/auth.js';
+
+const router: IRouter = Router();
+
+// Submit a changeset (Editors)
+const createChangesetSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().optional(),
+  operations: z.array(z.object({
+    // Later operations can use "$ref:<ref>" wherever they need this operation's new ID
+    ref: z.string().min(1).max(100).optional(),
+    action: z.enum(['create', 'update', 'delete']),
+    resourceType: z.string(),
+    resourceId: z.string().optional(),
+    changeData: z.any(),
+  })).min(1),
+});
+
+router.post('/', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    // Super admins don't need approval
+    if (req.user.role === UserRole.ADMIN) {
+      res.status(400).json({ error: 'Super admins do not need approval for changes' });
+      return;
+    }
+
+    const data = createChangesetSchema.parse(req.body);
+
+    const problem = checkOperations(data.operations);
+    if (problem) {
+      res.status(400).json({ error: 'Invalid operation', operation: problem.operation, reason: problem.error, details: problem.details });
+      return;
+    }
+
+    // Snapshot every existing row an operation touches
+    const snapshots: (Record<string, unknown> | null)[] = [];
+    for (const [index, op] of data.operations.entries()) {
+      if (!op.resourceId || op.resourceId.startsWith('$ref:')) {
+        snapshots.push(null);
+        continue;
+      }
+
+      const current = await loadCurrent(op.resourceType, op.resourceId);
+      if (!current) {
+        res.status(404).json({ error: 'Target resource not found', operation: index });
+        return;
+      }
+      snapshots.push(current);
+    }
+
+    const userId = req.user.userId;
+    const { changeset, changes } = await db.transaction(async (tx) => {
+      const changeset = await ChangesetModel.create({
+        userId,
+        title: data.title,
+        description: data.description,
+      }, tx);
+
+      const changes = [];
+      for (const [index, op] of data.operations.entries()) {
+        changes.push(await PendingChangeModel.create({
+          userId,
+          action: op.action as ActionType,
+          resourceType: op.resourceType,
+          resourceId: op.resourceId,
+          changeData: op.changeData ?? {},
+          previousData: snapshots[index],
+          changesetId: changeset.id,
+          sequence: index,
+          ref: op.ref,
+        }, tx));
+      }
+
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.CREATE,
+        resourceType: 'changeset',
+        resourceId: changeset.id,
+        details: { title: data.title, operations: data.operations.length },
+      }, tx);
+
+      return { changeset, changes };
+    });
+
+    res.json({
+      success: true,
+      message: 'Changeset submitted for approval',
+      data: { ...changeset, changes },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    console.error('Create changeset error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get all pending changesets (Admin only)
+router.get('/pending', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const changesets = await ChangesetModel.getAllPending();
+
+    res.json({
+      success: true,
+      data: changesets,
+      total: changesets.length,
+    });
+  } catch (error) {
+    console.error('Get pending changesets error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get user's changesets
+router.get('/my-changesets', authenticateToken, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const changesets = await ChangesetModel.getByUserId(req.user.userId);
+
+    res.json({
+      success: true,
+      data: changesets,
+      total: changesets.length,
+    });
+  } catch (error) {
+    console.error('Get my changesets error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a changeset with its operations and any conflicts (Admin, or the submitting Editor)
+router.get('/:id', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Changeset ID is required' });
+      return;
+    }
+
+    const changeset = await ChangesetModel.getById(id);
+    if (!changeset) {
+      res.status(404).json({ error: 'Changeset not found' });
+      return;
+    }
+
+    if (req.user.role !== UserRole.ADMIN && changeset.userId !== req.user.userId) {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+
+    const changes = await PendingChangeModel.getByChangesetId(id);
+    const conflicts = changeset.status === 'pending' ? await detectChangesetConflicts(changes) : [];
+
+    res.json({
+      success: true,
+      data: { ...changeset, changes, conflicts },
+    });
+  } catch (error) {
+    console.error('Get changeset error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get one diff covering every operation in a changeset (Admin, or the submitting Editor)
+router.get('/:id/diff', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Changeset ID is required' });
+      return;
+    }
+
+    const result = await ChangesetModel.getByIdWithSubmitter(id);
+    if (!result) {
+      res.status(404).json({ error: 'Changeset not found' });
+      return;
+    }
+
+    const { changeset, submitterEmail } = result;
+
+    if (req.user.role !== UserRole.ADMIN && changeset.userId !== req.user.userId) {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+
+    const changes = await PendingChangeModel.getByChangesetId(id);
+
+    res.json({
+      success: true,
+      data: {
+        id: changeset.id,
+        title: changeset.title,
+        status: changeset.status,
+        submittedBy: { id: changeset.userId, email: submitterEmail },
+        createdAt: changeset.createdAt,
+        operations: changes.map((change) => ({
+          pendingChangeId: change.id,
+          sequence: change.sequence,
+          ref: change.ref,
+          action: change.action,
+          resourceType: change.resourceType,
+          resourceId: change.resourceId,
+          fields: diffChange(change.action, change.previousData, change.changeData),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Get changeset diff error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Review a changeset as one unit (Admin only)
+const reviewChangesetSchema = z.object({
+  status: z.enum(['approved', 'rejected']),
+  reviewNotes: z.string().optional(),
+  // Per-operation merge choices, keyed by pending change ID, then by field
+  resolutions: z.record(z.string(), z.record(z.string(), z.enum(['ours', 'current']))).optional(),
+});
+
+router.post('/:id/review', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Changeset ID is required' });
+      return;
+    }
+
+    const data = reviewChangesetSchema.parse(req.body);
+    const reviewerId = req.user.userId;
+
+    const changeset = await ChangesetModel.getById(id);
+    if (!changeset) {
+      res.status(404).json({ error: 'Changeset not found' });
+      return;
+    }
+
+    if (changeset.status !== 'pending') {
+      res.status(400).json({ error: 'This changeset has already been reviewed' });
+      return;
+    }
+
+    const changes = await PendingChangeModel.getByChangesetId(id);
+    const resolutions = data.resolutions ?? {};
+    let conflicts: Awaited<ReturnType<typeof detectChangesetConflicts>> = [];
+
+    if (data.status === 'approved') {
+      // Invalid operations can never be applied, so reject the whole changeset and record why
+      const problem = checkOperations(changes);
+      if (problem) {
+        const rejected = await db.transaction(async (tx) => {
+          for (const change of changes) {
+            await PendingChangeModel.review(change.id, {
+              reviewedBy: reviewerId,
+              status: ChangeStatus.REJECTED,
+              reviewNotes: data.reviewNotes,
+            }, tx);
+          }
+
+          const result = await ChangesetModel.review(id, {
+            reviewedBy: reviewerId,
+            status: ChangeStatus.REJECTED,
+            reviewNotes: data.reviewNotes,
+            applyError: JSON.stringify(problem),
+          }, tx);
+
+          await AuditLogModel.create({
+            userId: reviewerId,
+            action: ActionType.REJECT,
+            resourceType: 'changeset',
+            resourceId: id,
+            details: { reason: 'validation_failed', problem },
+          }, tx);
+
+          return result;
+        });
+
+        res.status(422).json({
+          error: 'Changeset failed validation and was rejected',
+          details: problem,
+          data: rejected,
+        });
+        return;
+      }
+
+      // Refuse to overwrite edits that landed after submission unless the reviewer chose a merge
+      conflicts = await detectChangesetConflicts(changes);
+      const unresolved = unresolvedChangesetConflicts(changes, conflicts, resolutions);
+      if (unresolved.length > 0) {
+        res.status(409).json({
+          error: 'Records changed since this changeset was submitted',
+          conflicts: unresolved,
+        });
+        return;
+      }
+    }
+
+    // Apply every operation and record the review atomically
+    let reviewed;
+    try {
+      reviewed = await db.transaction(async (tx) => {
+        if (data.status === 'approved') {
+          await applyChangeset(changes, conflicts, resolutions, tx);
+        }
+
+        for (const change of changes) {
+          await PendingChangeModel.review(change.id, {
+            reviewedBy: reviewerId,
+            status: data.status as ChangeStatus,
+            reviewNotes: data.reviewNotes,
+          }, tx);
+        }
+
+        const result = await ChangesetModel.review(id, {
+          reviewedBy: reviewerId,
+          status: data.status as ChangeStatus,
+          reviewNotes: data.reviewNotes,
+        }, tx);
+
+        // Someone else reviewed it in the meantime
+        if (!result) {
+          tx.rollback();
+        }
+
+        await AuditLogModel.create({
+          userId: reviewerId,
+          action: data.status === 'approved' ? ActionType.APPROVE : ActionType.REJECT,
+          resourceType: 'changeset',
+          resourceId: id,
+          details: {
+            operations: changes.length,
+            reviewNotes: data.reviewNotes,
+            resolutions: data.resolutions,
+          },
+        }, tx);
+
+        return result;
+      });
+    } catch (err) {
+      if (err instanceof TransactionRollbackError) {
+        res.status(409).json({ error: 'This changeset has already been reviewed' });
+        return;
+      }
+      console.error('Error applying approved changeset:', err);
+      res.status(500).json({ error: 'Failed to apply approved changeset to database' });
+      return;
+    }
+
+    if (data.status === 'approved') {
+      // One follow-up per resource type is enough, e.g. a single cache revalidation
+      const appliedTypes = new Map(changes.map((change) => [change.resourceType, change]));
+      for (const change of appliedTypes.values()) {
+        await afterChangeApplied(change);
+      }
+    }
+
+    res.json({
+      success: true,
+      message: `Changeset ${data.status}`,
+      data: reviewed,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    console.error('Review changeset error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
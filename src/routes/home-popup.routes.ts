@@ -5,6 +5,7 @@ import { homePopups } from '../db/schema.js';
 import { eq, desc, and, or, isNull, lte, gte } from 'drizzle-orm';
 import { z } from 'zod';
 import { authenticateToken, requireAdmin, type AuthRequest } from '../middleware/auth.middleware.js';
+import { createPopupSchema } from '../types/home-popup.js';
 
 const router: IRouter = Router();
 
@@ -31,14 +32,6 @@ router.get('/', async (req, res) => {
 });
 
 // Admin: Create new popup
-const createPopupSchema = z.object({
-  imageUrl: z.string().url(),
-  isActive: z.boolean().default(true),
-  link: z.string().url().optional().nullable(),
-  startDate: z.string().datetime().optional().nullable(), // Expects ISO string
-  endDate: z.string().datetime().optional().nullable(),
-});
-
 router.post('/admin', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const body = createPopupSchema.parse(req.body);
@@ -1,16 +1,37 @@
 import { Router, type Response, type IRouter } from 'express';
 import { authenticateToken, requireAdmin, requireEditor, type AuthRequest } from '../middleware/auth.middleware.js';
 import { PendingChangeModel } from '../models/pending-change.model.js';
+import { PendingChangeCommentModel } from '../models/pending-change-comment.model.js';
 import { AuditLogModel } from '../models/audit-log.model.js';
-import { ProductModel } from '../models/product.model.js';
-import { CategoryModel } from '../models/category.model.js';
-import { SubcategoryModel } from '../models/subcategory.model.js';
+import {
+  afterChangeApplied,
+  applyChange,
+  detectConflicts,
+  loadCurrent,
+  parseChangeData,
+  resolveConflicts,
+  unsupportedChangeReason,
+  validateChangeData,
+} from '../services/approval.service.js';
+import { getSupportedResourceTypes } from '../services/change-handlers.js';
+import { diffChange } from '../utils/diff.js';
+import { db } from '../db/index.js';
+import { TransactionRollbackError } from 'drizzle-orm';
 import { z } from 'zod';
-import { ActionType, ChangeStatus, UserRole } from '../types/auth.js';
+import { ActionType, ChangeStatus, UserRole, type JWTPayload } from '../types/auth.js';
+import type { PendingChange } from '../db/schema.js';
 
 const router: IRouter = Router();
 
-// ... (previous code remains unchanged until review route)
+// Admins see every change; editors only their own
+function canAccessChange(user: JWTPayload, change: PendingChange): boolean {
+  return user.role === UserRole.ADMIN || change.userId === user.userId;
+}
+
+// Editors can still change their mind until a change is approved or rejected
+function isOpen(change: PendingChange): boolean {
+  return change.status === 'pending' || change.status === 'needs_revision';
+}
 
 // Create a pending change (Admins and Editors)
 const createChangeSchema = z.object({
@@ -36,22 +57,52 @@ router.post('/', authenticateToken, requireEditor, async (req: AuthRequest, res:
 
     const data = createChangeSchema.parse(req.body);
 
-    const pendingChange = await PendingChangeModel.create({
-      userId: req.user.userId,
-      action: data.action as ActionType,
-      resourceType: data.resourceType,
-      resourceId: data.resourceId,
-      changeData: data.changeData,
-      previousData: data.previousData,
-    });
+    // Reject anything the approval step would not know how to apply
+    const unsupported = unsupportedChangeReason(data.resourceType, data.action);
+    if (unsupported) {
+      res.status(400).json({ error: unsupported, supportedResourceTypes: getSupportedResourceTypes() });
+      return;
+    }
 
-    // Log the action
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: ActionType.CREATE,
-      resourceType: 'pending_change',
-      resourceId: pendingChange.id,
-      details: { changeType: data.action, targetResource: data.resourceType },
+    if (data.action !== 'create' && !data.resourceId) {
+      res.status(400).json({ error: 'Resource ID is required for update and delete' });
+      return;
+    }
+
+    const changeData = parseChangeData(data.resourceType, data.action, data.changeData);
+
+    // Snapshot the live record so reviewers can spot conflicting edits
+    let previousData = data.previousData;
+    if (data.resourceId) {
+      const current = await loadCurrent(data.resourceType, data.resourceId);
+      if (!current) {
+        res.status(404).json({ error: 'Target resource not found' });
+        return;
+      }
+      previousData = current;
+    }
+
+    const userId = req.user.userId;
+    const pendingChange = await db.transaction(async (tx) => {
+      const created = await PendingChangeModel.create({
+        userId,
+        action: data.action as ActionType,
+        resourceType: data.resourceType,
+        resourceId: data.resourceId,
+        changeData,
+        previousData,
+      }, tx);
+
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.CREATE,
+        resourceType: 'pending_change',
+        resourceId: created.id,
+        details: { changeType: data.action, targetResource: data.resourceType },
+      }, tx);
+
+      return created;
     });
 
     res.json({
@@ -111,7 +162,7 @@ router.get('/status/:status', authenticateToken, requireAdmin, async (req: AuthR
   try {
     const { status } = req.params;
 
-    if (!status || !['pending', 'approved', 'rejected'].includes(status)) {
+    if (!status || !['pending', 'approved', 'rejected', 'needs_revision', 'withdrawn'].includes(status)) {
       res.status(400).json({ error: 'Invalid status' });
       return;
     }
@@ -129,12 +180,97 @@ router.get('/status/:status', authenticateToken, requireAdmin, async (req: AuthR
   }
 });
 
+// Get a structured per-field diff of a change (Admin, or the submitting Editor)
+router.get('/:id/diff', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Change ID is required' });
+      return;
+    }
+
+    const result = await PendingChangeModel.getByIdWithSubmitter(id);
+    if (!result) {
+      res.status(404).json({ error: 'Pending change not found' });
+      return;
+    }
+
+    const { change, submitterEmail } = result;
+
+    if (!canAccessChange(req.user, change)) {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        id: change.id,
+        action: change.action,
+        resourceType: change.resourceType,
+        resourceId: change.resourceId,
+        status: change.status,
+        submittedBy: { id: change.userId, email: submitterEmail },
+        createdAt: change.createdAt,
+        fields: diffChange(change.action, change.previousData, change.changeData),
+      },
+    });
+  } catch (error) {
+    console.error('Get pending change diff error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get field-level conflicts between a pending change and the live record (Admin only)
+router.get('/:id/conflicts', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Change ID is required' });
+      return;
+    }
+
+    const pendingChange = await PendingChangeModel.getById(id);
+    if (!pendingChange) {
+      res.status(404).json({ error: 'Pending change not found' });
+      return;
+    }
+
+    const conflicts = await detectConflicts(pendingChange);
+
+    res.json({
+      success: true,
+      data: conflicts,
+      total: conflicts.length,
+    });
+  } catch (error) {
+    console.error('Get pending change conflicts error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Review a pending change (Admin only)
 const reviewSchema = z.object({
-  status: z.enum(['approved', 'rejected']),
+  // needs_revision sends the change back to its editor to amend
+  status: z.enum(['approved', 'rejected', 'needs_revision']),
   reviewNotes: z.string().optional(),
+  // Per-field merge choices for conflicts reported by GET /:id/conflicts
+  resolutions: z.record(z.string(), z.enum(['ours', 'current'])).optional(),
 });
 
+const reviewActions = {
+  approved: ActionType.APPROVE,
+  rejected: ActionType.REJECT,
+  needs_revision: ActionType.REQUEST_REVISION,
+};
+
 router.post('/:id/review', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
@@ -163,66 +299,129 @@ router.post('/:id/review', authenticateToken, requireAdmin, async (req: AuthRequ
       return;
     }
 
-    // Apply the change if approved
+    if (pendingChange.changesetId) {
+      res.status(400).json({ error: 'This change is part of a changeset; review the changeset instead' });
+      return;
+    }
+
+    // Changes queued before a resource type was retired cannot be applied
+    const unsupported = unsupportedChangeReason(pendingChange.resourceType, pendingChange.action);
+    if (data.status === 'approved' && unsupported) {
+      res.status(400).json({ error: unsupported });
+      return;
+    }
+
+    // Re-validate the payload before anything is written
+    let changeData: Record<string, unknown> = {};
     if (data.status === 'approved') {
-      const { resourceType, resourceId, action, changeData } = pendingChange;
-      
       try {
-        if (resourceType === 'product') {
-          if (action === 'create') {
-            await ProductModel.create(changeData as any);
-          } else if (action === 'update' && resourceId) {
-            await ProductModel.update(resourceId, changeData as any);
-          } else if (action === 'delete' && resourceId) {
-            await ProductModel.delete(resourceId);
-          }
-        } else if (resourceType === 'category') {
-           if (action === 'create') {
-            await CategoryModel.create(changeData as any);
-          } else if (action === 'update' && resourceId) {
-            await CategoryModel.update(resourceId, changeData as any);
-          } else if (action === 'delete' && resourceId) {
-            await CategoryModel.delete(resourceId);
-          }
-        } else if (resourceType === 'subcategory') {
-           if (action === 'create') {
-            await SubcategoryModel.create(changeData as any);
-          } else if (action === 'update' && resourceId) {
-            await SubcategoryModel.update(resourceId, changeData as any);
-          } else if (action === 'delete' && resourceId) {
-            await SubcategoryModel.delete(resourceId);
-          }
-        }
+        changeData = validateChangeData(pendingChange);
       } catch (err) {
-        console.error('Error applying approved change:', err);
-        res.status(500).json({ error: 'Failed to apply approved change to database' });
+        if (!(err instanceof z.ZodError)) {
+          throw err;
+        }
+
+        // Invalid data can never be applied, so reject it and record why
+        const rejected = await db.transaction(async (tx) => {
+          const result = await PendingChangeModel.review(id, {
+            reviewedBy: req.user!.userId,
+            status: ChangeStatus.REJECTED,
+            reviewNotes: data.reviewNotes,
+            applyError: JSON.stringify(err.issues),
+          }, tx);
+
+          await AuditLogModel.create({
+            userId: req.user!.userId,
+            action: ActionType.REJECT,
+            resourceType: 'pending_change',
+            resourceId: id,
+            details: {
+              originalAction: pendingChange.action,
+              targetResource: pendingChange.resourceType,
+              reason: 'validation_failed',
+              issues: err.issues,
+            },
+          }, tx);
+
+          return result;
+        });
+
+        res.status(422).json({
+          error: 'Change data failed validation and was rejected',
+          details: err.issues,
+          data: rejected,
+        });
         return;
       }
     }
 
-    // Review the change
-    const reviewed = await PendingChangeModel.review(id, {
-      reviewedBy: req.user.userId,
-      status: data.status as ChangeStatus,
-      reviewNotes: data.reviewNotes,
-    });
+    // Refuse to overwrite edits that landed after submission unless the reviewer chose a merge
+    if (data.status === 'approved') {
+      const conflicts = await detectConflicts(pendingChange);
+      const resolved = resolveConflicts(pendingChange, changeData, conflicts, data.resolutions);
 
-    // Log the review action
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: data.status === 'approved' ? ActionType.APPROVE : ActionType.REJECT,
-      resourceType: 'pending_change',
-      resourceId: id,
-      details: {
-        originalAction: pendingChange.action,
-        targetResource: pendingChange.resourceType,
-        reviewNotes: data.reviewNotes,
-      },
-    });
+      if (resolved.unresolved.length > 0) {
+        res.status(409).json({
+          error: 'The record changed since this change was submitted',
+          conflicts: resolved.unresolved,
+        });
+        return;
+      }
+
+      changeData = resolved.data;
+    }
+
+    // Apply, review and audit together so a failure leaves nothing half-applied
+    let reviewed;
+    try {
+      reviewed = await db.transaction(async (tx) => {
+        if (data.status === 'approved') {
+          await applyChange(pendingChange, changeData, tx);
+        }
+
+        const result = await PendingChangeModel.review(id, {
+          reviewedBy: req.user!.userId,
+          status: data.status as ChangeStatus,
+          reviewNotes: data.reviewNotes,
+        }, tx);
+
+        // Someone else reviewed it in the meantime
+        if (!result) {
+          tx.rollback();
+        }
+
+        await AuditLogModel.create({
+          userId: req.user!.userId,
+          action: reviewActions[data.status],
+          resourceType: 'pending_change',
+          resourceId: id,
+          details: {
+            originalAction: pendingChange.action,
+            targetResource: pendingChange.resourceType,
+            reviewNotes: data.reviewNotes,
+            resolutions: data.resolutions,
+          },
+        }, tx);
+
+        return result;
+      });
+    } catch (err) {
+      if (err instanceof TransactionRollbackError) {
+        res.status(409).json({ error: 'This change has already been reviewed' });
+        return;
+      }
+      console.error('Error applying approved change:', err);
+      res.status(500).json({ error: 'Failed to apply approved change to database' });
+      return;
+    }
+
+    if (data.status === 'approved') {
+      await afterChangeApplied(pendingChange);
+    }
 
     res.json({
       success: true,
-      message: `Change ${data.status}`,
+      message: data.status === 'needs_revision' ? 'Change sent back for revision' : `Change ${data.status}`,
       data: reviewed,
     });
   } catch (error) {
@@ -235,4 +434,254 @@ router.post('/:id/review', authenticateToken, requireAdmin, async (req: AuthRequ
   }
 });
 
+// Amend an open change (submitting Editor only); it goes back to the review queue
+const amendSchema = z.object({
+  changeData: z.any(),
+});
+
+router.patch('/:id', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Change ID is required' });
+      return;
+    }
+
+    const data = amendSchema.parse(req.body);
+
+    const pendingChange = await PendingChangeModel.getById(id);
+    if (!pendingChange) {
+      res.status(404).json({ error: 'Pending change not found' });
+      return;
+    }
+
+    if (pendingChange.userId !== req.user.userId) {
+      res.status(403).json({ error: 'Only the submitting user can amend a change' });
+      return;
+    }
+
+    if (!isOpen(pendingChange)) {
+      res.status(400).json({ error: 'This change has already been reviewed' });
+      return;
+    }
+
+    if (pendingChange.changesetId) {
+      res.status(400).json({ error: 'This change is part of a changeset and cannot be amended on its own' });
+      return;
+    }
+
+    const changeData = parseChangeData(pendingChange.resourceType, pendingChange.action, data.changeData);
+
+    // The amendment is a fresh proposal against the record as it is now
+    let previousData = pendingChange.previousData;
+    if (pendingChange.resourceId) {
+      const current = await loadCurrent(pendingChange.resourceType, pendingChange.resourceId);
+      if (!current) {
+        res.status(404).json({ error: 'Target resource not found' });
+        return;
+      }
+      previousData = current;
+    }
+
+    const userId = req.user.userId;
+    const amended = await db.transaction(async (tx) => {
+      const result = await PendingChangeModel.amend(id, { changeData, previousData }, tx);
+      if (!result) return null;
+
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.UPDATE,
+        resourceType: 'pending_change',
+        resourceId: id,
+        details: { changeType: pendingChange.action, targetResource: pendingChange.resourceType, amended: true },
+      }, tx);
+
+      return result;
+    });
+    if (!amended) {
+      res.status(409).json({ error: 'This change has already been reviewed' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Change amended and resubmitted for approval',
+      data: amended,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    console.error('Amend pending change error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Withdraw an open change (submitting Editor only)
+router.delete('/:id', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Change ID is required' });
+      return;
+    }
+
+    const pendingChange = await PendingChangeModel.getById(id);
+    if (!pendingChange) {
+      res.status(404).json({ error: 'Pending change not found' });
+      return;
+    }
+
+    if (pendingChange.userId !== req.user.userId) {
+      res.status(403).json({ error: 'Only the submitting user can withdraw a change' });
+      return;
+    }
+
+    if (!isOpen(pendingChange)) {
+      res.status(400).json({ error: 'This change has already been reviewed' });
+      return;
+    }
+
+    if (pendingChange.changesetId) {
+      res.status(400).json({ error: 'This change is part of a changeset and cannot be withdrawn on its own' });
+      return;
+    }
+
+    // The change stays, marked withdrawn, so its review thread is kept
+    const userId = req.user.userId;
+    const withdrawn = await db.transaction(async (tx) => {
+      const result = await PendingChangeModel.withdraw(id, tx);
+      if (!result) return null;
+
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.UPDATE,
+        resourceType: 'pending_change',
+        resourceId: id,
+        details: { changeType: pendingChange.action, targetResource: pendingChange.resourceType, withdrawn: true },
+      }, tx);
+
+      return result;
+    });
+    // Reviewed in the meantime
+    if (!withdrawn) {
+      res.status(409).json({ error: 'This change has already been reviewed' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Change withdrawn',
+      data: withdrawn,
+    });
+  } catch (error) {
+    console.error('Withdraw pending change error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get the comment thread of a change (Admin, or the submitting Editor)
+router.get('/:id/comments', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Change ID is required' });
+      return;
+    }
+
+    const pendingChange = await PendingChangeModel.getById(id);
+    if (!pendingChange) {
+      res.status(404).json({ error: 'Pending change not found' });
+      return;
+    }
+
+    if (!canAccessChange(req.user, pendingChange)) {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+
+    const comments = await PendingChangeCommentModel.getByPendingChangeId(id);
+
+    res.json({
+      success: true,
+      data: comments,
+      total: comments.length,
+    });
+  } catch (error) {
+    console.error('Get pending change comments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Add a comment to a change (Admin, or the submitting Editor)
+const commentSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+});
+
+router.post('/:id/comments', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Change ID is required' });
+      return;
+    }
+
+    const data = commentSchema.parse(req.body);
+
+    const pendingChange = await PendingChangeModel.getById(id);
+    if (!pendingChange) {
+      res.status(404).json({ error: 'Pending change not found' });
+      return;
+    }
+
+    if (!canAccessChange(req.user, pendingChange)) {
+      res.status(403).json({ error: 'Insufficient permissions' });
+      return;
+    }
+
+    const comment = await PendingChangeCommentModel.create({
+      pendingChangeId: id,
+      userId: req.user.userId,
+      body: data.body,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: comment,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    console.error('Create pending change comment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
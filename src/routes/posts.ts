@@ -2,24 +2,17 @@
 import { Router, type IRouter} from 'express';
 import { db } from '../db/index.js';
 import { posts } from '../db/schema.js';
-import { eq, desc } from 'drizzle-orm';
-import { authenticateToken, requireAdmin, requireEditor } from '../middleware/auth.middleware.js';
+import { eq, desc, and, isNull } from 'drizzle-orm';
+import { authenticateToken, requireEditor, type AuthRequest } from '../middleware/auth.middleware.js';
 import { z } from 'zod';
+import { createPostSchema, updatePostSchema } from '../types/post.js';
+import { withinSchedule } from '../utils/schedule.js';
+import { ActionType } from '../types/auth.js';
+import { recordRevision } from '../services/revision.service.js';
+import { createRevisionRouter } from './revisions.routes.js';
 
 const router: IRouter = Router();
 
-// Validation Schemas
-const createPostSchema = z.object({
-  title: z.string().min(1),
-  slug: z.string().min(1),
-  content: z.object({}).passthrough(), // Accept any valid JSON object for Tiptap
-  coverImage: z.string().optional(),
-  seoKeywords: z.array(z.string()).optional(),
-  published: z.boolean().optional(),
-});
-
-const updatePostSchema = createPostSchema.partial();
-
 // GET all posts (Public or Admin)
 // If public, only show published. If admin/editor, show all.
 router.get('/', async (req, res) => {
@@ -33,11 +26,10 @@ router.get('/', async (req, res) => {
     // Check if public request
     const isPublic = req.query.public === 'true';
     
-    let query = db.select().from(posts).orderBy(desc(posts.createdAt));
+    let query = db.select().from(posts).where(isNull(posts.deletedAt)).orderBy(desc(posts.createdAt));
     
     if (isPublic) {
-       // @ts-ignore - simple filter
-       query = db.select().from(posts).where(eq(posts.published, true)).orderBy(desc(posts.publishedAt));
+       query = db.select().from(posts).where(and(eq(posts.published, true), isNull(posts.deletedAt), withinSchedule(posts))).orderBy(desc(posts.publishedAt));
     }
     
     const allPosts = await query;
@@ -58,12 +50,12 @@ router.get('/:identifier', async (req, res) => {
       // It's an ID
       const id = parseInt(identifier);
       post = await db.query.posts.findFirst({
-        where: eq(posts.id, id),
+        where: and(eq(posts.id, id), isNull(posts.deletedAt)),
       });
     } else {
-      // It's a slug
+      // It's a slug, as used by public pages, so respect the publishing window
       post = await db.query.posts.findFirst({
-        where: eq(posts.slug, identifier),
+        where: and(eq(posts.slug, identifier), isNull(posts.deletedAt), withinSchedule(posts)),
       });
     }
     
@@ -79,13 +71,13 @@ router.get('/:identifier', async (req, res) => {
 });
 
 // POST create post (Protected)
-router.post('/', authenticateToken, requireEditor, async (req, res) => {
+router.post('/', authenticateToken, requireEditor, async (req: AuthRequest, res) => {
   try {
     const body = createPostSchema.parse(req.body);
     
     // Check slug uniqueness
     const existing = await db.query.posts.findFirst({
-      where: eq(posts.slug, body.slug),
+      where: and(eq(posts.slug, body.slug), isNull(posts.deletedAt)),
     });
     
     if (existing) {
@@ -93,15 +85,24 @@ router.post('/', authenticateToken, requireEditor, async (req, res) => {
       return;
     }
 
-    const [newPost] = await db.insert(posts).values({
-      title: body.title,
-      slug: body.slug,
-      content: body.content,
-      coverImage: body.coverImage || null,
-      seoKeywords: body.seoKeywords || null,
-      published: body.published || false,
-      publishedAt: body.published ? new Date() : null,
-    }).returning();
+    const newPost = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(posts).values({
+        title: body.title,
+        slug: body.slug,
+        content: body.content,
+        coverImage: body.coverImage || null,
+        seoKeywords: body.seoKeywords || null,
+        published: body.published || false,
+        publishedAt: body.published ? new Date() : null,
+        publishAt: body.publishAt ?? null,
+        unpublishAt: body.unpublishAt ?? null,
+      }).returning();
+      
+      if (created) {
+        await recordRevision({ resourceType: 'post', resourceId: created.id, action: ActionType.CREATE, userId: req.user?.userId, snapshot: created }, tx);
+      }
+      return created;
+    });
     
     res.status(201).json(newPost);
   } catch (error) {
@@ -114,7 +115,7 @@ router.post('/', authenticateToken, requireEditor, async (req, res) => {
 });
 
 // PUT update post (supports both ID and slug)
-router.put('/:identifier', authenticateToken, requireEditor, async (req, res) => {
+router.put('/:identifier', authenticateToken, requireEditor, async (req: AuthRequest, res) => {
   try {
     const identifier = req.params.identifier!;
     const body = updatePostSchema.parse(req.body);
@@ -125,12 +126,12 @@ router.put('/:identifier', authenticateToken, requireEditor, async (req, res) =>
       // It's an ID
       const id = parseInt(identifier);
       existingPost = await db.query.posts.findFirst({
-        where: eq(posts.id, id),
+        where: and(eq(posts.id, id), isNull(posts.deletedAt)),
       });
     } else {
       // It's a slug
       existingPost = await db.query.posts.findFirst({
-        where: eq(posts.slug, identifier),
+        where: and(eq(posts.slug, identifier), isNull(posts.deletedAt)),
       });
     }
     
@@ -142,7 +143,7 @@ router.put('/:identifier', authenticateToken, requireEditor, async (req, res) =>
     // Check slug uniqueness if slug is being changed
     if (body.slug && body.slug !== existingPost.slug) {
        const slugExists = await db.query.posts.findFirst({
-        where: eq(posts.slug, body.slug),
+        where: and(eq(posts.slug, body.slug), isNull(posts.deletedAt)),
       });
       if (slugExists) {
         res.status(400).json({ error: 'Slug already exists' });
@@ -150,14 +151,22 @@ router.put('/:identifier', authenticateToken, requireEditor, async (req, res) =>
       }
     }
 
-    const [updatedPost] = await db.update(posts)
-      .set({
-        ...body,
-        updatedAt: new Date(),
-        publishedAt: body.published === true ? new Date() : undefined,
-      })
-      .where(eq(posts.id, existingPost.id))
-      .returning();
+    const postId = existingPost.id;
+    const updatedPost = await db.transaction(async (tx) => {
+      const [updated] = await tx.update(posts)
+        .set({
+          ...body,
+          updatedAt: new Date(),
+          publishedAt: body.published === true ? new Date() : undefined,
+        })
+        .where(eq(posts.id, postId))
+        .returning();
+        
+      if (updated) {
+        await recordRevision({ resourceType: 'post', resourceId: updated.id, action: ActionType.UPDATE, userId: req.user?.userId, snapshot: updated }, tx);
+      }
+      return updated;
+    });
       
     res.json(updatedPost);
   } catch (error) {
@@ -171,4 +180,7 @@ router.put('/:identifier', authenticateToken, requireEditor, async (req, res) =>
 });
 
 
+// Revision history and rollback
+router.use(createRevisionRouter('post'));
+
 export default router;
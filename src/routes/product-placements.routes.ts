@@ -0,0 +1,126 @@
+import { Router, type Request, type Response, type IRouter } from 'express';
+import { authenticateToken, requireEditor, type AuthRequest } from '../middleware/auth.middleware.js';
+import { ProductModel } from '../models/product.model.js';
+import { ProductPlacementModel } from '../models/product-placement.model.js';
+import { AuditLogModel } from '../models/audit-log.model.js';
+import { z } from 'zod';
+import { ActionType } from '../types/auth.js';
+import { setPlacementsSchema } from '../types/product-placement.js';
+import { needsApproval, submitForApproval } from '../services/approval.service.js';
+import { recordRevision } from '../services/revision.service.js';
+import { db } from '../db/index.js';
+import { subcategories } from '../db/schema.js';
+import { and, inArray, isNull } from 'drizzle-orm';
+
+// Mounted at /api/products/:id/placements; mergeParams exposes the product :id
+const router: IRouter = Router({ mergeParams: true });
+
+// Get where a product is listed, primary first, with category and subcategory for breadcrumbs (public)
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Product ID is required' });
+      return;
+    }
+
+    const product = await ProductModel.getById(id);
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    const placements = await ProductPlacementModel.getPaths(id);
+
+    res.json({
+      success: true,
+      data: placements,
+    });
+  } catch (error) {
+    console.error('Get product placements error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Replace a product's placements (Admin, or Editor via approval)
+router.put('/', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Product ID is required' });
+      return;
+    }
+
+    const data = setPlacementsSchema.parse(req.body);
+
+    const product = await ProductModel.getById(id);
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    // Every subcategory must exist and not be in the trash
+    const requested = data.placements.map((placement) => placement.subcategoryId);
+    const found = await db
+      .select({ id: subcategories.id })
+      .from(subcategories)
+      .where(and(inArray(subcategories.id, requested), isNull(subcategories.deletedAt)));
+    const foundIds = new Set(found.map((subcategory) => subcategory.id));
+    const missing = requested.filter((subcategoryId) => !foundIds.has(subcategoryId));
+    if (missing.length > 0) {
+      res.status(400).json({ error: 'Subcategories not found', subcategoryIds: missing });
+      return;
+    }
+
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.UPDATE,
+        resourceType: 'product_placements',
+        resourceId: id,
+        changeData: data,
+        previousData: { placements: await ProductPlacementModel.getByProductId(id) },
+      });
+      return;
+    }
+
+    const userId = req.user.userId;
+    const placements = await db.transaction(async (tx) => {
+      const placements = await ProductPlacementModel.replace(id, data.placements, tx);
+      // The primary placement is products.subcategoryId, so a move is a product revision
+      await recordRevision({ resourceType: 'product', resourceId: id, action: ActionType.UPDATE, userId }, tx);
+
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.UPDATE,
+        resourceType: 'product_placements',
+        resourceId: id,
+        details: { placements: data.placements },
+      }, tx);
+
+      return placements;
+    });
+
+    res.json({
+      success: true,
+      message: 'Product placements updated successfully',
+      data: placements,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    console.error('Update product placements error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
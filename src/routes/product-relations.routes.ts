@@ -0,0 +1,248 @@
+import { Router, type Response, type IRouter } from 'express';
+import { authenticateToken, optionalAuth, canSeeUnscheduled, requireEditor, type AuthRequest } from '../middleware/auth.middleware.js';
+import { ProductModel } from '../models/product.model.js';
+import { ProductRelationModel, type ProductRelation } from '../models/product-relation.model.js';
+import { AuditLogModel } from '../models/audit-log.model.js';
+import { z } from 'zod';
+import { ActionType } from '../types/auth.js';
+import { createRelationSchema, updateRelationSchema } from '../types/product-relation.js';
+import { needsApproval, submitForApproval } from '../services/approval.service.js';
+import { pgErrorCode } from '../utils/db-errors.js';
+
+// Mounted at /api/products/:id/relations; mergeParams exposes the product :id
+const router: IRouter = Router({ mergeParams: true });
+
+// Helper to remove undefined keys for exactOptionalPropertyTypes compliance
+function cleanData<T extends object>(obj: T): { [K in keyof T]: Exclude<T[K], undefined> } {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([_, v]) => v !== undefined)
+  ) as { [K in keyof T]: Exclude<T[K], undefined> };
+}
+
+// Symmetric relations may be stored on either product
+function belongsTo(relation: ProductRelation, productId: string): boolean {
+  return relation.productId === productId || relation.relatedProductId === productId;
+}
+
+// Get a product's curated relations (public; editors also see products outside their publishing window)
+router.get('/', optionalAuth, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Product ID is required' });
+      return;
+    }
+
+    const product = await ProductModel.getById(id, !canSeeUnscheduled(req));
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    const includeInactive = req.query.includeInactive === 'true';
+    const relations = await ProductRelationModel.getForProduct(id, includeInactive);
+
+    res.json({
+      success: true,
+      data: relations,
+    });
+  } catch (error) {
+    console.error('Get product relations error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Relate another product (Admin, or Editor via approval)
+router.post('/', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Product ID is required' });
+      return;
+    }
+
+    const data = createRelationSchema.parse({ ...req.body, productId: id });
+
+    const [product, related] = await Promise.all([
+      ProductModel.getById(id),
+      ProductModel.getById(data.relatedProductId),
+    ]);
+    if (!product || !related) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    if (await ProductRelationModel.exists(id, data.relatedProductId, data.type)) {
+      res.status(400).json({ error: 'These products are already related this way' });
+      return;
+    }
+
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.CREATE,
+        resourceType: 'product_relation',
+        changeData: cleanData(data),
+      });
+      return;
+    }
+
+    const relation = await ProductRelationModel.create(cleanData(data));
+
+    // Log the action
+    await AuditLogModel.create({
+      userId: req.user.userId,
+      action: ActionType.CREATE,
+      resourceType: 'product_relation',
+      resourceId: relation.id,
+      details: { productId: id, relatedProductId: relation.relatedProductId, type: relation.type },
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Relation created successfully',
+      data: relation,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    if (pgErrorCode(error) === '23505') {
+      res.status(400).json({ error: 'These products are already related this way' });
+      return;
+    }
+    console.error('Create product relation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Change a relation's type or order (Admin, or Editor via approval)
+router.patch('/:relationId', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, relationId } = req.params;
+
+    if (!id || !relationId) {
+      res.status(400).json({ error: 'Product ID and relation ID are required' });
+      return;
+    }
+
+    const data = updateRelationSchema.parse(req.body);
+
+    const current = await ProductRelationModel.getById(relationId);
+    if (!current || !belongsTo(current, id)) {
+      res.status(404).json({ error: 'Relation not found' });
+      return;
+    }
+
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.UPDATE,
+        resourceType: 'product_relation',
+        resourceId: relationId,
+        changeData: cleanData(data),
+        previousData: current,
+      });
+      return;
+    }
+
+    const relation = await ProductRelationModel.update(relationId, cleanData(data));
+
+    if (!relation) {
+      res.status(404).json({ error: 'Relation not found' });
+      return;
+    }
+
+    // Log the action
+    await AuditLogModel.create({
+      userId: req.user.userId,
+      action: ActionType.UPDATE,
+      resourceType: 'product_relation',
+      resourceId: relationId,
+      details: data,
+    });
+
+    res.json({
+      success: true,
+      message: 'Relation updated successfully',
+      data: relation,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    if (pgErrorCode(error) === '23505') {
+      res.status(400).json({ error: 'These products are already related this way' });
+      return;
+    }
+    console.error('Update product relation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Remove a relation (Admin, or Editor via approval)
+router.delete('/:relationId', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, relationId } = req.params;
+
+    if (!id || !relationId) {
+      res.status(400).json({ error: 'Product ID and relation ID are required' });
+      return;
+    }
+
+    const relation = await ProductRelationModel.getById(relationId);
+    if (!relation || !belongsTo(relation, id)) {
+      res.status(404).json({ error: 'Relation not found' });
+      return;
+    }
+
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.DELETE,
+        resourceType: 'product_relation',
+        resourceId: relationId,
+        changeData: {},
+        previousData: relation,
+      });
+      return;
+    }
+
+    await ProductRelationModel.delete(relationId);
+
+    // Log the action
+    await AuditLogModel.create({
+      userId: req.user.userId,
+      action: ActionType.DELETE,
+      resourceType: 'product_relation',
+      resourceId: relationId,
+      details: { productId: relation.productId, relatedProductId: relation.relatedProductId, type: relation.type },
+    });
+
+    res.json({
+      success: true,
+      message: 'Relation deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete product relation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,317 @@
+import { Router, type Response, type IRouter } from 'express';
+import { authenticateToken, optionalAuth, canSeeUnscheduled, requireEditor, type AuthRequest } from '../middleware/auth.middleware.js';
+import { ProductModel } from '../models/product.model.js';
+import { ProductVariantModel } from '../models/product-variant.model.js';
+import { AuditLogModel } from '../models/audit-log.model.js';
+import { z } from 'zod';
+import { TransactionRollbackError } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { ActionType } from '../types/auth.js';
+import { createVariantSchema, updateVariantSchema } from '../types/product-variant.js';
+import { needsApproval, submitForApproval } from '../services/approval.service.js';
+import { recordRevision } from '../services/revision.service.js';
+import { pgErrorCode } from '../utils/db-errors.js';
+import { createRevisionRouter } from './revisions.routes.js';
+
+// Mounted at /api/products/:id/variants; mergeParams exposes the product :id
+const router: IRouter = Router({ mergeParams: true });
+
+// Helper to remove undefined keys for exactOptionalPropertyTypes compliance
+function cleanData<T extends object>(obj: T): { [K in keyof T]: Exclude<T[K], undefined> } {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([_, v]) => v !== undefined)
+  ) as { [K in keyof T]: Exclude<T[K], undefined> };
+}
+
+// Get a product's variants (public; editors also see products outside their publishing window)
+router.get('/', optionalAuth, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Product ID is required' });
+      return;
+    }
+
+    const product = await ProductModel.getById(id, !canSeeUnscheduled(req));
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    const includeInactive = req.query.includeInactive === 'true';
+    const variants = await ProductVariantModel.getByProductId(id, includeInactive);
+
+    res.json({
+      success: true,
+      data: variants,
+    });
+  } catch (error) {
+    console.error('Get product variants error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get a single variant (public; editors also see products outside their publishing window)
+router.get('/:variantId', optionalAuth, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id, variantId } = req.params;
+
+    if (!id || !variantId) {
+      res.status(400).json({ error: 'Product ID and variant ID are required' });
+      return;
+    }
+
+    const [variant, product] = await Promise.all([
+      ProductVariantModel.getById(variantId),
+      ProductModel.getById(id, !canSeeUnscheduled(req)),
+    ]);
+    if (!variant || !product || variant.productId !== id) {
+      res.status(404).json({ error: 'Variant not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: variant,
+    });
+  } catch (error) {
+    console.error('Get product variant error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create variant (Admin, or Editor via approval)
+router.post('/', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Product ID is required' });
+      return;
+    }
+
+    const data = createVariantSchema.parse({ ...req.body, productId: id });
+
+    const product = await ProductModel.getById(id);
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    if (await ProductVariantModel.isSkuTaken(data.sku)) {
+      res.status(400).json({ error: 'Variant with this SKU already exists' });
+      return;
+    }
+
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.CREATE,
+        resourceType: 'product_variant',
+        changeData: cleanData(data),
+      });
+      return;
+    }
+
+    const userId = req.user.userId;
+    // The row, its revision and the audit entry are written together or not at all
+    const variant = await db.transaction(async (tx) => {
+      const created = await ProductVariantModel.create(cleanData(data), tx);
+
+      await recordRevision({ resourceType: 'product_variant', resourceId: created.id, action: ActionType.CREATE, userId, snapshot: created }, tx);
+
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.CREATE,
+        resourceType: 'product_variant',
+        resourceId: created.id,
+        details: { sku: created.sku, productId: id },
+      }, tx);
+
+      return created;
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Variant created successfully',
+      data: variant,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    // Lost a race with another variant taking the same SKU
+    if (pgErrorCode(error) === '23505') {
+      res.status(400).json({ error: 'Variant with this SKU already exists' });
+      return;
+    }
+    console.error('Create product variant error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update variant (Admin, or Editor via approval)
+router.patch('/:variantId', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, variantId } = req.params;
+
+    if (!id || !variantId) {
+      res.status(400).json({ error: 'Product ID and variant ID are required' });
+      return;
+    }
+
+    const data = updateVariantSchema.parse(req.body);
+
+    const current = await ProductVariantModel.getById(variantId);
+    if (!current || current.productId !== id) {
+      res.status(404).json({ error: 'Variant not found' });
+      return;
+    }
+
+    if (data.sku && await ProductVariantModel.isSkuTaken(data.sku, variantId)) {
+      res.status(400).json({ error: 'Variant with this SKU already exists' });
+      return;
+    }
+
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.UPDATE,
+        resourceType: 'product_variant',
+        resourceId: variantId,
+        changeData: cleanData(data),
+        previousData: current,
+      });
+      return;
+    }
+
+    const userId = req.user.userId;
+    const variant = await db.transaction(async (tx) => {
+      const updated = await ProductVariantModel.update(variantId, cleanData(data), tx);
+      if (!updated) return null;
+
+      await recordRevision({ resourceType: 'product_variant', resourceId: variantId, action: ActionType.UPDATE, userId, snapshot: updated }, tx);
+
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.UPDATE,
+        resourceType: 'product_variant',
+        resourceId: variantId,
+        details: data,
+      }, tx);
+
+      return updated;
+    });
+
+    if (!variant) {
+      res.status(404).json({ error: 'Variant not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Variant updated successfully',
+      data: variant,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    if (pgErrorCode(error) === '23505') {
+      res.status(400).json({ error: 'Variant with this SKU already exists' });
+      return;
+    }
+    console.error('Update product variant error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete variant (Admin, or Editor via approval)
+router.delete('/:variantId', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id, variantId } = req.params;
+
+    if (!id || !variantId) {
+      res.status(400).json({ error: 'Product ID and variant ID are required' });
+      return;
+    }
+
+    const variant = await ProductVariantModel.getById(variantId);
+    if (!variant || variant.productId !== id) {
+      res.status(404).json({ error: 'Variant not found' });
+      return;
+    }
+
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.DELETE,
+        resourceType: 'product_variant',
+        resourceId: variantId,
+        changeData: {},
+        previousData: variant,
+      });
+      return;
+    }
+
+    const userId = req.user.userId;
+    const success = await db.transaction(async (tx) => {
+      // Keep the record as it was so the delete can be rolled back
+      await recordRevision({ resourceType: 'product_variant', resourceId: variantId, action: ActionType.DELETE, userId, snapshot: variant }, tx);
+
+      if (!await ProductVariantModel.delete(variantId, tx)) {
+        // Nothing was deleted, so the revision goes too
+        tx.rollback();
+      }
+
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.DELETE,
+        resourceType: 'product_variant',
+        resourceId: variantId,
+        details: { sku: variant.sku, productId: id },
+      }, tx);
+
+      return true;
+    }).catch((error) => {
+      if (error instanceof TransactionRollbackError) return false;
+      throw error;
+    });
+
+    if (!success) {
+      res.status(404).json({ error: 'Variant not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Variant deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete product variant error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Revision history and rollback
+router.use(createRevisionRouter('product_variant', 'variantId'));
+
+export default router;
@@ -1,58 +1,173 @@
 import { Router, type Request, type Response, type IRouter } from 'express';
-import { authenticateToken, requireAdmin, type AuthRequest } from '../middleware/auth.middleware.js';
-import { ProductModel } from '../models/product.model.js';
+import { authenticateToken, optionalAuth, canSeeUnscheduled, requireEditor, type AuthRequest } from '../middleware/auth.middleware.js';
+import { ProductModel, type Product } from '../models/product.model.js';
 import { AuditLogModel } from '../models/audit-log.model.js';
 import { z } from 'zod';
+import { TransactionRollbackError } from 'drizzle-orm';
+import { db } from '../db/index.js';
 import { ActionType } from '../types/auth.js';
+import { compareProductsQuerySchema, createProductSchema, listProductsQuerySchema, updateProductSchema } from '../types/product.js';
 import logger, { logBusinessOperation } from '../utils/logger.js';
+import { pricingProblem } from '../utils/pricing.js';
+import { needsApproval, submitForApproval } from '../services/approval.service.js';
+import { recordRevision } from '../services/revision.service.js';
+import { recordSearch } from '../services/search-analytics.service.js';
+import { createRevisionRouter } from './revisions.routes.js';
+import productVariantsRoutes from './product-variants.routes.js';
+import productRelationsRoutes from './product-relations.routes.js';
+import productPlacementsRoutes from './product-placements.routes.js';
+import { ProductVariantModel } from '../models/product-variant.model.js';
+import { ProductRelationModel, groupRelations } from '../models/product-relation.model.js';
+import { ProductPlacementModel } from '../models/product-placement.model.js';
+import { compareProducts } from '../services/product-compare.service.js';
+import { generateDatasheet } from '../services/datasheet.service.js';
 
 const router: IRouter = Router();
 
 // Helper to remove undefined keys for exactOptionalPropertyTypes compliance
-function cleanData(obj: Record<string, any>): Record<string, any> {
+function cleanData<T extends object>(obj: T): { [K in keyof T]: Exclude<T[K], undefined> } {
   return Object.fromEntries(
     Object.entries(obj).filter(([_, v]) => v !== undefined)
-  );
+  ) as { [K in keyof T]: Exclude<T[K], undefined> };
+}
+
+// Product detail: placements (primary first, for breadcrumbs), curated relations by type,
+// or recommendations when none are curated
+async function withDetails(product: Product) {
+  const [placements, relations] = await Promise.all([
+    ProductPlacementModel.getPaths(product.id),
+    ProductRelationModel.getForProduct(product.id),
+  ]);
+  return {
+    ...product,
+    placements,
+    relations: groupRelations(relations),
+    recommendations: relations.length > 0 ? [] : await ProductRelationModel.recommend(product),
+  };
 }
 
 // Get all products (public)
+// Supports ?cursor=&limit= pagination, ?sort=&order=, filters (categoryId, subcategoryId, isFeatured,
+// isActive, hasPdf, updatedSince) and ?fields=/?include= to trim the payload
 router.get('/', async (req: Request, res: Response): Promise<void> => {
   try {
     const includeInactive = req.query.includeInactive === 'true';
-    const subcategoryId = req.query.subcategoryId as string | undefined;
     const featured = req.query.featured === 'true';
     const searchQuery = req.query.search as string | undefined;
     
-    let products;
     if (searchQuery) {
       logBusinessOperation('Searching products', { query: searchQuery, includeInactive });
-      products = await ProductModel.search(searchQuery, includeInactive);
-    } else if (featured) {
+      const startedAt = performance.now();
+      const products = await ProductModel.search(searchQuery, includeInactive);
+      logger.info(`✅ Retrieved ${products.length} products`);
+      // Admin lookups (includeInactive) are not visitor searches
+      const searchId = includeInactive ? null : await recordSearch(req, 'catalog', searchQuery, products.length, startedAt);
+      res.json({ success: true, data: products, searchId });
+      return;
+    }
+
+    if (featured) {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 10;
       logBusinessOperation('Fetching featured products', { limit });
-      products = await ProductModel.getFeatured(limit);
-    } else if (subcategoryId) {
-      logBusinessOperation('Fetching products by subcategory', { subcategoryId, includeInactive });
-      products = await ProductModel.getBySubcategoryId(subcategoryId, includeInactive);
-    } else {
-      logBusinessOperation('Fetching all products', { includeInactive });
-      products = await ProductModel.getAll(includeInactive);
+      const products = await ProductModel.getFeatured(limit);
+      logger.info(`✅ Retrieved ${products.length} products`);
+      res.json({ success: true, data: products });
+      return;
+    }
+
+    const query = listProductsQuerySchema.parse(req.query);
+    logBusinessOperation('Listing products', query);
+    const page = await ProductModel.list(cleanData(query) as typeof query);
+
+    if (!page) {
+      res.status(400).json({ error: 'Invalid cursor' });
+      return;
     }
     
-    logger.info(`✅ Retrieved ${products.length} products`);
+    logger.info(`✅ Retrieved ${page.data.length} products`);
     
     res.json({
       success: true,
-      data: products,
+      data: page.data,
+      pagination: {
+        limit: query.limit ?? null,
+        nextCursor: page.nextCursor,
+      },
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
     logger.error({ error }, '❌ Get products error');
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Get product by ID (public)
-router.get('/:id', async (req: Request, res: Response): Promise<void> => {
+// Compare 2-4 products side by side (public)
+// Specification rows are matched by header label, with measurements converted to a common unit
+router.get('/compare', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { ids } = compareProductsQuerySchema.parse(req.query);
+
+    logBusinessOperation('Comparing products', { ids });
+    const comparison = await compareProducts(ids);
+
+    if (!comparison) {
+      logger.warn(`⚠️  Products not found for comparison: ${ids.join(', ')}`);
+      res.status(404).json({ error: 'One or more products not found' });
+      return;
+    }
+
+    logger.info(`✅ Compared ${ids.length} products on ${comparison.specifications.length} specification rows`);
+
+    res.json({
+      success: true,
+      data: comparison,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    logger.error({ error }, '❌ Compare products error');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Look up a variant by SKU, with its product (public; editors also see products outside their publishing window)
+router.get('/sku/:sku', optionalAuth, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { sku } = req.params;
+
+    if (!sku) {
+      res.status(400).json({ error: 'SKU is required' });
+      return;
+    }
+
+    logBusinessOperation('Fetching variant by SKU', { sku });
+    const onlyScheduled = !canSeeUnscheduled(req);
+    const variant = await ProductVariantModel.getBySku(sku, onlyScheduled);
+    const product = variant ? await ProductModel.getById(variant.productId, onlyScheduled) : null;
+
+    if (!variant || !product) {
+      logger.warn(`⚠️  Variant not found with SKU: ${sku}`);
+      res.status(404).json({ error: 'Variant not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { ...variant, product },
+    });
+  } catch (error) {
+    logger.error({ error }, '❌ Get variant by SKU error');
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Get product by ID (public; editors also see products outside their publishing window)
+router.get('/:id', optionalAuth, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
     
@@ -63,7 +178,7 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
     }
     
     logBusinessOperation('Fetching product by ID', { id });
-    const product = await ProductModel.getById(id);
+    const product = await ProductModel.getById(id, !canSeeUnscheduled(req));
     
     if (!product) {
       logger.warn(`⚠️  Product not found: ${id}`);
@@ -75,7 +190,7 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
     
     res.json({
       success: true,
-      data: product,
+      data: await withDetails(product),
     });
   } catch (error) {
     logger.error({ error }, '❌ Get product error');
@@ -83,8 +198,8 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
-// Get product by slug (public)
-router.get('/slug/:slug', async (req: Request, res: Response): Promise<void> => {
+// Get product by slug (public; editors also see products outside their publishing window)
+router.get('/slug/:slug', optionalAuth, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { slug } = req.params;
     
@@ -95,7 +210,7 @@ router.get('/slug/:slug', async (req: Request, res: Response): Promise<void> =>
     }
     
     logBusinessOperation('Fetching product by slug', { slug });
-    const product = await ProductModel.getBySlug(slug);
+    const product = await ProductModel.getBySlug(slug, !canSeeUnscheduled(req));
     
     if (!product) {
       logger.warn(`⚠️  Product not found with slug: ${slug}`);
@@ -107,7 +222,7 @@ router.get('/slug/:slug', async (req: Request, res: Response): Promise<void> =>
     
     res.json({
       success: true,
-      data: product,
+      data: await withDetails(product),
     });
   } catch (error) {
     logger.error({ error }, '❌ Get product by slug error');
@@ -115,26 +230,8 @@ router.get('/slug/:slug', async (req: Request, res: Response): Promise<void> =>
   }
 });
 
-// Create product (Admin only)
-const createProductSchema = z.object({
-  subcategoryId: z.string().min(1),
-  name: z.string().min(1),
-  slug: z.string().min(1),
-  description: z.string().nullable().optional(),
-  shortDescription: z.string().nullable().optional(),
-  price: z.string().nullable().optional(),
-  images: z.array(z.string()).nullable().optional(),
-  coverImage: z.string().nullable().optional(),
-  pdfUrl: z.string().nullable().optional(),
-  specifications: z.any().optional(),
-  features: z.array(z.string()).nullable().optional(),
-  seoKeywords: z.array(z.string()).nullable().optional(),
-  staticPageUrl: z.string().nullable().optional(),
-  displayOrder: z.string().nullable().optional(),
-  isFeatured: z.boolean().optional(),
-});
-
-router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+// Create product (Admin, or Editor via approval)
+router.post('/', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -150,15 +247,38 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res:
       return;
     }
     
-    const product = await ProductModel.create(cleanData(data) as any);
+    const pricingError = pricingProblem(data);
+    if (pricingError) {
+      res.status(400).json({ error: pricingError });
+      return;
+    }
+    
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.CREATE,
+        resourceType: 'product',
+        changeData: cleanData(data),
+      });
+      return;
+    }
     
-    // Log the action
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: ActionType.CREATE,
-      resourceType: 'product',
-      resourceId: product.id,
-      details: { name: product.name, slug: product.slug, subcategoryId: product.subcategoryId },
+    const userId = req.user.userId;
+    // The product, its revision and the audit entry are written together or not at all
+    const product = await db.transaction(async (tx) => {
+      const created = await ProductModel.create(cleanData(data), tx);
+      
+      await recordRevision({ resourceType: 'product', resourceId: created.id, action: ActionType.CREATE, userId, snapshot: created }, tx);
+      
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.CREATE,
+        resourceType: 'product',
+        resourceId: created.id,
+        details: { name: created.name, slug: created.slug, subcategoryId: created.subcategoryId },
+      }, tx);
+      
+      return created;
     });
     
     res.json({
@@ -176,26 +296,8 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res:
   }
 });
 
-// Update product (Admin only)
-const updateProductSchema = z.object({
-  subcategoryId: z.string().min(1).optional(),
-  name: z.string().min(1).optional(),
-  slug: z.string().min(1).optional(),
-  description: z.string().optional().nullable(),
-  shortDescription: z.string().optional().nullable(),
-  price: z.string().optional().nullable(),
-  images: z.array(z.string()).optional().nullable(),
-  coverImage: z.string().optional().nullable(),
-  pdfUrl: z.string().optional().nullable(),
-  specifications: z.any().optional(),
-  features: z.array(z.string()).optional().nullable(),
-  seoKeywords: z.array(z.string()).optional().nullable(),
-  staticPageUrl: z.string().optional().nullable(),
-  displayOrder: z.string().optional().nullable(),
-  isFeatured: z.boolean().optional(),
-});
-
-router.patch('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+// Update product (Admin, or Editor via approval)
+router.patch('/:id', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -220,22 +322,54 @@ router.patch('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, r
       }
     }
     
-    const product = await ProductModel.update(id, cleanData(data) as any);
-    
-    if (!product) {
+    const current = await ProductModel.getById(id);
+    if (!current) {
       res.status(404).json({ error: 'Product not found' });
       return;
     }
     
-    // Log the action
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: ActionType.UPDATE,
-      resourceType: 'product',
-      resourceId: id,
-      details: data,
+    // Checked against the stored price, since the body may leave priceMode out
+    const pricingError = pricingProblem(data, current);
+    if (pricingError) {
+      res.status(400).json({ error: pricingError });
+      return;
+    }
+    
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.UPDATE,
+        resourceType: 'product',
+        resourceId: id,
+        changeData: cleanData(data),
+        previousData: current,
+      });
+      return;
+    }
+    
+    const userId = req.user.userId;
+    const product = await db.transaction(async (tx) => {
+      const updated = await ProductModel.update(id, cleanData(data), tx);
+      if (!updated) return null;
+      
+      await recordRevision({ resourceType: 'product', resourceId: id, action: ActionType.UPDATE, userId, snapshot: updated }, tx);
+      
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.UPDATE,
+        resourceType: 'product',
+        resourceId: id,
+        details: data,
+      }, tx);
+      
+      return updated;
     });
     
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+    
     res.json({
       success: true,
       message: 'Product updated successfully',
@@ -251,8 +385,8 @@ router.patch('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, r
   }
 });
 
-// Toggle product active status (Admin only)
-router.patch('/:id/toggle', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+// Toggle product active status (Admin, or Editor via approval)
+router.patch('/:id/toggle', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -268,22 +402,46 @@ router.patch('/:id/toggle', authenticateToken, requireAdmin, async (req: AuthReq
     
     const { isActive } = req.body;
     
-    const success = await ProductModel.toggleActive(id, isActive);
+    if (needsApproval(req)) {
+      const current = await ProductModel.getById(id);
+      if (!current) {
+        res.status(404).json({ error: 'Product not found' });
+        return;
+      }
+      
+      await submitForApproval(req, res, {
+        action: ActionType.UPDATE,
+        resourceType: 'product',
+        resourceId: id,
+        changeData: { isActive },
+        previousData: current,
+      });
+      return;
+    }
+    
+    const userId = req.user.userId;
+    const success = await db.transaction(async (tx) => {
+      if (!await ProductModel.toggleActive(id, isActive, tx)) return false;
+      
+      await recordRevision({ resourceType: 'product', resourceId: id, action: ActionType.UPDATE, userId }, tx);
+      
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.UPDATE,
+        resourceType: 'product',
+        resourceId: id,
+        details: { action: isActive ? 'activated' : 'deactivated' },
+      }, tx);
+      
+      return true;
+    });
     
     if (!success) {
       res.status(404).json({ error: 'Product not found' });
       return;
     }
     
-    // Log the action
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: ActionType.UPDATE,
-      resourceType: 'product',
-      resourceId: id,
-      details: { action: isActive ? 'activated' : 'deactivated' },
-    });
-    
     res.json({
       success: true,
       message: `Product ${isActive ? 'activated' : 'deactivated'} successfully`,
@@ -294,8 +452,8 @@ router.patch('/:id/toggle', authenticateToken, requireAdmin, async (req: AuthReq
   }
 });
 
-// Toggle product featured status (Admin only)
-router.patch('/:id/featured', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+// Toggle product featured status (Admin, or Editor via approval)
+router.patch('/:id/featured', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -311,34 +469,99 @@ router.patch('/:id/featured', authenticateToken, requireAdmin, async (req: AuthR
     
     const { isFeatured } = req.body;
     
-    const success = await ProductModel.toggleFeatured(id, isFeatured);
+    if (needsApproval(req)) {
+      const current = await ProductModel.getById(id);
+      if (!current) {
+        res.status(404).json({ error: 'Product not found' });
+        return;
+      }
+      
+      await submitForApproval(req, res, {
+        action: ActionType.UPDATE,
+        resourceType: 'product',
+        resourceId: id,
+        changeData: { isFeatured },
+        previousData: current,
+      });
+      return;
+    }
+    
+    const userId = req.user.userId;
+    const success = await db.transaction(async (tx) => {
+      if (!await ProductModel.toggleFeatured(id, isFeatured, tx)) return false;
+      
+      await recordRevision({ resourceType: 'product', resourceId: id, action: ActionType.UPDATE, userId }, tx);
+      
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.UPDATE,
+        resourceType: 'product',
+        resourceId: id,
+        details: { action: isFeatured ? 'featured' : 'unfeatured' },
+      }, tx);
+      
+      return true;
+    });
     
     if (!success) {
       res.status(404).json({ error: 'Product not found' });
       return;
     }
     
+    res.json({
+      success: true,
+      message: `Product ${isFeatured ? 'featured' : 'unfeatured'} successfully`,
+    });
+  } catch (error) {
+    console.error('Toggle product featured error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Re-render the product's datasheet PDF now instead of waiting for the background refresh (Editor+)
+router.post('/:id/datasheet', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Product ID is required' });
+      return;
+    }
+
+    const datasheetUrl = await generateDatasheet(id, true);
+
+    if (!datasheetUrl) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
     // Log the action
     await AuditLogModel.create({
       userId: req.user.userId,
       action: ActionType.UPDATE,
       resourceType: 'product',
       resourceId: id,
-      details: { action: isFeatured ? 'featured' : 'unfeatured' },
+      details: { action: 'datasheet_generated', datasheetUrl },
     });
-    
+
     res.json({
       success: true,
-      message: `Product ${isFeatured ? 'featured' : 'unfeatured'} successfully`,
+      data: { datasheetUrl },
     });
   } catch (error) {
-    console.error('Toggle product featured error:', error);
+    console.error('Generate datasheet error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Delete product (Admin only)
-router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+// Delete product, moving it and its specifications to the trash (Admin, or Editor via approval)
+router.delete('/:id', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -358,25 +581,50 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest,
       return;
     }
     
-    const success = await ProductModel.delete(id);
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.DELETE,
+        resourceType: 'product',
+        resourceId: id,
+        changeData: {},
+        previousData: product,
+      });
+      return;
+    }
+    
+    const userId = req.user.userId;
+    const success = await db.transaction(async (tx) => {
+      // Keep the record as it was so the delete can be rolled back
+      await recordRevision({ resourceType: 'product', resourceId: id, action: ActionType.DELETE, userId }, tx);
+      
+      if (!await ProductModel.delete(id, tx)) {
+        // Nothing was deleted, so the revision goes too
+        tx.rollback();
+      }
+      
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.DELETE,
+        resourceType: 'product',
+        resourceId: id,
+        details: { name: product.name },
+      }, tx);
+      
+      return true;
+    }).catch((error) => {
+      if (error instanceof TransactionRollbackError) return false;
+      throw error;
+    });
     
     if (!success) {
       res.status(404).json({ error: 'Product not found' });
       return;
     }
     
-    // Log the action
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: ActionType.DELETE,
-      resourceType: 'product',
-      resourceId: id,
-      details: { name: product.name },
-    });
-    
     res.json({
       success: true,
-      message: 'Product deleted successfully',
+      message: 'Product moved to trash',
     });
   } catch (error) {
     console.error('Delete product error:', error);
@@ -384,4 +632,12 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest,
   }
 });
 
+// Variants (SKUs), related products and placements
+router.use('/:id/variants', productVariantsRoutes);
+router.use('/:id/relations', productRelationsRoutes);
+router.use('/:id/placements', productPlacementsRoutes);
+
+// Revision history and rollback
+router.use(createRevisionRouter('product'));
+
 export default router;
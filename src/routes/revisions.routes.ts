@@ -0,0 +1,148 @@
+import { Router, type Response, type IRouter } from 'express';
+import { authenticateToken, requireAdmin, requireEditor, type AuthRequest } from '../middleware/auth.middleware.js';
+import { RevisionModel } from '../models/revision.model.js';
+import { ProductPlacementModel } from '../models/product-placement.model.js';
+import { AuditLogModel } from '../models/audit-log.model.js';
+import { loadRow, recordRevision, restoreSnapshot, snapshotProblems, type RevisionedResource } from '../services/revision.service.js';
+import { indexSpecification } from '../services/spec-search.service.js';
+import { diffChange } from '../utils/diff.js';
+import { pgErrorCode } from '../utils/db-errors.js';
+import { db } from '../db/index.js';
+import { ActionType } from '../types/auth.js';
+
+// Postgres errors a restore can run into when the rest of the catalog has moved on
+const restoreConflictCodes: Record<string, string> = {
+  '23503': 'A record this revision refers to no longer exists',
+  '23505': 'Another record now uses a unique value from this revision',
+};
+
+// Revision history and rollback, mounted into each revisioned resource's router.
+// idParam names the route parameter holding the record id, for routers nested under another one.
+export function createRevisionRouter(resourceType: RevisionedResource, idParam = 'id'): IRouter {
+  const router: IRouter = Router();
+
+  // List a record's revisions, newest first, each with what it changed (Admin, Editor)
+  router.get(`/:${idParam}/revisions`, authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const id = req.params[idParam];
+
+      if (!id) {
+        res.status(400).json({ error: 'ID is required' });
+        return;
+      }
+
+      const history = await RevisionModel.getByResource(resourceType, id);
+
+      const data = history.map((revision, index) => {
+        const previous = history[index + 1];
+        return {
+          ...revision,
+          changes: diffChange(
+            revision.action,
+            (previous?.snapshot ?? null) as Record<string, unknown> | null,
+            revision.snapshot as Record<string, unknown>
+          ),
+        };
+      });
+
+      res.json({
+        success: true,
+        data,
+        total: data.length,
+      });
+    } catch (error) {
+      console.error('Get revisions error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Roll a record back to one of its revisions; deleted records are re-created (Admin only)
+  router.post(`/:${idParam}/revisions/:rev/restore`, authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return;
+      }
+
+      const id = req.params[idParam];
+      const { rev } = req.params;
+
+      if (!id || !rev || !/^\d+$/.test(rev)) {
+        res.status(400).json({ error: 'ID and revision number are required' });
+        return;
+      }
+
+      const revision = await RevisionModel.getOne(resourceType, id, parseInt(rev));
+      if (!revision) {
+        res.status(404).json({ error: 'Revision not found' });
+        return;
+      }
+
+      const problems = snapshotProblems(resourceType, revision.snapshot as Record<string, unknown>);
+      if (problems) {
+        res.status(409).json({ error: 'Revision cannot be restored', reason: 'The revision does not pass current validation', details: problems });
+        return;
+      }
+
+      // A restore writes over the record where it is; a trashed one comes back through the trash
+      const current = await loadRow(resourceType, id);
+      if (current?.deletedAt) {
+        res.status(409).json({ error: 'Revision cannot be restored', reason: 'The record is in the trash; restore it from there first' });
+        return;
+      }
+
+      const userId = req.user.userId;
+      const restored = await db.transaction(async (tx) => {
+        const { row, recreated } = await restoreSnapshot(resourceType, id, revision.snapshot as Record<string, unknown>, tx);
+
+        // Restored table content has to be searchable again
+        if (resourceType === 'product_specification') {
+          await indexSpecification(row as { id: string; productId: string; content: unknown }, tx);
+        }
+
+        // The primary placement follows the restored subcategory
+        if (resourceType === 'product') {
+          await ProductPlacementModel.setPrimary(id, row.subcategoryId as string, row.displayOrder as string | null, tx);
+        }
+
+        const newRevision = await recordRevision({
+          resourceType,
+          resourceId: id,
+          action: recreated ? ActionType.CREATE : ActionType.UPDATE,
+          userId,
+          snapshot: row,
+          restoredFrom: revision.revision,
+        }, tx);
+
+        await AuditLogModel.create({
+          userId,
+          action: recreated ? ActionType.CREATE : ActionType.UPDATE,
+          resourceType,
+          resourceId: id,
+          details: { restoredRevision: revision.revision, recreated },
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent'),
+        }, tx);
+
+        return { row, revision: newRevision };
+      });
+
+      res.json({
+        success: true,
+        message: `Restored revision ${revision.revision}`,
+        data: restored.row,
+        revision: restored.revision?.revision,
+      });
+    } catch (error) {
+      const reason = restoreConflictCodes[pgErrorCode(error) ?? ''];
+      if (reason) {
+        res.status(409).json({ error: 'Revision cannot be restored', reason });
+        return;
+      }
+      console.error('Restore revision error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  return router;
+}
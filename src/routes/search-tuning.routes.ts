@@ -0,0 +1,347 @@
+import { Router, type Response, type IRouter } from 'express';
+import { authenticateToken, requireAdmin, type AuthRequest } from '../middleware/auth.middleware.js';
+import { SearchSynonymModel } from '../models/search-synonym.model.js';
+import { SearchPinModel } from '../models/search-pin.model.js';
+import { AuditLogModel } from '../models/audit-log.model.js';
+import { createPinSchema, createSynonymSchema, updatePinSchema, updateSynonymSchema } from '../types/search.js';
+import { ActionType } from '../types/auth.js';
+import { db } from '../db/index.js';
+import { products } from '../db/schema.js';
+import { pgErrorCode } from '../utils/db-errors.js';
+import { and, inArray, isNull } from 'drizzle-orm';
+import { z } from 'zod';
+
+// Search synonyms and pinned results (Admin only). Product search reads them on every
+// request, so changes apply immediately.
+const router: IRouter = Router();
+
+// Pins may only point at products that exist and are not in the trash
+async function missingProductIds(ids: string[]): Promise<string[]> {
+  const found = await db
+    .select({ id: products.id })
+    .from(products)
+    .where(and(inArray(products.id, ids), isNull(products.deletedAt)));
+  const foundIds = new Set(found.map((product) => product.id));
+  return ids.filter((id) => !foundIds.has(id));
+}
+
+// List synonyms
+router.get('/synonyms', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const synonyms = await SearchSynonymModel.getAll();
+
+    res.json({
+      success: true,
+      data: synonyms,
+    });
+  } catch (error) {
+    console.error('Get search synonyms error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a synonym entry
+router.post('/synonyms', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const data = createSynonymSchema.parse(req.body);
+    const synonym = await SearchSynonymModel.create(data);
+
+    await AuditLogModel.create({
+      userId: req.user.id,
+      action: ActionType.CREATE,
+      resourceType: 'search_synonym',
+      resourceId: synonym.id,
+      details: { term: synonym.term, synonyms: synonym.synonyms },
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Synonym created successfully',
+      data: synonym,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    if (pgErrorCode(error) === '23505') {
+      res.status(409).json({ error: 'Synonyms for this term already exist' });
+      return;
+    }
+    console.error('Create search synonym error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update a synonym entry
+router.put('/synonyms/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+    if (!id) {
+      res.status(400).json({ error: 'Synonym ID is required' });
+      return;
+    }
+    const data = updateSynonymSchema.parse(req.body);
+    const existing = await SearchSynonymModel.getById(id);
+
+    if (!existing) {
+      res.status(404).json({ error: 'Synonym not found' });
+      return;
+    }
+
+    const synonym = await SearchSynonymModel.update(existing.id, data);
+
+    await AuditLogModel.create({
+      userId: req.user.id,
+      action: ActionType.UPDATE,
+      resourceType: 'search_synonym',
+      resourceId: existing.id,
+      details: {
+        before: { term: existing.term, synonyms: existing.synonyms, isActive: existing.isActive },
+        after: { term: synonym?.term, synonyms: synonym?.synonyms, isActive: synonym?.isActive },
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Synonym updated successfully',
+      data: synonym,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    if (pgErrorCode(error) === '23505') {
+      res.status(409).json({ error: 'Synonyms for this term already exist' });
+      return;
+    }
+    console.error('Update search synonym error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete a synonym entry
+router.delete('/synonyms/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+    if (!id) {
+      res.status(400).json({ error: 'Synonym ID is required' });
+      return;
+    }
+    const existing = await SearchSynonymModel.getById(id);
+
+    if (!existing) {
+      res.status(404).json({ error: 'Synonym not found' });
+      return;
+    }
+
+    await SearchSynonymModel.delete(existing.id);
+
+    await AuditLogModel.create({
+      userId: req.user.id,
+      action: ActionType.DELETE,
+      resourceType: 'search_synonym',
+      resourceId: existing.id,
+      details: { term: existing.term, synonyms: existing.synonyms },
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Synonym deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete search synonym error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// List pinned results
+router.get('/pins', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const pins = await SearchPinModel.getAll();
+
+    res.json({
+      success: true,
+      data: pins,
+    });
+  } catch (error) {
+    console.error('Get search pins error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Pin products to the top of a query's results
+router.post('/pins', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const data = createPinSchema.parse(req.body);
+
+    const missing = await missingProductIds(data.productIds);
+    if (missing.length > 0) {
+      res.status(400).json({ error: 'Products not found', productIds: missing });
+      return;
+    }
+
+    const pin = await SearchPinModel.create(data);
+
+    await AuditLogModel.create({
+      userId: req.user.id,
+      action: ActionType.CREATE,
+      resourceType: 'search_pin',
+      resourceId: pin.id,
+      details: { query: pin.query, productIds: pin.productIds },
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Pinned results created successfully',
+      data: pin,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    if (pgErrorCode(error) === '23505') {
+      res.status(409).json({ error: 'Results are already pinned for this query' });
+      return;
+    }
+    console.error('Create search pin error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Update pinned results
+router.put('/pins/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+    if (!id) {
+      res.status(400).json({ error: 'Pin ID is required' });
+      return;
+    }
+    const data = updatePinSchema.parse(req.body);
+    const existing = await SearchPinModel.getById(id);
+
+    if (!existing) {
+      res.status(404).json({ error: 'Pinned results not found' });
+      return;
+    }
+
+    if (data.productIds) {
+      const missing = await missingProductIds(data.productIds);
+      if (missing.length > 0) {
+        res.status(400).json({ error: 'Products not found', productIds: missing });
+        return;
+      }
+    }
+
+    const pin = await SearchPinModel.update(existing.id, data);
+
+    await AuditLogModel.create({
+      userId: req.user.id,
+      action: ActionType.UPDATE,
+      resourceType: 'search_pin',
+      resourceId: existing.id,
+      details: {
+        before: { query: existing.query, productIds: existing.productIds, isActive: existing.isActive },
+        after: { query: pin?.query, productIds: pin?.productIds, isActive: pin?.isActive },
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Pinned results updated successfully',
+      data: pin,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    if (pgErrorCode(error) === '23505') {
+      res.status(409).json({ error: 'Results are already pinned for this query' });
+      return;
+    }
+    console.error('Update search pin error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete pinned results
+router.delete('/pins/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { id } = req.params;
+    if (!id) {
+      res.status(400).json({ error: 'Pin ID is required' });
+      return;
+    }
+    const existing = await SearchPinModel.getById(id);
+
+    if (!existing) {
+      res.status(404).json({ error: 'Pinned results not found' });
+      return;
+    }
+
+    await SearchPinModel.delete(existing.id);
+
+    await AuditLogModel.create({
+      userId: req.user.id,
+      action: ActionType.DELETE,
+      resourceType: 'search_pin',
+      resourceId: existing.id,
+      details: { query: existing.query, productIds: existing.productIds },
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Pinned results deleted successfully',
+    });
+  } catch (error) {
+    console.error('Delete search pin error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,187 @@
+import { Router, type Request, type Response, type IRouter } from 'express';
+import { authenticateToken, requireAdmin, type AuthRequest } from '../middleware/auth.middleware.js';
+import {
+  facetedSearch,
+  normalizeFacetKey,
+  reindexAllSpecifications,
+  type FacetFilter,
+  type RangeFilter,
+} from '../services/spec-search.service.js';
+import { searchResultTypes, searchSite } from '../services/site-search.service.js';
+import { recordSearch } from '../services/search-analytics.service.js';
+import { SearchAnalyticsModel } from '../models/search-analytics.model.js';
+import { anonymizeVisitor } from '../utils/visitor.js';
+import { refreshSuggestions, suggest } from '../services/suggestion.service.js';
+import { facetedSearchQuerySchema, siteSearchQuerySchema, suggestQuerySchema } from '../types/search.js';
+import { z } from 'zod';
+
+const router: IRouter = Router();
+
+// Split "<facetKey>:<rest>" at the first colon; facet keys never contain one
+function splitFacetParam(param: string): [string, string] {
+  const index = param.indexOf(':');
+  return [normalizeFacetKey(param.slice(0, index)), param.slice(index + 1)];
+}
+
+// Site-wide search across products, categories, subcategories and published posts (public)
+// e.g. /api/search?q=drip irrigation&types=product,post
+router.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = siteSearchQuerySchema.parse(req.query);
+    const startedAt = performance.now();
+    const results = await searchSite(query.q, { types: query.types, limit: query.limit });
+    const searchId = await recordSearch(req, 'site', query.q, results.length, startedAt);
+
+    res.json({
+      success: true,
+      data: results,
+      total: results.length,
+      searchId,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    console.error('Site search error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Autocomplete over product names, category names and SEO keywords (public)
+// e.g. /api/search/suggest?q=dri
+router.get('/suggest', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = suggestQuerySchema.parse(req.query);
+    const result = await suggest(query.q, query.limit);
+
+    res.json({
+      success: true,
+      data: result.suggestions,
+      didYouMean: result.didYouMean,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    console.error('Search suggest error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Rebuild the autocomplete index now rather than waiting for the next scheduled refresh (Admin only)
+router.post('/suggest/refresh', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await refreshSuggestions();
+
+    res.json({
+      success: true,
+      message: 'Search suggestions refreshed',
+    });
+  } catch (error) {
+    console.error('Refresh search suggestions error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Faceted product search over specification values (public)
+// e.g. /api/search/products?q=dripper&facet=flow rate (lph):4&facet=flow rate (lph):8&range=pressure (bar):1..2.5
+router.get('/products', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = facetedSearchQuerySchema.parse(req.query);
+
+    const facets = new Map<string, FacetFilter>();
+    for (const param of query.facet ?? []) {
+      const [facetKey, value] = splitFacetParam(param);
+      const filter = facets.get(facetKey) ?? { facetKey, values: [] };
+      filter.values.push(value);
+      facets.set(facetKey, filter);
+    }
+
+    const ranges: RangeFilter[] = (query.range ?? []).map((param) => {
+      const [facetKey, bounds] = splitFacetParam(param);
+      const [min, max] = bounds.split('..');
+      return {
+        facetKey,
+        min: min ? parseFloat(min) : undefined,
+        max: max ? parseFloat(max) : undefined,
+      };
+    });
+
+    const startedAt = performance.now();
+    const result = await facetedSearch({
+      q: query.q,
+      categoryId: query.categoryId,
+      subcategoryId: query.subcategoryId,
+      facets: [...facets.values()],
+      ranges,
+      limit: query.limit,
+      offset: query.offset,
+    });
+
+    // Only keyword searches are logged; pure facet browsing is not a search term
+    const searchId = query.q ? await recordSearch(req, 'products', query.q, result.total, startedAt) : null;
+
+    res.json({
+      success: true,
+      data: result.products,
+      total: result.total,
+      facets: result.facets,
+      searchId,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    console.error('Faceted search error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const searchClickSchema = z.object({
+  searchId: z.string().uuid(),
+  resultType: z.enum(searchResultTypes),
+  resultId: z.string().min(1).max(100),
+  position: z.number().int().min(1).optional(),
+});
+
+// Record which result a visitor chose from a logged search (public)
+router.post('/click', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const data = searchClickSchema.parse(req.body);
+    const recorded = await SearchAnalyticsModel.logClick({ ...data, visitorId: anonymizeVisitor(req) });
+
+    if (!recorded) {
+      res.status(404).json({ error: 'Search not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    console.error('Record search click error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Rebuild the specification value index from scratch (Admin only)
+router.post('/products/reindex', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const indexed = await reindexAllSpecifications();
+
+    res.json({
+      success: true,
+      message: `Reindexed ${indexed} specifications`,
+    });
+  } catch (error) {
+    console.error('Reindex specifications error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
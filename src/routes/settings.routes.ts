@@ -2,29 +2,14 @@ import { Router, type Request, type Response, type IRouter } from 'express';
 import { authenticateToken, requireAdmin, type AuthRequest } from '../middleware/auth.middleware.js';
 import { db } from '../db/index.js';
 import { globalSettings } from '../db/schema.js';
-import { eq } from 'drizzle-orm';
 import { z } from 'zod';
 import { AuditLogModel } from '../models/audit-log.model.js';
 import { ActionType } from '../types/auth.js';
-import axios from 'axios';
+import { upsertSettingsSchema } from '../types/settings.js';
+import { revalidateFrontend } from '../services/revalidation.service.js';
 
 const router: IRouter = Router();
 
-// Helper to revalidate frontend cache
-async function revalidateFrontend(tag: string) {
-  try {
-    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-    const secret = process.env.REVALIDATION_SECRET || 'gogreen_revalidation_secret';
-    
-    await axios.post(`${frontendUrl}/api/revalidate`, null, {
-      params: { tag, secret }
-    });
-    console.log(`Revalidated tag: ${tag}`);
-  } catch (error) {
-    console.error('Revalidation failed:', error);
-  }
-}
-
 // Get all settings (public)
 router.get('/', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -47,13 +32,6 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
 });
 
 // Upsert settings (Admin only)
-const upsertSettingsSchema = z.object({
-  settings: z.array(z.object({
-    key: z.string().min(1),
-    value: z.string(),
-  })),
-});
-
 router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
@@ -1,14 +1,101 @@
 import { Router, type Request, type Response , type IRouter } from 'express';
 import { authenticateToken, requireAdmin, type AuthRequest } from '../middleware/auth.middleware.js';
 import { db } from '../db/index.js';
-import { productSpecifications } from '../db/schema.js';
-import { TableDataSchema, SpecificationContentSchema } from '../types/specification.js';
-import { eq, and } from 'drizzle-orm';
+import { productSpecifications, products } from '../db/schema.js';
+import { TableDataSchema, SpecificationContentSchema, exportSpecificationQuerySchema, importSpecificationSchema } from '../types/specification.js';
+import { eq, and, isNull } from 'drizzle-orm';
 import { AuditLogModel } from '../models/audit-log.model.js';
 import { ActionType } from '../types/auth.js';
+import { recordRevision } from '../services/revision.service.js';
+import { moveToTrash } from '../services/trash.service.js';
+import { indexSpecification } from '../services/spec-search.service.js';
+import { importSpreadsheet, SPREADSHEET_TYPES } from '../services/spec-import.service.js';
+import { exportSpecifications, exportTables, type ExportedFile } from '../services/spec-export.service.js';
+import { repairTableGrid, validateTableGrid, type GridIssue } from '../utils/table-grid.js';
+import { ProductModel } from '../models/product.model.js';
+import { withinSchedule } from '../utils/schedule.js';
+import { createRevisionRouter } from './revisions.routes.js';
+import multer from 'multer';
+import path from 'path';
+import { z } from 'zod';
 
 const router :IRouter = Router();
 
+// Spreadsheets for /import are read in memory and never stored
+const spreadsheetUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+});
+
+// Merged cells must add up to a rectangular grid. Table content that does not is rejected with
+// the problems found, or fixed when the request has ?repair=true. Null once a response is sent.
+function checkGrid<T>(req: Request, res: Response, content: T): { content: T; repairs: GridIssue[] } | null {
+  const table = TableDataSchema.safeParse(content);
+  if (!table.success) {
+    return { content, repairs: [] };
+  }
+
+  if (req.query.repair === 'true') {
+    const { table: repaired, repairs } = repairTableGrid(table.data);
+    return { content: repaired as T, repairs };
+  }
+
+  const issues = validateTableGrid(table.data);
+  if (issues.length > 0) {
+    res.status(400).json({ error: 'Invalid table structure', details: issues });
+    return null;
+  }
+  return { content, repairs: [] };
+}
+
+function sendExport(res: Response, file: ExportedFile): void {
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+  res.send(file.buffer);
+}
+
+// Insert a specification, with its first revision, search index entries and audit log
+async function createSpecification(req: AuthRequest, data: {
+  productId: string;
+  title: string;
+  type?: string | undefined;
+  content: unknown;
+  displayOrder?: string | undefined;
+}) {
+  const { productId, title, type, content, displayOrder } = data;
+
+  // All or nothing, so a specification is never saved without its revision
+  return await db.transaction(async (tx) => {
+    // Insert into database
+    const result = await tx.insert(productSpecifications).values({
+      productId,
+      title,
+      type: type || 'grid',
+      content,
+      displayOrder: displayOrder || '0',
+      isActive: true,
+    }).returning();
+
+    await recordRevision({ resourceType: 'product_specification', resourceId: result[0]!.id, action: ActionType.CREATE, userId: req.user?.userId, snapshot: result[0]! }, tx);
+    await indexSpecification(result[0]!, tx);
+
+    // Log the action
+    if (req.user) {
+      await AuditLogModel.create({
+        userId: req.user.id,
+        action: ActionType.CREATE,
+        resourceType: 'product_specification',
+        resourceId: result[0]!.id,
+        details: { title, productId },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      }, tx);
+    }
+
+    return result[0]!;
+  });
+}
+
 // Get all specifications for a product (public)
 router.get('/product/:productId', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -22,10 +109,11 @@ router.get('/product/:productId', async (req: Request, res: Response): Promise<v
     const includeInactive = req.query.includeInactive === 'true';
 
     const conditions = includeInactive
-      ? eq(productSpecifications.productId, productId)
+      ? and(eq(productSpecifications.productId, productId), isNull(productSpecifications.deletedAt))
       : and(
           eq(productSpecifications.productId, productId),
-          eq(productSpecifications.isActive, true)
+          eq(productSpecifications.isActive, true),
+          isNull(productSpecifications.deletedAt)
         );
 
     const specs = await db
@@ -44,6 +132,52 @@ router.get('/product/:productId', async (req: Request, res: Response): Promise<v
   }
 });
 
+// Export all of a product's active table specifications as one file (public)
+// ?format=csv|xlsx|html|pdf; XLSX gets one sheet per specification
+router.get('/product/:productId/export', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { productId } = req.params;
+
+    if (!productId) {
+      res.status(400).json({ error: 'Product ID is required' });
+      return;
+    }
+
+    const { format } = exportSpecificationQuerySchema.parse(req.query);
+
+    const product = await ProductModel.getById(productId, true);
+    if (!product || !product.isActive) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
+    }
+
+    const specs = await db
+      .select()
+      .from(productSpecifications)
+      .where(and(
+        eq(productSpecifications.productId, productId),
+        eq(productSpecifications.isActive, true),
+        isNull(productSpecifications.deletedAt)
+      ))
+      .orderBy(productSpecifications.displayOrder);
+
+    const tables = exportTables(specs);
+    if (tables.length === 0) {
+      res.status(404).json({ error: 'Product has no table specifications to export' });
+      return;
+    }
+
+    sendExport(res, await exportSpecifications({ title: product.name, tables }, format));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    console.error('Export product specifications error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Get specification by ID (public)
 router.get('/:id', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -57,7 +191,7 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
     const spec = await db
       .select()
       .from(productSpecifications)
-      .where(eq(productSpecifications.id, id))
+      .where(and(eq(productSpecifications.id, id), isNull(productSpecifications.deletedAt)))
       .limit(1);
 
     if (!spec || spec.length === 0) {
@@ -75,6 +209,57 @@ router.get('/:id', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+// Export a table specification (public)
+// ?format=csv|xlsx|html|pdf
+router.get('/:id/export', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      res.status(400).json({ error: 'Specification ID is required' });
+      return;
+    }
+
+    const { format } = exportSpecificationQuerySchema.parse(req.query);
+
+    // Only what the product page shows: an active specification of a live product
+    const rows = await db
+      .select({ spec: productSpecifications })
+      .from(productSpecifications)
+      .innerJoin(products, eq(products.id, productSpecifications.productId))
+      .where(and(
+        eq(productSpecifications.id, id),
+        eq(productSpecifications.isActive, true),
+        isNull(productSpecifications.deletedAt),
+        eq(products.isActive, true),
+        isNull(products.deletedAt),
+        withinSchedule(products)
+      ))
+      .limit(1);
+    const spec = rows.map((row) => row.spec);
+
+    if (!spec || spec.length === 0) {
+      res.status(404).json({ error: 'Specification not found' });
+      return;
+    }
+
+    const tables = exportTables(spec);
+    if (tables.length === 0) {
+      res.status(400).json({ error: 'Only table specifications can be exported' });
+      return;
+    }
+
+    sendExport(res, await exportSpecifications({ title: spec[0]!.title, tables }, format));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    console.error('Export specification error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // Create specification (admin only)
 router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -102,35 +287,97 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res:
       return;
     }
 
-    // Insert into database
-    const result = await db.insert(productSpecifications).values({
-      productId,
-      title,
-      type: type || 'grid',
-      content: validatedContent,
-      displayOrder: displayOrder || '0',
-      isActive: true,
-    }).returning();
+    const grid = checkGrid(req, res, validatedContent);
+    if (!grid) return;
 
-    // Log the action
-    if (req.user) {
-      await AuditLogModel.create({
-        userId: req.user.id,
-        action: ActionType.CREATE,
-        resourceType: 'product_specification',
-        resourceId: result[0]!.id,
-        details: { title, productId },
-        ipAddress: req.ip,
-        userAgent: req.get('user-agent'),
+    const specification = await createSpecification(req, { productId, title, type, content: grid.content, displayOrder });
+
+    res.status(201).json({
+      success: true,
+      data: specification,
+      ...(grid.repairs.length > 0 && { repairs: grid.repairs }),
+    });
+  } catch (error) {
+    console.error('Create specification error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Create a table specification from a CSV or XLSX sheet (admin only)
+// Multipart: `file` plus the fields in importSpecificationSchema. With preview=true the converted
+// table is returned without saving, so it can be checked before importing.
+router.post('/import', authenticateToken, requireAdmin, spreadsheetUpload.single('file'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'No file uploaded' });
+      return;
+    }
+
+    const extension = path.extname(req.file.originalname).slice(1).toLowerCase();
+    const fileType = SPREADSHEET_TYPES.find((type) => type === extension);
+    if (!fileType) {
+      res.status(400).json({ error: 'Only .csv and .xlsx files can be imported' });
+      return;
+    }
+
+    const fields = importSpecificationSchema.parse(req.body ?? {});
+
+    let imported;
+    try {
+      imported = await importSpreadsheet(req.file, fileType, fields);
+    } catch (parseError) {
+      console.error('Read spreadsheet error:', parseError);
+      res.status(400).json({ error: 'Could not read the spreadsheet' });
+      return;
+    }
+
+    if (!imported) {
+      res.status(400).json({ error: fields.sheet ? `Sheet "${fields.sheet}" not found or empty` : 'The spreadsheet has no table to import' });
+      return;
+    }
+
+    if ('error' in imported) {
+      res.status(400).json({ error: imported.error });
+      return;
+    }
+
+    const { content, ...detected } = imported;
+    const title = fields.title ?? imported.sheet;
+
+    if (fields.preview) {
+      res.json({
+        success: true,
+        data: { title, type: fields.type, content },
+        detected,
       });
+      return;
+    }
+
+    const product = await ProductModel.getById(fields.productId!);
+    if (!product) {
+      res.status(404).json({ error: 'Product not found' });
+      return;
     }
 
+    const specification = await createSpecification(req, {
+      productId: product.id,
+      title,
+      type: fields.type,
+      content,
+      displayOrder: fields.displayOrder,
+    });
+
     res.status(201).json({
       success: true,
-      data: result[0]!,
+      data: specification,
+      detected,
     });
   } catch (error) {
-    console.error('Create specification error:', error);
+    if (error instanceof z.ZodError) {
+      res.status(400).json({ error: 'Invalid input', details: error.issues });
+      return;
+    }
+    console.error('Import specification error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -150,7 +397,7 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res
     const existing = await db
       .select()
       .from(productSpecifications)
-      .where(eq(productSpecifications.id, id))
+      .where(and(eq(productSpecifications.id, id), isNull(productSpecifications.deletedAt)))
       .limit(1);
 
     if (!existing || existing.length === 0) {
@@ -160,6 +407,7 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res
 
     // Validate content if provided
     let validatedContent;
+    let repairs: GridIssue[] = [];
     if (content) {
       try {
         if (type === 'grid' || type === 'matrix' || !type) {
@@ -174,6 +422,11 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res
         });
         return;
       }
+
+      const grid = checkGrid(req, res, validatedContent);
+      if (!grid) return;
+      validatedContent = grid.content;
+      repairs = grid.repairs;
     }
 
     // Update the specification
@@ -184,29 +437,40 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res
     if (displayOrder !== undefined) updateData.displayOrder = displayOrder;
     if (isActive !== undefined) updateData.isActive = isActive;
     updateData.updatedAt = new Date();
+    const reindex = validatedContent !== undefined;
+
+    const result = await db.transaction(async (tx) => {
+      const updated = await tx
+        .update(productSpecifications)
+        .set(updateData)
+        .where(eq(productSpecifications.id, id))
+        .returning();
+
+      await recordRevision({ resourceType: 'product_specification', resourceId: id, action: ActionType.UPDATE, userId: req.user?.userId, snapshot: updated[0] }, tx);
+      if (updated[0] && reindex) {
+        await indexSpecification(updated[0], tx);
+      }
 
-    const result = await db
-      .update(productSpecifications)
-      .set(updateData)
-      .where(eq(productSpecifications.id, id))
-      .returning();
+      // Log the action
+      if (req.user) {
+        await AuditLogModel.create({
+          userId: req.user.id,
+          action: ActionType.UPDATE,
+          resourceType: 'product_specification',
+          resourceId: id,
+          details: { updates: updateData },
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent'),
+        }, tx);
+      }
 
-    // Log the action
-    if (req.user) {
-      await AuditLogModel.create({
-        userId: req.user.id,
-        action: ActionType.UPDATE,
-        resourceType: 'product_specification',
-        resourceId: id,
-        details: { updates: updateData },
-        ipAddress: req.ip,
-        userAgent: req.get('user-agent'),
-      });
-    }
+      return updated;
+    });
 
     res.json({
       success: true,
       data: result[0]!,
+      ...(repairs.length > 0 && { repairs }),
     });
   } catch (error) {
     console.error('Update specification error:', error);
@@ -214,7 +478,7 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res
   }
 });
 
-// Delete specification (admin only)
+// Delete specification, moving it to the trash (admin only)
 router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
@@ -228,7 +492,7 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest,
     const existing = await db
       .select()
       .from(productSpecifications)
-      .where(eq(productSpecifications.id, id))
+      .where(and(eq(productSpecifications.id, id), isNull(productSpecifications.deletedAt)))
       .limit(1);
 
     if (!existing || existing.length === 0) {
@@ -236,27 +500,30 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest,
       return;
     }
 
-    // Delete the specification
-    await db
-      .delete(productSpecifications)
-      .where(eq(productSpecifications.id, id));
-
-    // Log the action
-    if (req.user) {
-      await AuditLogModel.create({
-        userId: req.user.id,
-        action: ActionType.DELETE,
-        resourceType: 'product_specification',
-        resourceId: id,
-        details: { title: existing[0]!.title },
-        ipAddress: req.ip,
-        userAgent: req.get('user-agent'),
-      });
-    }
+    await db.transaction(async (tx) => {
+      // Keep the specification as it was so the delete can be rolled back
+      await recordRevision({ resourceType: 'product_specification', resourceId: id, action: ActionType.DELETE, userId: req.user?.userId, snapshot: existing[0]! }, tx);
+
+      // Move the specification to the trash
+      await moveToTrash('product_specification', id, tx);
+
+      // Log the action
+      if (req.user) {
+        await AuditLogModel.create({
+          userId: req.user.id,
+          action: ActionType.DELETE,
+          resourceType: 'product_specification',
+          resourceId: id,
+          details: { title: existing[0]!.title },
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent'),
+        }, tx);
+      }
+    });
 
     res.json({
       success: true,
-      message: 'Specification deleted successfully',
+      message: 'Specification moved to trash',
     });
   } catch (error) {
     console.error('Delete specification error:', error);
@@ -278,7 +545,7 @@ router.patch('/:id/toggle-active', authenticateToken, requireAdmin, async (req:
     const existing = await db
       .select()
       .from(productSpecifications)
-      .where(eq(productSpecifications.id, id))
+      .where(and(eq(productSpecifications.id, id), isNull(productSpecifications.deletedAt)))
       .limit(1);
 
     if (!existing || existing.length === 0) {
@@ -286,31 +553,37 @@ router.patch('/:id/toggle-active', authenticateToken, requireAdmin, async (req:
       return;
     }
 
-    // Toggle the status
-    const result = await db
-      .update(productSpecifications)
-      .set({ 
-        isActive: !existing[0]!.isActive,
-        updatedAt: new Date(),
-      })
-      .where(eq(productSpecifications.id, id))
-      .returning();
+    const result = await db.transaction(async (tx) => {
+      // Toggle the status
+      const toggled = await tx
+        .update(productSpecifications)
+        .set({ 
+          isActive: !existing[0]!.isActive,
+          updatedAt: new Date(),
+        })
+        .where(eq(productSpecifications.id, id))
+        .returning();
+
+      await recordRevision({ resourceType: 'product_specification', resourceId: id, action: ActionType.UPDATE, userId: req.user?.userId, snapshot: toggled[0] }, tx);
+
+      // Log the action
+      if (req.user) {
+        await AuditLogModel.create({
+          userId: req.user.id,
+          action: ActionType.UPDATE,
+          resourceType: 'product_specification',
+          resourceId: id,
+          details: { 
+            action: 'toggle_active',
+            newStatus: toggled[0]!.isActive,
+          },
+          ipAddress: req.ip,
+          userAgent: req.get('user-agent'),
+        }, tx);
+      }
 
-    // Log the action
-    if (req.user) {
-      await AuditLogModel.create({
-        userId: req.user.id,
-        action: ActionType.UPDATE,
-        resourceType: 'product_specification',
-        resourceId: id,
-        details: { 
-          action: 'toggle_active',
-          newStatus: result[0]!.isActive,
-        },
-        ipAddress: req.ip,
-        userAgent: req.get('user-agent'),
-      });
-    }
+      return toggled;
+    });
 
     res.json({
       success: true,
@@ -322,4 +595,7 @@ router.patch('/:id/toggle-active', authenticateToken, requireAdmin, async (req:
   }
 });
 
+// Revision history and rollback
+router.use(createRevisionRouter('product_specification'));
+
 export default router;
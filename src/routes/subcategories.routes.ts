@@ -1,17 +1,23 @@
 import { Router, type Request, type Response, type IRouter } from 'express';
-import { authenticateToken, requireAdmin, type AuthRequest } from '../middleware/auth.middleware.js';
+import { authenticateToken, requireEditor, type AuthRequest } from '../middleware/auth.middleware.js';
 import { SubcategoryModel } from '../models/subcategory.model.js';
 import { AuditLogModel } from '../models/audit-log.model.js';
 import { z } from 'zod';
+import { TransactionRollbackError } from 'drizzle-orm';
+import { db } from '../db/index.js';
 import { ActionType } from '../types/auth.js';
+import { createSubcategorySchema, updateSubcategorySchema } from '../types/subcategory.js';
+import { needsApproval, submitForApproval } from '../services/approval.service.js';
+import { recordRevision } from '../services/revision.service.js';
+import { createRevisionRouter } from './revisions.routes.js';
 
 const router: IRouter = Router();
 
 // Helper to remove undefined keys for exactOptionalPropertyTypes compliance
-function cleanData(obj: Record<string, any>): Record<string, any> {
+function cleanData<T extends object>(obj: T): { [K in keyof T]: Exclude<T[K], undefined> } {
   return Object.fromEntries(
     Object.entries(obj).filter(([_, v]) => v !== undefined)
-  );
+  ) as { [K in keyof T]: Exclude<T[K], undefined> };
 }
 
 // Get all subcategories (public)
@@ -74,7 +80,7 @@ router.get('/slug/:slug', async (req: Request, res: Response): Promise<void> =>
       return;
     }
     
-    const subcategory = await SubcategoryModel.getBySlug(slug);
+    const subcategory = await SubcategoryModel.getBySlug(slug, true);
     
     if (!subcategory) {
       res.status(404).json({ error: 'Subcategory not found' });
@@ -91,17 +97,8 @@ router.get('/slug/:slug', async (req: Request, res: Response): Promise<void> =>
   }
 });
 
-// Create subcategory (Admin only)
-const createSubcategorySchema = z.object({
-  categoryId: z.string().min(1),
-  name: z.string().min(1),
-  slug: z.string().min(1),
-  description: z.string().optional(),
-  image: z.string().optional(),
-  displayOrder: z.string().optional(),
-});
-
-router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+// Create subcategory (Admin, or Editor via approval)
+router.post('/', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -117,15 +114,32 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res:
       return;
     }
     
-    const subcategory = await SubcategoryModel.create(cleanData(data) as any);
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.CREATE,
+        resourceType: 'subcategory',
+        changeData: cleanData(data),
+      });
+      return;
+    }
     
-    // Log the action
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: ActionType.CREATE,
-      resourceType: 'subcategory',
-      resourceId: subcategory.id,
-      details: { name: subcategory.name, slug: subcategory.slug, categoryId: subcategory.categoryId },
+    const userId = req.user.userId;
+    // The row, its revision and the audit entry are written together or not at all
+    const subcategory = await db.transaction(async (tx) => {
+      const created = await SubcategoryModel.create(cleanData(data), tx);
+      
+      await recordRevision({ resourceType: 'subcategory', resourceId: created.id, action: ActionType.CREATE, userId, snapshot: created }, tx);
+      
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.CREATE,
+        resourceType: 'subcategory',
+        resourceId: created.id,
+        details: { name: created.name, slug: created.slug, categoryId: created.categoryId },
+      }, tx);
+      
+      return created;
     });
     
     res.json({
@@ -143,8 +157,8 @@ router.post('/', authenticateToken, requireAdmin, async (req: AuthRequest, res:
   }
 });
 
-// Toggle subcategory active status (Admin only) - MUST BE BEFORE /:id route
-router.patch('/:id/toggle', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+// Toggle subcategory active status (Admin, or Editor via approval) - MUST BE BEFORE /:id route
+router.patch('/:id/toggle', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -160,22 +174,46 @@ router.patch('/:id/toggle', authenticateToken, requireAdmin, async (req: AuthReq
     
     const { isActive } = req.body;
     
-    const success = await SubcategoryModel.toggleActive(id, isActive);
+    if (needsApproval(req)) {
+      const current = await SubcategoryModel.getById(id);
+      if (!current) {
+        res.status(404).json({ error: 'Subcategory not found' });
+        return;
+      }
+      
+      await submitForApproval(req, res, {
+        action: ActionType.UPDATE,
+        resourceType: 'subcategory',
+        resourceId: id,
+        changeData: { isActive },
+        previousData: current,
+      });
+      return;
+    }
+    
+    const userId = req.user.userId;
+    const success = await db.transaction(async (tx) => {
+      if (!await SubcategoryModel.toggleActive(id, isActive, tx)) return false;
+      
+      await recordRevision({ resourceType: 'subcategory', resourceId: id, action: ActionType.UPDATE, userId }, tx);
+      
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.UPDATE,
+        resourceType: 'subcategory',
+        resourceId: id,
+        details: { action: isActive ? 'activated' : 'deactivated' },
+      }, tx);
+      
+      return true;
+    });
     
     if (!success) {
       res.status(404).json({ error: 'Subcategory not found' });
       return;
     }
     
-    // Log the action
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: ActionType.UPDATE,
-      resourceType: 'subcategory',
-      resourceId: id,
-      details: { action: isActive ? 'activated' : 'deactivated' },
-    });
-    
     res.json({
       success: true,
       message: `Subcategory ${isActive ? 'activated' : 'deactivated'} successfully`,
@@ -186,17 +224,8 @@ router.patch('/:id/toggle', authenticateToken, requireAdmin, async (req: AuthReq
   }
 });
 
-// Update subcategory (Admin only)
-const updateSubcategorySchema = z.object({
-  categoryId: z.string().min(1).optional(),
-  name: z.string().min(1).optional(),
-  slug: z.string().min(1).optional(),
-  description: z.string().optional(),
-  image: z.string().optional(),
-  displayOrder: z.string().optional(),
-});
-
-router.patch('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+// Update subcategory (Admin, or Editor via approval)
+router.patch('/:id', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -221,22 +250,47 @@ router.patch('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, r
       }
     }
     
-    const subcategory = await SubcategoryModel.update(id, cleanData(data) as any);
+    if (needsApproval(req)) {
+      const current = await SubcategoryModel.getById(id);
+      if (!current) {
+        res.status(404).json({ error: 'Subcategory not found' });
+        return;
+      }
+      
+      await submitForApproval(req, res, {
+        action: ActionType.UPDATE,
+        resourceType: 'subcategory',
+        resourceId: id,
+        changeData: cleanData(data),
+        previousData: current,
+      });
+      return;
+    }
+    
+    const userId = req.user.userId;
+    const subcategory = await db.transaction(async (tx) => {
+      const updated = await SubcategoryModel.update(id, cleanData(data), tx);
+      if (!updated) return null;
+      
+      await recordRevision({ resourceType: 'subcategory', resourceId: id, action: ActionType.UPDATE, userId, snapshot: updated }, tx);
+      
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.UPDATE,
+        resourceType: 'subcategory',
+        resourceId: id,
+        details: data,
+      }, tx);
+      
+      return updated;
+    });
     
     if (!subcategory) {
       res.status(404).json({ error: 'Subcategory not found' });
       return;
     }
     
-    // Log the action   
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: ActionType.UPDATE,
-      resourceType: 'subcategory',
-      resourceId: id,
-      details: data,
-    });
-    
     res.json({
       success: true,
       message: 'Subcategory updated successfully',
@@ -252,8 +306,8 @@ router.patch('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, r
   }
 });
 
-// Delete subcategory (Admin only)
-router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+// Delete subcategory, moving it and everything under it to the trash (Admin, or Editor via approval)
+router.delete('/:id', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     if (!req.user) {
       res.status(401).json({ error: 'Not authenticated' });
@@ -273,25 +327,50 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest,
       return;
     }
     
-    const success = await SubcategoryModel.delete(id);
+    if (needsApproval(req)) {
+      await submitForApproval(req, res, {
+        action: ActionType.DELETE,
+        resourceType: 'subcategory',
+        resourceId: id,
+        changeData: {},
+        previousData: subcategory,
+      });
+      return;
+    }
+    
+    const userId = req.user.userId;
+    const success = await db.transaction(async (tx) => {
+      // Keep the record as it was so the delete can be rolled back
+      await recordRevision({ resourceType: 'subcategory', resourceId: id, action: ActionType.DELETE, userId }, tx);
+      
+      if (!await SubcategoryModel.delete(id, tx)) {
+        // Nothing was deleted, so the revision goes too
+        tx.rollback();
+      }
+      
+      // Log the action
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.DELETE,
+        resourceType: 'subcategory',
+        resourceId: id,
+        details: { name: subcategory.name },
+      }, tx);
+      
+      return true;
+    }).catch((error) => {
+      if (error instanceof TransactionRollbackError) return false;
+      throw error;
+    });
     
     if (!success) {
       res.status(404).json({ error: 'Subcategory not found' });
       return;
     }
     
-    // Log the action
-    await AuditLogModel.create({
-      userId: req.user.userId,
-      action: ActionType.DELETE,
-      resourceType: 'subcategory',
-      resourceId: id,
-      details: { name: subcategory.name },
-    });
-    
     res.json({
       success: true,
-      message: 'Subcategory deleted successfully',
+      message: 'Subcategory moved to trash',
     });
   } catch (error) {
     console.error('Delete subcategory error:', error);
@@ -299,4 +378,7 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: AuthRequest,
   }
 });
 
+// Revision history and rollback
+router.use(createRevisionRouter('subcategory'));
+
 export default router;
@@ -0,0 +1,153 @@
+import { Router, type Response, type IRouter } from 'express';
+import { authenticateToken, requireAdmin, requireEditor, type AuthRequest } from '../middleware/auth.middleware.js';
+import { AuditLogModel } from '../models/audit-log.model.js';
+import {
+  getTrashed,
+  isTrashable,
+  listTrash,
+  purgeFromTrash,
+  restoreFromTrash,
+  trashedParentOf,
+} from '../services/trash.service.js';
+import { isRevisioned, recordRevision } from '../services/revision.service.js';
+import { config } from '../config/config.js';
+import { pgErrorCode } from '../utils/db-errors.js';
+import { db } from '../db/index.js';
+import { ActionType } from '../types/auth.js';
+
+const router: IRouter = Router();
+
+// List trashed records (Admin, Editor). Children trashed with their parent are not listed separately.
+router.get('/', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const entries = await listTrash();
+
+    res.json({
+      success: true,
+      data: entries,
+      total: entries.length,
+      retentionDays: config.trash.retentionDays,
+    });
+  } catch (error) {
+    console.error('Get trash error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Restore a trashed record together with everything that was trashed with it (Admin only)
+router.post('/:resourceType/:id/restore', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { resourceType, id } = req.params;
+
+    if (!resourceType || !id) {
+      res.status(400).json({ error: 'Resource type and ID are required' });
+      return;
+    }
+
+    if (!isTrashable(resourceType)) {
+      res.status(400).json({ error: `Unsupported resource type: ${resourceType}` });
+      return;
+    }
+
+    const trashed = await getTrashed(resourceType, id);
+    if (!trashed) {
+      res.status(404).json({ error: 'Record not found in trash' });
+      return;
+    }
+
+    // A child cannot come back under a parent that is still in the trash
+    const parent = await trashedParentOf(resourceType, trashed);
+    if (parent) {
+      res.status(409).json({ error: 'Restore the parent record first', parent });
+      return;
+    }
+
+    const userId = req.user.userId;
+    const restored = await db.transaction(async (tx) => {
+      const row = await restoreFromTrash(resourceType, id, tx);
+
+      if (row && isRevisioned(resourceType)) {
+        await recordRevision({ resourceType, resourceId: id, action: ActionType.UPDATE, userId, snapshot: row }, tx);
+      }
+
+      await AuditLogModel.create({
+        userId,
+        action: ActionType.UPDATE,
+        resourceType,
+        resourceId: id,
+        details: { restoredFromTrash: true, deletedAt: trashed.deletedAt },
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      }, tx);
+
+      return row;
+    });
+
+    res.json({
+      success: true,
+      message: 'Restored from trash',
+      data: restored,
+    });
+  } catch (error) {
+    // Unique slug taken by a record created while this one was in the trash
+    if (pgErrorCode(error) === '23505') {
+      res.status(409).json({ error: 'Another record now uses this slug' });
+      return;
+    }
+    console.error('Restore from trash error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Permanently delete a trashed record without waiting for the purge (Admin only)
+router.delete('/:resourceType/:id', authenticateToken, requireAdmin, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: 'Not authenticated' });
+      return;
+    }
+
+    const { resourceType, id } = req.params;
+
+    if (!resourceType || !id) {
+      res.status(400).json({ error: 'Resource type and ID are required' });
+      return;
+    }
+
+    if (!isTrashable(resourceType)) {
+      res.status(400).json({ error: `Unsupported resource type: ${resourceType}` });
+      return;
+    }
+
+    const purged = await purgeFromTrash(resourceType, id);
+    if (!purged) {
+      res.status(404).json({ error: 'Record not found in trash' });
+      return;
+    }
+
+    await AuditLogModel.create({
+      userId: req.user.userId,
+      action: ActionType.DELETE,
+      resourceType,
+      resourceId: id,
+      details: { purgedFromTrash: true },
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+
+    res.json({
+      success: true,
+      message: 'Permanently deleted',
+    });
+  } catch (error) {
+    console.error('Purge from trash error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -6,40 +6,12 @@ import { eq, asc } from 'drizzle-orm';
 import { z } from 'zod';
 import { AuditLogModel } from '../models/audit-log.model.js';
 import { ActionType } from '../types/auth.js';
-import axios from 'axios';
+import { createVideoSchema, updateVideoSchema } from '../types/youtube-video.js';
+import { revalidateFrontend } from '../services/revalidation.service.js';
+import { extractYouTubeVideoId } from '../utils/youtube.js';
 
 const router: IRouter = Router();
 
-// Helper to revalidate frontend cache
-async function revalidateFrontend(tag: string) {
-  try {
-    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
-    const secret = process.env.REVALIDATION_SECRET || 'gogreen_revalidation_secret';
-    
-    await axios.post(`${frontendUrl}/api/revalidate`, null, {
-      params: { tag, secret }
-    });
-    console.log(`Revalidated tag: ${tag}`);
-  } catch (error) {
-    console.error('Revalidation failed:', error);
-  }
-}
-
-// Helper to extract YouTube video ID from URL
-function extractYouTubeVideoId(url: string): string | null {
-  const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/,
-    /youtube\.com\/v\/([^&\n?#]+)/,
-    /youtube\.com\/shorts\/([^&\n?#]+)/,
-  ];
-  
-  for (const pattern of patterns) {
-    const match = url.match(pattern);
-    if (match && match[1]) return match[1];
-  }
-  return null;
-}
-
 // Get all active YouTube videos (public)
 router.get('/', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -96,13 +68,6 @@ router.get('/admin', authenticateToken, async (req: AuthRequest, res: Response):
   }
 });
 
-// Create YouTube video schema - only URL required
-const createVideoSchema = z.object({
-  youtubeUrl: z.string().url('Invalid YouTube URL'),
-  displayOrder: z.number().int().optional().default(0),
-  isActive: z.boolean().optional().default(true),
-});
-
 // Create a new YouTube video
 router.post('/', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -113,12 +78,8 @@ router.post('/', authenticateToken, requireEditor, async (req: AuthRequest, res:
 
     const data = createVideoSchema.parse(req.body);
 
-    // Validate that it's a valid YouTube URL
+    // The schema has already checked that the URL is a YouTube video
     const videoId = extractYouTubeVideoId(data.youtubeUrl);
-    if (!videoId) {
-      res.status(400).json({ error: 'Invalid YouTube URL. Please provide a valid YouTube video link.' });
-      return;
-    }
 
     const [newVideo] = await db.insert(youtubeVideos)
       .values({
@@ -164,13 +125,6 @@ router.post('/', authenticateToken, requireEditor, async (req: AuthRequest, res:
   }
 });
 
-// Update YouTube video schema
-const updateVideoSchema = z.object({
-  youtubeUrl: z.string().url('Invalid YouTube URL').optional(),
-  displayOrder: z.number().int().optional(),
-  isActive: z.boolean().optional(),
-});
-
 // Update a YouTube video
 router.patch('/:id', authenticateToken, requireEditor, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -186,15 +140,6 @@ router.patch('/:id', authenticateToken, requireEditor, async (req: AuthRequest,
     }
     const data = updateVideoSchema.parse(req.body);
 
-    // If URL is being updated, validate it
-    if (data.youtubeUrl) {
-      const videoId = extractYouTubeVideoId(data.youtubeUrl);
-      if (!videoId) {
-        res.status(400).json({ error: 'Invalid YouTube URL. Please provide a valid YouTube video link.' });
-        return;
-      }
-    }
-
     const [updatedVideo] = await db.update(youtubeVideos)
       .set({
         ...data,
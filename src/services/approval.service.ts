@@ -0,0 +1,259 @@
+import type { Response } from 'express';
+import type { AuthRequest } from '../middleware/auth.middleware.js';
+import { db, type DbExecutor } from '../db/index.js';
+import type { PendingChange } from '../db/schema.js';
+import { PendingChangeModel } from '../models/pending-change.model.js';
+import { AuditLogModel } from '../models/audit-log.model.js';
+import { getChangeHandler, type ChangeHandler } from './change-handlers.js';
+import { isRevisioned, recordRevision } from './revision.service.js';
+import { ActionType, UserRole } from '../types/auth.js';
+
+export interface ApprovalRequest {
+  action: ActionType.CREATE | ActionType.UPDATE | ActionType.DELETE;
+  resourceType: string;
+  resourceId?: string | undefined;
+  changeData: unknown;
+  previousData?: unknown;
+}
+
+export interface FieldConflict {
+  field: string;
+  // Value in previousData, i.e. what the submitter saw when proposing the change
+  theirs: unknown;
+  // Value the pending change wants to write
+  ours: unknown;
+  // Value in the live record right now
+  current: unknown;
+}
+
+// Per-field choice made by the reviewer: keep the proposed value or the live one
+export type ConflictResolution = 'ours' | 'current';
+
+// Admins write directly; everyone else goes through the pending-changes workflow
+export function needsApproval(req: AuthRequest): boolean {
+  return req.user?.role !== UserRole.ADMIN;
+}
+
+// Queue an editor's write as a pending change and answer with 202 Accepted
+export async function submitForApproval(req: AuthRequest, res: Response, change: ApprovalRequest): Promise<void> {
+  if (!req.user) {
+    res.status(401).json({ error: 'Not authenticated' });
+    return;
+  }
+
+  const userId = req.user.userId;
+  const pendingChange = await db.transaction(async (tx) => {
+    const created = await PendingChangeModel.create({
+      userId,
+      action: change.action,
+      resourceType: change.resourceType,
+      resourceId: change.resourceId,
+      changeData: change.changeData,
+      previousData: change.previousData ?? null,
+    }, tx);
+
+    // Log the submission
+    await AuditLogModel.create({
+      userId,
+      action: ActionType.CREATE,
+      resourceType: 'pending_change',
+      resourceId: created.id,
+      details: { changeType: change.action, targetResource: change.resourceType, targetId: change.resourceId },
+    }, tx);
+
+    return created;
+  });
+
+  res.status(202).json({
+    success: true,
+    message: 'Change submitted for approval',
+    data: {
+      pendingChangeId: pendingChange.id,
+      status: pendingChange.status,
+    },
+  });
+}
+
+// Helper to remove undefined keys for exactOptionalPropertyTypes compliance
+function cleanData(obj: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([_, v]) => v !== undefined)
+  );
+}
+
+// Find the handler for a change, failing when its resource type or action is not supported
+function requireHandler(resourceType: string, action: string): ChangeHandler {
+  const handler = getChangeHandler(resourceType);
+  if (!handler) {
+    throw new Error(`Unsupported resource type: ${resourceType}`);
+  }
+  if (action !== 'create' && action !== 'update' && action !== 'delete') {
+    throw new Error(`Unsupported action: ${action}`);
+  }
+  if (!handler[action]) {
+    throw new Error(`${resourceType} does not support ${action}`);
+  }
+  return handler;
+}
+
+// Describe why a proposed change cannot be accepted, or return null when it can
+export function unsupportedChangeReason(resourceType: string, action: string): string | null {
+  try {
+    requireHandler(resourceType, action);
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+}
+
+// Validate a payload against the schema the direct route uses. Throws a ZodError on invalid data.
+export function parseChangeData(resourceType: string, action: string, changeData: unknown): Record<string, unknown> {
+  const handler = requireHandler(resourceType, action);
+  const schema = action === 'create' ? handler.create?.schema : action === 'update' ? handler.update?.schema : undefined;
+  if (!schema) {
+    return {};
+  }
+  // Every change schema is an object schema
+  return cleanData(schema.parse(changeData) as Record<string, unknown>);
+}
+
+// Re-validate a pending change's payload before it is applied. Throws a ZodError on invalid data.
+export function validateChangeData(change: PendingChange): Record<string, unknown> {
+  return parseChangeData(change.resourceType, change.action, change.changeData);
+}
+
+// Snapshot the live record for a change's previousData
+export async function loadCurrent(resourceType: string, resourceId: string): Promise<Record<string, unknown> | null> {
+  const handler = getChangeHandler(resourceType);
+  const current = handler ? await handler.load(resourceId) : null;
+  return current ? Object.fromEntries(Object.entries(current)) : null;
+}
+
+// Bookkeeping columns that change on every write and never count as a conflict
+const conflictIgnoredFields = new Set(['id', 'createdAt', 'updatedAt']);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  // previousData went through JSON, so compare the live value in its JSON form
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// A JSON object's fields; anything else has none
+function asFields(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? Object.fromEntries(Object.entries(value)) : {};
+}
+
+// A change payload field by field, the way load() returns the record
+function payloadFields(resourceType: string, payload: unknown): Record<string, unknown> {
+  const handler = getChangeHandler(resourceType);
+  return handler?.fields ? handler.fields.read(payload) : asFields(payload);
+}
+
+// Compare the live record against previousData and report fields another edit changed in between
+export function findConflicts(change: PendingChange, current: Record<string, unknown>): FieldConflict[] {
+  if (change.action === 'create' || !change.previousData) {
+    return [];
+  }
+
+  const previous = asFields(change.previousData);
+  const proposed = payloadFields(change.resourceType, change.changeData);
+  // An update only conflicts on the fields it touches; a delete on anything that changed
+  const fields = change.action === 'update' ? Object.keys(proposed) : Object.keys(previous);
+
+  return fields
+    .filter((field) => !conflictIgnoredFields.has(field) && field in previous)
+    .filter((field) => !sameValue(previous[field], current[field]))
+    // Both edits landing on the same value is not a conflict
+    .filter((field) => change.action === 'delete' || !sameValue(proposed[field], current[field]))
+    .map((field) => ({
+      field,
+      theirs: previous[field],
+      ours: proposed[field],
+      current: current[field],
+    }));
+}
+
+// Load the live record and report conflicts with it (see findConflicts)
+export async function detectConflicts(change: PendingChange): Promise<FieldConflict[]> {
+  if (change.action === 'create' || !change.resourceId || !change.previousData) {
+    return [];
+  }
+
+  // A missing target is reported when the change is applied
+  const current = await loadCurrent(change.resourceType, change.resourceId);
+  return current ? findConflicts(change, current) : [];
+}
+
+// Apply the reviewer's choices to the validated data; conflicts without a usable choice are returned
+export function resolveConflicts(
+  change: PendingChange,
+  data: Record<string, unknown>,
+  conflicts: FieldConflict[],
+  resolutions: Record<string, ConflictResolution> = {}
+): { data: Record<string, unknown>; unresolved: FieldConflict[] } {
+  const merged = payloadFields(change.resourceType, data);
+  const unresolved: FieldConflict[] = [];
+  let dropped = false;
+
+  for (const conflict of conflicts) {
+    const resolution = resolutions[conflict.field];
+    // Keeping the live value is meaningless for a delete; that change should be sent back instead
+    if (!resolution || (change.action === 'delete' && resolution === 'current')) {
+      unresolved.push(conflict);
+    } else if (resolution === 'current') {
+      delete merged[conflict.field];
+      dropped = true;
+    }
+  }
+
+  if (!dropped) {
+    return { data, unresolved };
+  }
+  const handler = getChangeHandler(change.resourceType);
+  return { data: handler?.fields ? handler.fields.write(merged) : merged, unresolved };
+}
+
+// Write a validated change to its target table and return the written row.
+// Throws so the surrounding transaction rolls back.
+export async function applyChange(change: PendingChange, data: Record<string, unknown>, tx: DbExecutor): Promise<unknown> {
+  const { resourceType, resourceId, action } = change;
+  const handler = requireHandler(resourceType, action);
+
+  if (action === 'create') {
+    const created = await handler.create!.apply(data, tx) as { id: string | number } | undefined;
+    if (created && isRevisioned(resourceType)) {
+      await recordRevision({ resourceType, resourceId: created.id, action: ActionType.CREATE, userId: change.userId, snapshot: created }, tx);
+    }
+    return created;
+  }
+
+  if (!resourceId) {
+    throw new Error(`Cannot ${action} ${resourceType} without a resource ID`);
+  }
+
+  // The revision for a delete is the row as it was, so it has to be taken first
+  if (action === 'delete' && isRevisioned(resourceType)) {
+    await recordRevision({ resourceType, resourceId, action: ActionType.DELETE, userId: change.userId }, tx);
+  }
+
+  const applied = action === 'update'
+    ? await handler.update!.apply(resourceId, data, tx)
+    : await handler.delete!.apply(resourceId, tx);
+
+  if (!applied) {
+    throw new Error(`${resourceType} ${resourceId} not found`);
+  }
+
+  if (action === 'update' && isRevisioned(resourceType)) {
+    await recordRevision({ resourceType, resourceId, action: ActionType.UPDATE, userId: change.userId, snapshot: applied }, tx);
+  }
+
+  return applied;
+}
+
+// Side effects that must wait until the approved change has committed
+export async function afterChangeApplied(change: PendingChange): Promise<void> {
+  const handler = getChangeHandler(change.resourceType);
+  if (handler?.afterApply) {
+    await handler.afterApply();
+  }
+}
@@ -0,0 +1,358 @@
+import type { z } from 'zod';
+import { and, eq, isNull } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db/index.js';
+import { productSpecifications, posts, youtubeVideos, homePopups, globalSettings } from '../db/schema.js';
+import { ProductModel } from '../models/product.model.js';
+import { CategoryModel } from '../models/category.model.js';
+import { SubcategoryModel } from '../models/subcategory.model.js';
+import { ProductVariantModel } from '../models/product-variant.model.js';
+import { ProductRelationModel } from '../models/product-relation.model.js';
+import { ProductPlacementModel } from '../models/product-placement.model.js';
+import { createProductSchema, updateProductSchema } from '../types/product.js';
+import { createCategorySchema, updateCategorySchema } from '../types/category.js';
+import { createSubcategorySchema, updateSubcategorySchema } from '../types/subcategory.js';
+import { createSpecificationSchema, updateSpecificationSchema } from '../types/specification.js';
+import { createVariantSchema, updateVariantSchema } from '../types/product-variant.js';
+import { createRelationSchema, updateRelationSchema } from '../types/product-relation.js';
+import { setPlacementsSchema } from '../types/product-placement.js';
+import { createPostSchema, updatePostSchema } from '../types/post.js';
+import { createVideoSchema, updateVideoSchema } from '../types/youtube-video.js';
+import { createPopupSchema } from '../types/home-popup.js';
+import { upsertSettingsSchema } from '../types/settings.js';
+import { revalidateFrontend } from './revalidation.service.js';
+import { moveToTrash } from './trash.service.js';
+import { indexSpecification } from './spec-search.service.js';
+
+// A parsed payload once its undefined keys are dropped (see parseChangeData)
+export type ChangePayload<S extends z.ZodType> = { [K in keyof z.output<S>]: Exclude<z.output<S>[K], undefined> };
+
+// How the approval workflow reads and writes one resource type.
+// An action without an entry cannot be proposed for that resource type.
+export interface ChangeHandler<C extends z.ZodType = z.ZodType, U extends z.ZodType = z.ZodType> {
+  // Fetch the live record, used for previousData snapshots and conflict detection
+  load(id: string): Promise<object | null>;
+  create?: {
+    schema: C;
+    apply(data: ChangePayload<C>, tx: DbExecutor): Promise<unknown>;
+  };
+  // apply resolves to a falsy value when the target row does not exist
+  update?: {
+    schema: U;
+    apply(id: string, data: ChangePayload<U>, tx: DbExecutor): Promise<unknown>;
+  };
+  delete?: {
+    apply(id: string, tx: DbExecutor): Promise<unknown>;
+  };
+  // For payloads not shaped like the record load() returns: how to read one field by field,
+  // for conflict detection, and how to write the fields a reviewer kept back into a payload
+  fields?: {
+    read(payload: unknown): Record<string, unknown>;
+    write(fields: Record<string, unknown>): Record<string, unknown>;
+  };
+  // Runs after the approval transaction has committed, e.g. to revalidate the frontend cache
+  afterApply?(): Promise<void>;
+}
+
+const handlers = new Map<string, ChangeHandler>();
+
+// The schemas are inferred from the handler, so each apply gets its schema's parsed type
+export function registerChangeHandler<C extends z.ZodType, U extends z.ZodType>(
+  resourceType: string,
+  handler: ChangeHandler<C, U>
+): void {
+  handlers.set(resourceType, handler);
+}
+
+export function getChangeHandler(resourceType: string): ChangeHandler | null {
+  return handlers.get(resourceType) ?? null;
+}
+
+export function getSupportedResourceTypes(): string[] {
+  return [...handlers.keys()];
+}
+
+// Catalog
+
+registerChangeHandler('product', {
+  load: (id) => ProductModel.getById(id),
+  create: {
+    schema: createProductSchema,
+    apply: (data, tx) => ProductModel.create(data, tx),
+  },
+  update: {
+    schema: updateProductSchema,
+    apply: (id, data, tx) => ProductModel.update(id, data, tx),
+  },
+  delete: {
+    apply: (id, tx) => ProductModel.delete(id, tx),
+  },
+});
+
+registerChangeHandler('category', {
+  load: (id) => CategoryModel.getById(id),
+  create: {
+    schema: createCategorySchema,
+    apply: (data, tx) => CategoryModel.create(data, tx),
+  },
+  update: {
+    schema: updateCategorySchema,
+    apply: (id, data, tx) => CategoryModel.update(id, data, tx),
+  },
+  delete: {
+    apply: (id, tx) => CategoryModel.delete(id, tx),
+  },
+});
+
+registerChangeHandler('subcategory', {
+  load: (id) => SubcategoryModel.getById(id),
+  create: {
+    schema: createSubcategorySchema,
+    apply: (data, tx) => SubcategoryModel.create(data, tx),
+  },
+  update: {
+    schema: updateSubcategorySchema,
+    apply: (id, data, tx) => SubcategoryModel.update(id, data, tx),
+  },
+  delete: {
+    apply: (id, tx) => SubcategoryModel.delete(id, tx),
+  },
+});
+
+registerChangeHandler('product_specification', {
+  load: async (id) => {
+    const [spec] = await db
+      .select()
+      .from(productSpecifications)
+      .where(and(eq(productSpecifications.id, id), isNull(productSpecifications.deletedAt)))
+      .limit(1);
+    return spec ?? null;
+  },
+  create: {
+    schema: createSpecificationSchema,
+    apply: async (data, tx) => {
+      const [spec] = await tx.insert(productSpecifications).values({
+        productId: data.productId,
+        title: data.title,
+        type: data.type || 'grid',
+        content: data.content,
+        displayOrder: data.displayOrder || '0',
+        isActive: true,
+      }).returning();
+      if (spec) await indexSpecification(spec, tx);
+      return spec;
+    },
+  },
+  update: {
+    schema: updateSpecificationSchema,
+    apply: async (id, data, tx) => {
+      const [spec] = await tx
+        .update(productSpecifications)
+        .set({ ...data, updatedAt: new Date() })
+        .where(and(eq(productSpecifications.id, id), isNull(productSpecifications.deletedAt)))
+        .returning();
+      if (spec && data.content !== undefined) await indexSpecification(spec, tx);
+      return spec;
+    },
+  },
+  delete: {
+    apply: (id, tx) => moveToTrash('product_specification', id, tx),
+  },
+});
+
+registerChangeHandler('product_variant', {
+  load: (id) => ProductVariantModel.getById(id),
+  create: {
+    schema: createVariantSchema,
+    apply: (data, tx) => ProductVariantModel.create(data, tx),
+  },
+  update: {
+    schema: updateVariantSchema,
+    apply: (id, data, tx) => ProductVariantModel.update(id, data, tx),
+  },
+  delete: {
+    apply: (id, tx) => ProductVariantModel.delete(id, tx),
+  },
+});
+
+registerChangeHandler('product_relation', {
+  load: (id) => ProductRelationModel.getById(id),
+  create: {
+    schema: createRelationSchema,
+    apply: (data, tx) => ProductRelationModel.create(data, tx),
+  },
+  update: {
+    schema: updateRelationSchema,
+    apply: (id, data, tx) => ProductRelationModel.update(id, data, tx),
+  },
+  delete: {
+    apply: (id, tx) => ProductRelationModel.delete(id, tx),
+  },
+});
+
+// A product's placements are proposed as one set, keyed by the product id
+registerChangeHandler('product_placements', {
+  load: async (id) => {
+    const product = await ProductModel.getById(id);
+    if (!product) return null;
+    return { placements: await ProductPlacementModel.getByProductId(id) };
+  },
+  update: {
+    schema: setPlacementsSchema,
+    apply: (id, data, tx) => ProductPlacementModel.replace(id, data.placements, tx),
+  },
+});
+
+// Content
+
+// Posts use serial IDs; anything else can never match a row
+function parsePostId(id: string): number | null {
+  return /^\d+$/.test(id) ? parseInt(id) : null;
+}
+
+registerChangeHandler('post', {
+  load: async (id) => {
+    const postId = parsePostId(id);
+    if (postId === null) return null;
+    const post = await db.query.posts.findFirst({ where: and(eq(posts.id, postId), isNull(posts.deletedAt)) });
+    return post ?? null;
+  },
+  create: {
+    schema: createPostSchema,
+    apply: async (data, tx) => {
+      const [post] = await tx.insert(posts).values({
+        title: data.title,
+        slug: data.slug,
+        content: data.content,
+        coverImage: data.coverImage || null,
+        seoKeywords: data.seoKeywords || null,
+        published: data.published || false,
+        publishedAt: data.published ? new Date() : null,
+        publishAt: data.publishAt ?? null,
+        unpublishAt: data.unpublishAt ?? null,
+      }).returning();
+      return post;
+    },
+  },
+  update: {
+    schema: updatePostSchema,
+    apply: async (id, data, tx) => {
+      const postId = parsePostId(id);
+      if (postId === null) return null;
+      const [post] = await tx
+        .update(posts)
+        .set({
+          ...data,
+          updatedAt: new Date(),
+          publishedAt: data.published === true ? new Date() : undefined,
+        })
+        .where(and(eq(posts.id, postId), isNull(posts.deletedAt)))
+        .returning();
+      return post;
+    },
+  },
+  delete: {
+    apply: (id, tx) => moveToTrash('post', id, tx),
+  },
+});
+
+registerChangeHandler('youtube_video', {
+  load: async (id) => {
+    const [video] = await db.select().from(youtubeVideos).where(eq(youtubeVideos.id, id)).limit(1);
+    return video ?? null;
+  },
+  create: {
+    schema: createVideoSchema,
+    apply: async (data, tx) => {
+      const [video] = await tx.insert(youtubeVideos).values({
+        youtubeUrl: data.youtubeUrl,
+        displayOrder: data.displayOrder,
+        isActive: data.isActive,
+      }).returning();
+      return video;
+    },
+  },
+  update: {
+    schema: updateVideoSchema,
+    apply: async (id, data, tx) => {
+      const [video] = await tx
+        .update(youtubeVideos)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(youtubeVideos.id, id))
+        .returning();
+      return video;
+    },
+  },
+  delete: {
+    apply: async (id, tx) => {
+      const [video] = await tx.delete(youtubeVideos).where(eq(youtubeVideos.id, id)).returning();
+      return video;
+    },
+  },
+  afterApply: () => revalidateFrontend('youtube-videos'),
+});
+
+// Popups have no update route, so only create and delete can be proposed
+registerChangeHandler('home_popup', {
+  load: async (id) => {
+    const [popup] = await db.select().from(homePopups).where(eq(homePopups.id, id)).limit(1);
+    return popup ?? null;
+  },
+  create: {
+    schema: createPopupSchema,
+    apply: async (data, tx) => {
+      const [popup] = await tx.insert(homePopups).values({
+        imageUrl: data.imageUrl,
+        isActive: data.isActive,
+        link: data.link || null,
+        startDate: data.startDate ? new Date(data.startDate) : null,
+        endDate: data.endDate ? new Date(data.endDate) : null,
+      }).returning();
+      return popup;
+    },
+  },
+  delete: {
+    apply: async (id, tx) => {
+      const [popup] = await tx.delete(homePopups).where(eq(homePopups.id, id)).returning();
+      return popup;
+    },
+  },
+});
+
+// Settings are a single key/value document; the resource ID is always 'global'
+registerChangeHandler('global_settings', {
+  load: async () => {
+    const settings = await db.select().from(globalSettings);
+    return settings.reduce((acc, curr) => {
+      acc[curr.key] = curr.value;
+      return acc;
+    }, {} as Record<string, string>);
+  },
+  // Proposed as a list of key/value pairs; compared and resolved per key
+  fields: {
+    read: (payload) => {
+      const parsed = upsertSettingsSchema.safeParse(payload);
+      return parsed.success ? Object.fromEntries(parsed.data.settings.map((setting) => [setting.key, setting.value])) : {};
+    },
+    write: (fields) => ({
+      settings: Object.entries(fields).map(([key, value]) => ({ key, value })),
+    }),
+  },
+  update: {
+    schema: upsertSettingsSchema,
+    apply: async (_id, data, tx) => {
+      const results = [];
+      for (const setting of data.settings) {
+        const [result] = await tx.insert(globalSettings)
+          .values({ key: setting.key, value: setting.value })
+          .onConflictDoUpdate({
+            target: globalSettings.key,
+            set: { value: setting.value, updatedAt: new Date() },
+          })
+          .returning();
+        results.push(result);
+      }
+      return results;
+    },
+  },
+  afterApply: () => revalidateFrontend('global-settings'),
+});
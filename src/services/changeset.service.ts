@@ -0,0 +1,174 @@
+import { z } from 'zod';
+import type { DbExecutor } from '../db/index.js';
+import type { PendingChange } from '../db/schema.js';
+import {
+  applyChange,
+  detectConflicts,
+  parseChangeData,
+  resolveConflicts,
+  unsupportedChangeReason,
+  type ConflictResolution,
+  type FieldConflict,
+} from './approval.service.js';
+
+export interface ChangesetOperation {
+  ref?: string | null | undefined;
+  action: string;
+  resourceType: string;
+  resourceId?: string | null | undefined;
+  changeData?: unknown;
+}
+
+export interface OperationProblem {
+  // Zero-based position of the offending operation
+  operation: number;
+  error: string;
+  details?: unknown;
+}
+
+export interface OperationConflicts {
+  pendingChangeId: string;
+  sequence: number | null;
+  conflicts: FieldConflict[];
+}
+
+// Operations point at rows created earlier in the same changeset with "$ref:<name>"
+const REF_PATTERN = /^\$ref:(.+)$/;
+
+// Stand-in ID used to validate operations before the rows they reference exist
+const PLACEHOLDER_ID = '00000000-0000-0000-0000-000000000000';
+
+// Replace "$ref:<name>" placeholders anywhere in a value with the IDs they stand for
+export function resolveRefs<T>(value: T, refs: ReadonlyMap<string, string>): T {
+  if (typeof value === 'string') {
+    const match = value.match(REF_PATTERN);
+    if (!match) return value;
+    const id = refs.get(match[1]!);
+    if (!id) {
+      throw new Error(`Unknown reference: ${match[1]}`);
+    }
+    return id as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveRefs(item, refs)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveRefs(item, refs)])
+    ) as T;
+  }
+  return value;
+}
+
+// Names of every "$ref:<name>" placeholder used anywhere in a value
+function collectRefs(value: unknown, found: Set<string> = new Set()): Set<string> {
+  if (typeof value === 'string') {
+    const match = value.match(REF_PATTERN);
+    if (match) found.add(match[1]!);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, found));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach((item) => collectRefs(item, found));
+  }
+  return found;
+}
+
+// Check that operations are supported, valid and only reference creates that come before them
+export function checkOperations(operations: ChangesetOperation[]): OperationProblem | null {
+  const declared = new Map<string, string>();
+
+  for (const [index, op] of operations.entries()) {
+    const unsupported = unsupportedChangeReason(op.resourceType, op.action);
+    if (unsupported) {
+      return { operation: index, error: unsupported };
+    }
+
+    if (op.action !== 'create' && !op.resourceId) {
+      return { operation: index, error: 'Resource ID is required for update and delete' };
+    }
+
+    for (const name of collectRefs([op.resourceId, op.changeData])) {
+      if (!declared.has(name)) {
+        return { operation: index, error: `Reference "${name}" must name an earlier create operation` };
+      }
+    }
+
+    try {
+      parseChangeData(op.resourceType, op.action, resolveRefs(op.changeData, declared));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return { operation: index, error: 'Invalid change data', details: err.issues };
+      }
+      throw err;
+    }
+
+    if (op.ref) {
+      if (op.action !== 'create') {
+        return { operation: index, error: 'Only create operations can declare a ref' };
+      }
+      if (declared.has(op.ref)) {
+        return { operation: index, error: `Duplicate ref "${op.ref}"` };
+      }
+      declared.set(op.ref, PLACEHOLDER_ID);
+    }
+  }
+
+  return null;
+}
+
+// Conflicts for every operation that targets an existing row
+export async function detectChangesetConflicts(changes: PendingChange[]): Promise<OperationConflicts[]> {
+  const result: OperationConflicts[] = [];
+  for (const change of changes) {
+    // Rows created inside the changeset cannot have been edited by anyone else
+    if (change.resourceId && REF_PATTERN.test(change.resourceId)) continue;
+
+    const conflicts = await detectConflicts(change);
+    if (conflicts.length > 0) {
+      result.push({ pendingChangeId: change.id, sequence: change.sequence, conflicts });
+    }
+  }
+  return result;
+}
+
+// Conflicts the reviewer has not chosen a usable resolution for
+export function unresolvedChangesetConflicts(
+  changes: PendingChange[],
+  conflicts: OperationConflicts[],
+  resolutions: Record<string, Record<string, ConflictResolution>> = {}
+): OperationConflicts[] {
+  return conflicts
+    .map((entry) => {
+      const change = changes.find((c) => c.id === entry.pendingChangeId)!;
+      const { unresolved } = resolveConflicts(change, {}, entry.conflicts, resolutions[entry.pendingChangeId]);
+      return { ...entry, conflicts: unresolved };
+    })
+    .filter((entry) => entry.conflicts.length > 0);
+}
+
+// Apply every operation in sequence order inside the caller's transaction
+export async function applyChangeset(
+  changes: PendingChange[],
+  conflicts: OperationConflicts[],
+  resolutions: Record<string, Record<string, ConflictResolution>>,
+  tx: DbExecutor
+): Promise<void> {
+  const refs = new Map<string, string>();
+
+  for (const change of changes) {
+    const resolved: PendingChange = {
+      ...change,
+      resourceId: resolveRefs(change.resourceId, refs),
+      changeData: resolveRefs(change.changeData, refs),
+    };
+
+    const opConflicts = conflicts.find((entry) => entry.pendingChangeId === change.id)?.conflicts ?? [];
+    const validated = parseChangeData(resolved.resourceType, resolved.action, resolved.changeData);
+    const { data } = resolveConflicts(resolved, validated, opConflicts, resolutions[change.id]);
+
+    const applied = await applyChange(resolved, data, tx);
+    if (change.ref) {
+      refs.set(change.ref, String((applied as { id: string | number }).id));
+    }
+  }
+}
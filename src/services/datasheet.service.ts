@@ -0,0 +1,259 @@
+import { createHash } from 'crypto';
+import axios from 'axios';
+import { and, eq, isNull } from 'drizzle-orm';
+import { PutObjectCommand } from '@aws-sdk/client-s3';
+import { db } from '../db/index.js';
+import { productSpecifications } from '../db/schema.js';
+import { config } from '../config/config.js';
+import { ProductModel, type Product } from '../models/product.model.js';
+import logger from '../utils/logger.js';
+import { extractTiptapText } from '../utils/tiptap.js';
+import { createPdf, exportFileName, exportTables, pdfBuffer, writePdfTables, type ExportTable } from './spec-export.service.js';
+import s3Client, { isPublicUrl, publicUrl } from './s3Client.js';
+
+// Branded product datasheets, rendered from the product and its active specification tables and
+// stored in S3. A sweep re-renders any product edited since its datasheet was made; products.pdfUrl,
+// when set by hand, still takes precedence on the site.
+
+// Bump when the layout changes so every datasheet is rendered again
+const LAYOUT_VERSION = 1;
+
+const IMAGE_TIMEOUT_MS = 10 * 1000;
+const IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+
+interface DatasheetContent {
+  name: string;
+  shortDescription: string | null;
+  description: string | null;
+  coverImage: string | null;
+  features: string[];
+  tables: ExportTable[];
+}
+
+// Descriptions may be plain text, HTML from the editor or a Tiptap document
+function plainText(text: string | null): string | null {
+  if (!text?.trim()) return null;
+
+  if (text.trim().startsWith('{')) {
+    try {
+      return extractTiptapText(JSON.parse(text)) || null;
+    } catch {
+      // Not JSON after all
+    }
+  }
+
+  if (!/<[a-z/][^>]*>/i.test(text)) return text.trim();
+
+  return text
+    .replace(/<\s*(br|\/p|\/div|\/li|\/h[1-6])\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim() || null;
+}
+
+async function loadContent(product: Product): Promise<DatasheetContent> {
+  const specs = await db
+    .select()
+    .from(productSpecifications)
+    .where(and(
+      eq(productSpecifications.productId, product.id),
+      eq(productSpecifications.isActive, true),
+      isNull(productSpecifications.deletedAt)
+    ))
+    .orderBy(productSpecifications.displayOrder);
+
+  return {
+    name: product.name,
+    shortDescription: plainText(product.shortDescription),
+    description: plainText(product.description),
+    coverImage: product.coverImage || product.images?.[0] || null,
+    features: (product.features ?? []).map((feature) => feature.trim()).filter(Boolean),
+    tables: exportTables(specs),
+  };
+}
+
+function contentHash(content: DatasheetContent): string {
+  const { brandName, brandColor, website } = config.datasheets;
+  return createHash('sha256')
+    .update(JSON.stringify({ version: LAYOUT_VERSION, brandName, brandColor, website, content }))
+    .digest('hex');
+}
+
+// The PDF renderer takes JPEG and PNG only; anything else (or a failed download) is left out.
+// Only our own uploads are fetched, size-capped and without following redirects, so a cover
+// image URL can't point the server at internal addresses or make it download something huge.
+async function fetchImage(url: string): Promise<Buffer | null> {
+  if (!isPublicUrl(url)) {
+    logger.warn({ url }, 'Datasheet image is not an uploaded file, skipping');
+    return null;
+  }
+
+  try {
+    const response = await axios.get<ArrayBuffer>(url, {
+      responseType: 'arraybuffer',
+      timeout: IMAGE_TIMEOUT_MS,
+      maxContentLength: IMAGE_MAX_BYTES,
+      maxRedirects: 0,
+    });
+    const image = Buffer.from(response.data);
+    const isJpeg = image[0] === 0xff && image[1] === 0xd8;
+    const isPng = image.subarray(0, 4).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+    return isJpeg || isPng ? image : null;
+  } catch (error) {
+    logger.warn({ err: error, url }, 'Datasheet image could not be fetched');
+    return null;
+  }
+}
+
+export async function renderDatasheet(content: DatasheetContent): Promise<Buffer> {
+  const { brandName, brandColor, website } = config.datasheets;
+  const doc = createPdf(`${content.name} - Datasheet`);
+  const output = pdfBuffer(doc);
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  // Brand band across the top of the first page
+  doc.rect(0, 0, doc.page.width, 56).fill(brandColor);
+  doc.font('Helvetica-Bold').fontSize(18).fillColor('#FFFFFF').text(brandName, left, 19, { width: width / 2 });
+  doc.font('Helvetica').fontSize(10).fillColor('#FFFFFF').text('Product Datasheet', left + width / 2, 24, { width: width / 2, align: 'right' });
+
+  doc.font('Helvetica-Bold').fontSize(20).fillColor('#222222').text(content.name, left, 80, { width });
+  if (content.shortDescription) {
+    doc.moveDown(0.3).font('Helvetica').fontSize(11).fillColor('#555555').text(content.shortDescription, { width });
+  }
+
+  const image = content.coverImage ? await fetchImage(content.coverImage) : null;
+  if (image) {
+    doc.moveDown(0.8);
+    const top = doc.y;
+    try {
+      doc.image(image, left, top, { fit: [width, 220], align: 'center' });
+      doc.y = top + 220;
+    } catch (error) {
+      logger.warn({ err: error }, 'Datasheet image could not be drawn');
+      doc.y = top;
+    }
+  }
+
+  const heading = (text: string) => {
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 80) doc.addPage();
+    doc.moveDown(0.8).font('Helvetica-Bold').fontSize(13).fillColor(brandColor).text(text, left, doc.y, { width });
+    doc.moveDown(0.3);
+  };
+
+  if (content.description) {
+    heading('Overview');
+    doc.font('Helvetica').fontSize(10).fillColor('#222222').text(content.description, left, doc.y, { width, align: 'justify' });
+  }
+
+  if (content.features.length > 0) {
+    heading('Features');
+    doc.font('Helvetica').fontSize(10).fillColor('#222222').list(content.features, left, doc.y, { width, bulletRadius: 2 });
+  }
+
+  if (content.tables.length > 0) {
+    heading('Specifications');
+    writePdfTables(doc, content.tables, true);
+  }
+
+  // Footer on every page, drawn into the bottom margin once the page count is known
+  const generatedOn = new Date().toISOString().slice(0, 10);
+  const range = doc.bufferedPageRange();
+  for (let page = range.start; page < range.start + range.count; page++) {
+    doc.switchToPage(page);
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    const y = doc.page.height - 28;
+    doc.moveTo(left, y - 6).lineTo(left + width, y - 6).lineWidth(0.5).strokeColor('#CCCCCC').stroke();
+    doc.font('Helvetica').fontSize(8).fillColor('#777777')
+      .text(`${brandName} · ${website} · ${generatedOn}`, left, y, { width: width * 0.75, lineBreak: false });
+    doc.text(`Page ${page - range.start + 1} of ${range.count}`, left + width * 0.75, y, { width: width * 0.25, align: 'right', lineBreak: false });
+    doc.page.margins.bottom = bottomMargin;
+  }
+
+  doc.end();
+  return await output;
+}
+
+// Render and upload a product's datasheet unless nothing it is made from has changed since the
+// last one (force re-renders anyway). Resolves to the datasheet URL, or null if the product is gone.
+export async function generateDatasheet(productId: string, force = false): Promise<string | null> {
+  const product = await ProductModel.getById(productId);
+  if (!product) return null;
+
+  const content = await loadContent(product);
+  const hash = contentHash(content);
+  const generatedAt = new Date();
+
+  if (!force && product.datasheetUrl && product.datasheetHash === hash) {
+    await ProductModel.setDatasheet(product.id, { datasheetGeneratedAt: generatedAt });
+    return product.datasheetUrl;
+  }
+
+  const pdf = await renderDatasheet(content);
+
+  // The hash in the key gives every version its own URL, so caches never serve a stale sheet.
+  // Earlier versions are kept: a restored revision may point back at one.
+  const key = `datasheets/${exportFileName(product.slug, 'pdf').replace(/\.pdf$/, '')}-${hash.slice(0, 12)}.pdf`;
+  await s3Client.send(new PutObjectCommand({
+    Bucket: process.env.AWS_S3_BUCKET_NAME,
+    Key: key,
+    Body: pdf,
+    ContentType: 'application/pdf',
+    ContentDisposition: `inline; filename="${exportFileName(product.slug, 'pdf')}"`,
+  }));
+
+  const datasheetUrl = publicUrl(key);
+  await ProductModel.setDatasheet(product.id, { datasheetUrl, datasheetHash: hash, datasheetGeneratedAt: generatedAt });
+  logger.info({ productId: product.id, datasheetUrl }, 'Datasheet generated');
+  return datasheetUrl;
+}
+
+let running = false;
+
+// Work through a batch of products changed since their datasheet was rendered. A product that
+// fails is marked as attempted so it does not block the queue; its next edit (or a manual
+// regenerate) tries again.
+export async function refreshDatasheets(): Promise<number> {
+  if (running) return 0;
+  running = true;
+
+  try {
+    const ids = await ProductModel.getStaleDatasheetIds(config.datasheets.batchSize);
+    let generated = 0;
+
+    for (const id of ids) {
+      try {
+        await generateDatasheet(id);
+        generated++;
+      } catch (error) {
+        logger.error({ err: error, productId: id }, 'Datasheet generation failed');
+        await ProductModel.setDatasheet(id, { datasheetGeneratedAt: new Date() });
+      }
+    }
+
+    return generated;
+  } finally {
+    running = false;
+  }
+}
+
+export function scheduleDatasheets(): NodeJS.Timeout {
+  const run = async () => {
+    try {
+      await refreshDatasheets();
+    } catch (error) {
+      logger.error({ err: error }, 'Datasheet refresh failed');
+    }
+  };
+
+  return setInterval(run, config.datasheets.intervalMs);
+}
@@ -0,0 +1,185 @@
+import { ProductModel, type Product } from '../models/product.model.js';
+import { extractSpecValues, normalizeFacetKey } from './spec-search.service.js';
+import { convertMeasurement, parseMeasurement, splitLabelUnit, type Measurement } from '../utils/units.js';
+
+export interface ComparedProduct {
+  id: string;
+  name: string;
+  slug: string;
+  shortDescription: string | null;
+  coverImage: string | null;
+  images: string[] | null;
+  pdfUrl: string | null;
+  price: string | null;
+  priceMode: Product['priceMode'];
+  priceAmount: number | null;
+  priceCurrency: string;
+  priceUnit: string | null;
+}
+
+export interface ComparisonCell {
+  // As written in the specification; several values are joined with ", "
+  value: string;
+  // Converted to the row's unit when every product's value could be read as a measurement
+  normalized: Measurement | null;
+}
+
+export interface ComparisonRow {
+  key: string;
+  // Header label as the first product to have it wrote it, without a unit suffix
+  label: string;
+  // Title of the specification table the row was first found in
+  section: string;
+  unit: string | null;
+  // One per product, in the order of `products`; null when a product does not specify it
+  values: (ComparisonCell | null)[];
+  differs: boolean;
+}
+
+export interface FeatureRow {
+  feature: string;
+  values: boolean[];
+}
+
+export interface ProductComparison {
+  products: ComparedProduct[];
+  specifications: ComparisonRow[];
+  features: FeatureRow[];
+}
+
+interface SpecEntry {
+  label: string;
+  section: string;
+  unit: string | null;
+  values: string[];
+}
+
+// Spec table values of one product by row key. A unit in the header ("Diameter (mm)") is
+// taken off the key so it matches "Diameter" elsewhere, and is applied to bare numbers.
+function specEntries(product: Product): Map<string, SpecEntry> {
+  const entries = new Map<string, SpecEntry>();
+
+  for (const spec of product.specifications ?? []) {
+    for (const extracted of extractSpecValues(spec.content)) {
+      const { label, unit } = splitLabelUnit(extracted.label);
+      const key = normalizeFacetKey(label);
+
+      let entry = entries.get(key);
+      if (!entry) {
+        entry = { label, section: spec.title, unit, values: [] };
+        entries.set(key, entry);
+      }
+      if (!entry.values.includes(extracted.value)) entry.values.push(extracted.value);
+    }
+  }
+
+  return entries;
+}
+
+// Measurements for one row, all in the first product's unit; null unless every value reads as one
+function normalizeRow(values: ({ value: string; unit: string | null } | null)[]): (Measurement | null)[] | null {
+  const measurements: (Measurement | null)[] = [];
+  let target: string | null = null;
+
+  for (const cell of values) {
+    if (!cell) {
+      measurements.push(null);
+      continue;
+    }
+    const measurement = parseMeasurement(cell.value, cell.unit);
+    if (!measurement) return null;
+
+    target ??= measurement.unit;
+    const converted = convertMeasurement(measurement, target);
+    if (!converted) return null;
+    measurements.push(converted);
+  }
+
+  return target ? measurements : null;
+}
+
+function cellsDiffer(cells: (ComparisonCell | null)[]): boolean {
+  const signatures = new Set(cells.map((cell) => {
+    if (!cell) return '';
+    if (cell.normalized) return `${cell.normalized.min}..${cell.normalized.max}`;
+    return cell.value.toLowerCase().replace(/\s+/g, ' ');
+  }));
+  return signatures.size > 1;
+}
+
+// Side-by-side comparison of live products, in the order the ids were given. Specification
+// rows are matched across products by header label. Resolves to null if any id is not a live product.
+export async function compareProducts(ids: string[]): Promise<ProductComparison | null> {
+  const found = await ProductModel.getPublishedByIds(ids);
+  const byId = new Map(found.map((product) => [product.id, product]));
+  const ordered = ids.map((id) => byId.get(id));
+  if (ordered.some((product) => !product)) {
+    return null;
+  }
+  const list = ordered as Product[];
+
+  const entries = list.map(specEntries);
+
+  // Rows in the order they first appear, going through the products left to right
+  const keys: string[] = [];
+  for (const productEntries of entries) {
+    for (const key of productEntries.keys()) {
+      if (!keys.includes(key)) keys.push(key);
+    }
+  }
+
+  const specifications = keys.map((key): ComparisonRow => {
+    const raw = entries.map((productEntries) => {
+      const entry = productEntries.get(key);
+      return entry ? { value: entry.values.join(', '), unit: entry.unit } : null;
+    });
+    // Several values for one product (e.g. one per model) are shown as written
+    const single = entries.every((productEntries) => (productEntries.get(key)?.values.length ?? 0) <= 1);
+    const normalized = single ? normalizeRow(raw) : null;
+
+    const values = raw.map((cell, index) => cell ? { value: cell.value, normalized: normalized?.[index] ?? null } : null);
+    const first = entries.find((productEntries) => productEntries.has(key))!.get(key)!;
+
+    return {
+      key,
+      label: first.label,
+      section: first.section,
+      unit: normalized?.find((measurement) => measurement)?.unit ?? null,
+      values,
+      differs: cellsDiffer(values),
+    };
+  });
+
+  // Features are free text; match them ignoring case and spacing
+  const featureKey = (feature: string) => feature.toLowerCase().replace(/\s+/g, ' ').trim();
+  const featureSets = list.map((product) => new Set((product.features ?? []).map(featureKey)));
+  const features: FeatureRow[] = [];
+  const seenFeatures = new Set<string>();
+  for (const product of list) {
+    for (const feature of product.features ?? []) {
+      const key = featureKey(feature);
+      if (!key || seenFeatures.has(key)) continue;
+      seenFeatures.add(key);
+      features.push({ feature: feature.trim(), values: featureSets.map((set) => set.has(key)) });
+    }
+  }
+
+  return {
+    products: list.map((product) => ({
+      id: product.id,
+      name: product.name,
+      slug: product.slug,
+      shortDescription: product.shortDescription,
+      coverImage: product.coverImage,
+      images: product.images,
+      pdfUrl: product.pdfUrl || product.datasheetUrl,
+      price: product.price,
+      priceMode: product.priceMode,
+      priceAmount: product.priceAmount,
+      priceCurrency: product.priceCurrency,
+      priceUnit: product.priceUnit,
+    })),
+    specifications,
+    features,
+  };
+}
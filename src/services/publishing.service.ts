@@ -0,0 +1,98 @@
+import { and, isNotNull, isNull, lte, sql } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { categories, subcategories, products, posts } from '../db/schema.js';
+import { config } from '../config/config.js';
+import { ActionType } from '../types/auth.js';
+import logger from '../utils/logger.js';
+import { recordRevision, type RevisionedResource } from './revision.service.js';
+import { revalidateFrontend } from './revalidation.service.js';
+
+// Tables with a publishing window, and the frontend cache tag to revalidate when one flips
+const scheduledTables = [
+  { resourceType: 'category', table: categories, tag: 'categories' },
+  { resourceType: 'subcategory', table: subcategories, tag: 'subcategories' },
+  { resourceType: 'product', table: products, tag: 'products' },
+] as const;
+
+export interface PublishingRun {
+  published: { resourceType: RevisionedResource; id: string | number }[];
+  unpublished: { resourceType: RevisionedResource; id: string | number }[];
+}
+
+// Flip every row whose publish or unpublish time has passed, then revalidate the affected caches.
+// Each boundary is cleared once it has fired, so a later manual toggle is not overridden.
+export async function runPublishingSchedule(now = new Date()): Promise<PublishingRun> {
+  const run: PublishingRun = { published: [], unpublished: [] };
+  const tags = new Set<string>();
+
+  const flipped = await db.transaction(async (tx) => {
+    const rows: { resourceType: RevisionedResource; row: { id: string | number }; published: boolean }[] = [];
+
+    for (const { resourceType, table, tag } of scheduledTables) {
+      const published = await tx
+        .update(table)
+        .set({ isActive: true, publishAt: null, updatedAt: now })
+        .where(and(isNotNull(table.publishAt), lte(table.publishAt, now), isNull(table.deletedAt)))
+        .returning();
+      const unpublished = await tx
+        .update(table)
+        .set({ isActive: false, unpublishAt: null, updatedAt: now })
+        .where(and(isNotNull(table.unpublishAt), lte(table.unpublishAt, now), isNull(table.deletedAt)))
+        .returning();
+
+      rows.push(...published.map((row) => ({ resourceType, row, published: true })));
+      rows.push(...unpublished.map((row) => ({ resourceType, row, published: false })));
+      if (published.length > 0 || unpublished.length > 0) tags.add(tag);
+    }
+
+    // Posts publish through their own flag and keep the scheduled time as the publish date
+    const publishedPosts = await tx
+      .update(posts)
+      .set({ published: true, publishedAt: sql`${posts.publishAt}`, publishAt: null, updatedAt: now })
+      .where(and(isNotNull(posts.publishAt), lte(posts.publishAt, now), isNull(posts.deletedAt)))
+      .returning();
+    const unpublishedPosts = await tx
+      .update(posts)
+      .set({ published: false, unpublishAt: null, updatedAt: now })
+      .where(and(isNotNull(posts.unpublishAt), lte(posts.unpublishAt, now), isNull(posts.deletedAt)))
+      .returning();
+
+    rows.push(...publishedPosts.map((row) => ({ resourceType: 'post' as const, row, published: true })));
+    rows.push(...unpublishedPosts.map((row) => ({ resourceType: 'post' as const, row, published: false })));
+    if (publishedPosts.length > 0 || unpublishedPosts.length > 0) tags.add('posts');
+
+    // The scheduler has no user, so these revisions have no author
+    for (const { resourceType, row } of rows) {
+      await recordRevision({ resourceType, resourceId: row.id, action: ActionType.UPDATE, snapshot: row }, tx);
+    }
+
+    return rows;
+  });
+
+  for (const { resourceType, row, published } of flipped) {
+    (published ? run.published : run.unpublished).push({ resourceType, id: row.id });
+  }
+
+  for (const tag of tags) {
+    await revalidateFrontend(tag);
+  }
+
+  return run;
+}
+
+// Check the schedule on an interval for the lifetime of the process
+export function schedulePublishing(): NodeJS.Timeout {
+  const run = async () => {
+    try {
+      const result = await runPublishingSchedule();
+      if (result.published.length > 0 || result.unpublished.length > 0) {
+        logger.info(result, 'Applied scheduled publishing');
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Scheduled publishing failed');
+    }
+  };
+
+  void run();
+  return setInterval(run, config.publishing.intervalMs);
+}
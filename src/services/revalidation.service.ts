@@ -0,0 +1,16 @@
+import axios from 'axios';
+
+// Revalidate the frontend's cached data for a tag (e.g. 'global-settings', 'youtube-videos')
+export async function revalidateFrontend(tag: string) {
+  try {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const secret = process.env.REVALIDATION_SECRET || 'gogreen_revalidation_secret';
+    
+    await axios.post(`${frontendUrl}/api/revalidate`, null, {
+      params: { tag, secret }
+    });
+    console.log(`Revalidated tag: ${tag}`);
+  } catch (error) {
+    console.error('Revalidation failed:', error);
+  }
+}
@@ -0,0 +1,127 @@
+import { eq, getTableColumns, type Column } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db/index.js';
+import { products, categories, subcategories, productSpecifications, productVariants, posts } from '../db/schema.js';
+import { RevisionModel } from '../models/revision.model.js';
+import { ActionType } from '../types/auth.js';
+import { createSpecificationSchema } from '../types/specification.js';
+
+// Resource types whose writes are kept as revisions, and the table each lives in
+const revisionedTables = {
+  product: products,
+  category: categories,
+  subcategory: subcategories,
+  product_specification: productSpecifications,
+  product_variant: productVariants,
+  post: posts,
+};
+
+export type RevisionedResource = keyof typeof revisionedTables;
+
+export interface RecordRevisionData {
+  resourceType: RevisionedResource;
+  resourceId: string | number;
+  action: ActionType.CREATE | ActionType.UPDATE | ActionType.DELETE;
+  userId?: string | undefined;
+  // The row as written; loaded from the table when omitted
+  snapshot?: object | null | undefined;
+  restoredFrom?: number | undefined;
+}
+
+export function isRevisioned(resourceType: string): resourceType is RevisionedResource {
+  return resourceType in revisionedTables;
+}
+
+type RevisionedTable = typeof revisionedTables[RevisionedResource];
+
+function tableFor(resourceType: RevisionedResource): RevisionedTable {
+  return revisionedTables[resourceType];
+}
+
+// Posts use serial IDs, everything else UUIDs
+function parseId(resourceType: RevisionedResource, resourceId: string | number): string | number | null {
+  if (resourceType !== 'post') return String(resourceId);
+  return /^\d+$/.test(String(resourceId)) ? parseInt(String(resourceId)) : null;
+}
+
+// The raw row, without relations, so a snapshot maps one-to-one onto the table's columns
+export async function loadRow(
+  resourceType: RevisionedResource,
+  resourceId: string | number,
+  tx: DbExecutor = db
+): Promise<Record<string, unknown> | null> {
+  const id = parseId(resourceType, resourceId);
+  if (id === null) return null;
+
+  const table = tableFor(resourceType);
+  const [row] = await tx.select().from(table).where(eq(table.id, id)).limit(1);
+  return (row as Record<string, unknown> | undefined) ?? null;
+}
+
+// Append a revision. Deletes must be recorded before the row is removed.
+export async function recordRevision(data: RecordRevisionData, tx: DbExecutor = db) {
+  const snapshot = data.snapshot ?? await loadRow(data.resourceType, data.resourceId, tx);
+  if (!snapshot) {
+    return null;
+  }
+
+  return await RevisionModel.create({
+    resourceType: data.resourceType,
+    resourceId: String(data.resourceId),
+    action: data.action,
+    snapshot,
+    userId: data.userId,
+    restoredFrom: data.restoredFrom,
+  }, tx);
+}
+
+// Turn a stored snapshot back into column values; JSON has flattened timestamps to strings
+function snapshotToValues(resourceType: RevisionedResource, snapshot: Record<string, unknown>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [key, column] of Object.entries(getTableColumns(tableFor(resourceType)) as Record<string, Column>)) {
+    if (!(key in snapshot)) continue;
+    const value = snapshot[key];
+    values[key] = column.columnType === 'PgTimestamp' && typeof value === 'string' ? new Date(value) : value;
+  }
+  return values;
+}
+
+// Snapshots are written back as they are, so check them against today's rules first: a table
+// saved before grid validation may have merges that no longer add up. Null when it can be restored.
+export function snapshotProblems(resourceType: RevisionedResource, snapshot: Record<string, unknown>): string[] | null {
+  if (resourceType !== 'product_specification') return null;
+
+  const result = createSpecificationSchema.safeParse({ ...snapshot, displayOrder: snapshot.displayOrder ?? undefined });
+  return result.success ? null : result.error.issues.map((issue) => issue.message);
+}
+
+// Write a snapshot back over the live row, re-creating the row if it has since been deleted.
+// deletedAt is left as it is: taking a row out of the trash (with its children) is the trash restore's job.
+export async function restoreSnapshot(
+  resourceType: RevisionedResource,
+  resourceId: string | number,
+  snapshot: Record<string, unknown>,
+  tx: DbExecutor
+): Promise<{ row: Record<string, unknown>; recreated: boolean }> {
+  const id = parseId(resourceType, resourceId);
+  if (id === null) {
+    throw new Error(`Invalid ${resourceType} ID: ${resourceId}`);
+  }
+
+  const table = tableFor(resourceType);
+  const { id: _id, createdAt, deletedAt: _deletedAt, ...fields } = snapshotToValues(resourceType, snapshot);
+
+  const [updated] = await tx
+    .update(table)
+    .set({ ...fields, updatedAt: new Date() })
+    .where(eq(table.id, id))
+    .returning();
+  if (updated) {
+    return { row: updated as Record<string, unknown>, recreated: false };
+  }
+
+  const inserted = await tx
+    .insert(table)
+    .values({ ...fields, id, createdAt: createdAt as Date | undefined, updatedAt: new Date() })
+    .returning() as Record<string, unknown>[];
+  return { row: inserted[0]!, recreated: true };
+}
@@ -17,4 +17,26 @@ const s3Client = new S3Client({
   },
 });
 
+// Public URL of an uploaded object: through CloudFront when configured, otherwise straight from S3
+export function publicUrl(key: string): string {
+  if (process.env.CLOUDFRONT_DOMAIN) {
+    return `https://${process.env.CLOUDFRONT_DOMAIN}/${key}`;
+  }
+  return `https://${process.env.AWS_S3_BUCKET_NAME}.s3.${region}.amazonaws.com/${key}`;
+}
+
+// Whether a URL points at our own uploads, on CloudFront or the bucket itself
+export function isPublicUrl(url: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (error) {
+    return false;
+  }
+
+  const hosts = [`${process.env.AWS_S3_BUCKET_NAME}.s3.${region}.amazonaws.com`];
+  if (process.env.CLOUDFRONT_DOMAIN) hosts.push(process.env.CLOUDFRONT_DOMAIN);
+  return parsed.protocol === 'https:' && hosts.includes(parsed.hostname);
+}
+
 export default s3Client;
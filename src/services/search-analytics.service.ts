@@ -0,0 +1,28 @@
+import type { Request } from 'express';
+import { SearchAnalyticsModel, type SearchSource } from '../models/search-analytics.model.js';
+import { anonymizeVisitor } from '../utils/visitor.js';
+import logger from '../utils/logger.js';
+
+// Log a public search and return its id, which the client sends back with POST /api/search/click.
+// Analytics must never fail the search itself, so errors are only logged.
+export async function recordSearch(
+  req: Request,
+  source: SearchSource,
+  query: string,
+  resultCount: number,
+  startedAt: number
+): Promise<string | null> {
+  try {
+    const entry = await SearchAnalyticsModel.logQuery({
+      source,
+      query,
+      resultCount,
+      latencyMs: performance.now() - startedAt,
+      visitorId: anonymizeVisitor(req),
+    });
+    return entry.id;
+  } catch (error) {
+    logger.error({ err: error, query }, 'Failed to record search');
+    return null;
+  }
+}
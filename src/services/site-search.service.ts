@@ -0,0 +1,150 @@
+import { and, desc, eq, isNull, sql, type SQL } from 'drizzle-orm';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import { db } from '../db/index.js';
+import { categories, subcategories, products, posts } from '../db/schema.js';
+import { withinSchedule } from '../utils/schedule.js';
+import { escapeLike } from '../utils/like.js';
+import { extractTiptapText } from '../utils/tiptap.js';
+import { highlight, searchTerms, snippet } from '../utils/highlight.js';
+
+export const searchResultTypes = ['product', 'category', 'subcategory', 'post'] as const;
+
+export type SearchResultType = typeof searchResultTypes[number];
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  slug: string;
+  image: string | null;
+  // Relevance; comparable across types
+  score: number;
+  // HTML-escaped, with matches wrapped in <mark>
+  highlightedTitle: string;
+  snippet: string;
+}
+
+interface SearchSource {
+  type: SearchResultType;
+  table: PgTable;
+  id: SQL;
+  title: SQL;
+  slug: SQL;
+  image: SQL;
+  // Searchable body text
+  body: SQL;
+  // Only what the public site would show
+  visible: SQL | undefined;
+}
+
+// Text of a post's Tiptap document, for matching in SQL; snippets use extractTiptapText instead
+const postText = sql`coalesce((select string_agg(node #>> '{}', ' ') from jsonb_path_query(${posts.content}, 'strict $.**.text') as node), '')`;
+
+const sources: SearchSource[] = [
+  {
+    type: 'product',
+    table: products,
+    id: sql`${products.id}::text`,
+    title: sql`${products.name}`,
+    slug: sql`${products.slug}`,
+    image: sql`${products.coverImage}`,
+    body: sql`coalesce(${products.shortDescription}, '') || ' ' || coalesce(${products.description}, '')`,
+    visible: and(isNull(products.deletedAt), eq(products.isActive, true), withinSchedule(products)),
+  },
+  {
+    type: 'category',
+    table: categories,
+    id: sql`${categories.id}::text`,
+    title: sql`${categories.name}`,
+    slug: sql`${categories.slug}`,
+    image: sql`${categories.image}`,
+    body: sql`coalesce(${categories.description}, '')`,
+    visible: and(isNull(categories.deletedAt), eq(categories.isActive, true), withinSchedule(categories)),
+  },
+  {
+    type: 'subcategory',
+    table: subcategories,
+    id: sql`${subcategories.id}::text`,
+    title: sql`${subcategories.name}`,
+    slug: sql`${subcategories.slug}`,
+    image: sql`${subcategories.image}`,
+    body: sql`coalesce(${subcategories.description}, '')`,
+    visible: and(isNull(subcategories.deletedAt), eq(subcategories.isActive, true), withinSchedule(subcategories)),
+  },
+  {
+    type: 'post',
+    table: posts,
+    id: sql`${posts.id}::text`,
+    title: sql`${posts.title}`,
+    slug: sql`${posts.slug}`,
+    image: sql`${posts.coverImage}`,
+    body: postText,
+    visible: and(isNull(posts.deletedAt), eq(posts.published, true), withinSchedule(posts)),
+  },
+];
+
+async function searchSource(source: SearchSource, query: string, limit: number) {
+  const literal = escapeLike(query);
+  const pattern = `%${literal}%`;
+  const document = sql`setweight(to_tsvector('english', ${source.title}), 'A') || setweight(to_tsvector('english', ${source.body}), 'B')`;
+  const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+
+  // Full-text rank, boosted for title hits, plus trigram similarity to tolerate typos
+  const score = sql<number>`(
+    ts_rank(${document}, ${tsQuery}) * 10 +
+    CASE WHEN ${source.title} ILIKE ${literal} THEN 10 ELSE 0 END +
+    CASE WHEN ${source.title} ILIKE ${literal + '%'} THEN 5 ELSE 0 END +
+    CASE WHEN ${source.title} ILIKE ${pattern} THEN 2 ELSE 0 END +
+    similarity(${source.title}, ${query}) * 3
+  )::float8`;
+
+  const match = sql`(
+    ${document} @@ ${tsQuery} OR
+    ${source.title} ILIKE ${pattern} OR
+    ${source.body} ILIKE ${pattern} OR
+    similarity(${source.title}, ${query}) > 0.3
+  )`;
+
+  return await db
+    .select({
+      id: sql<string>`${source.id}`,
+      title: sql<string>`${source.title}`,
+      slug: sql<string>`${source.slug}`,
+      image: sql<string | null>`${source.image}`,
+      body: source.type === 'post' ? sql<unknown>`${posts.content}` : sql<unknown>`${source.body}`,
+      score,
+    })
+    .from(source.table)
+    .where(and(source.visible, match))
+    .orderBy(desc(score))
+    .limit(limit);
+}
+
+// Search products, categories, subcategories and published posts, ranked together
+export async function searchSite(
+  query: string,
+  options: { types?: SearchResultType[] | undefined; limit: number }
+): Promise<SearchResult[]> {
+  const terms = searchTerms(query);
+  const selected = sources.filter((source) => !options.types || options.types.includes(source.type));
+
+  const results: SearchResult[] = [];
+  for (const source of selected) {
+    const rows = await searchSource(source, query, options.limit);
+    for (const row of rows) {
+      const body = source.type === 'post' ? extractTiptapText(row.body) : String(row.body ?? '');
+      results.push({
+        type: source.type,
+        id: row.id,
+        title: row.title,
+        slug: row.slug,
+        image: row.image,
+        score: Number(row.score),
+        highlightedTitle: highlight(row.title, terms),
+        snippet: snippet(body, terms),
+      });
+    }
+  }
+
+  return results.sort((a, b) => b.score - a.score).slice(0, options.limit);
+}
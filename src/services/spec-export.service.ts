@@ -0,0 +1,388 @@
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { TableDataSchema, type SpecExportFormat, type TableCell, type TableData } from '../types/specification.js';
+import { cellText, layoutRows, type PlacedCell } from '../utils/table-grid.js';
+import { escapeHtml } from '../utils/highlight.js';
+
+// Rendering specification tables as files. Merged cells keep their spans in XLSX, HTML and
+// PDF; CSV writes a merged value once in its top-left cell, which is how the importer reads it back.
+
+export interface ExportTable {
+  title: string;
+  content: TableData;
+}
+
+export interface ExportDocument {
+  title: string;
+  tables: ExportTable[];
+}
+
+export interface ExportedFile {
+  buffer: Buffer;
+  contentType: string;
+  fileName: string;
+}
+
+// A table laid out on one grid: header rows first, then the body
+interface PlacedTable {
+  cells: (PlacedCell & { header: boolean })[];
+  headerRows: number;
+  rowCount: number;
+  columnCount: number;
+}
+
+const contentTypes: Record<SpecExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+// Table specifications only; image specifications have nothing to tabulate
+export function exportTables(specs: { title: string; content: unknown }[]): ExportTable[] {
+  return specs.flatMap((spec) => {
+    const table = TableDataSchema.safeParse(spec.content);
+    return table.success ? [{ title: spec.title, content: table.data }] : [];
+  });
+}
+
+function placeTable(content: TableData): PlacedTable {
+  const header = layoutRows(content.headers);
+  const body = layoutRows(content.rows);
+  const headerRows = content.headers.length;
+  const rowCount = headerRows + content.rows.length;
+
+  // Spans are cut at the end of their section so they cannot run off the table
+  const cells = [
+    ...header.cells.map((placed) => ({ ...placed, rowSpan: Math.min(placed.rowSpan, headerRows - placed.row), header: true })),
+    ...body.cells.map((placed) => ({
+      ...placed,
+      row: placed.row + headerRows,
+      rowSpan: Math.min(placed.rowSpan, content.rows.length - placed.row),
+      header: Boolean(placed.cell.isHeader),
+    })),
+  ];
+
+  return { cells, headerRows, rowCount, columnCount: Math.max(header.columnCount, body.columnCount) };
+}
+
+// Checkmarks as the importer reads them
+function exportValue(cell: TableCell): string | number {
+  if (typeof cell.value === 'boolean') return cell.value ? '✓' : '✗';
+  return typeof cell.value === 'number' ? cell.value : cell.value.trim();
+}
+
+// "#1a7f37" or "#ccc" as six hex digits; null for named and other colours
+function hexColor(color: string | undefined): string | null {
+  const match = color?.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+  const hex = match[1]!;
+  return (hex.length === 3 ? hex.replace(/./g, '$&$&') : hex).toUpperCase();
+}
+
+export function exportFileName(title: string, format: SpecExportFormat): string {
+  const base = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 80);
+  return `${base || 'specifications'}.${format}`;
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(document: ExportDocument): Buffer {
+  const lines: string[] = [];
+
+  document.tables.forEach((table, index) => {
+    const placed = placeTable(table.content);
+    const grid = Array.from({ length: placed.rowCount }, () => Array<string | number>(placed.columnCount).fill(''));
+    for (const cell of placed.cells) {
+      grid[cell.row]![cell.column] = exportValue(cell.cell);
+    }
+
+    // Several tables share one file, each under its title and separated by a blank line
+    if (document.tables.length > 1) {
+      if (index > 0) lines.push('');
+      lines.push(csvField(table.title));
+    }
+    for (const row of grid) {
+      lines.push(row.map(csvField).join(','));
+    }
+  });
+
+  // BOM so Excel opens the file as UTF-8
+  return Buffer.from(`\uFEFF${lines.join('\r\n')}\r\n`, 'utf8');
+}
+
+// Excel sheet names: at most 31 characters, none of : \ / ? * [ ], unique in the workbook
+function sheetName(title: string, used: Set<string>): string {
+  const base = title.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) {
+    name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+async function renderXlsx(document: ExportDocument): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.title = document.title;
+  const used = new Set<string>();
+
+  for (const table of document.tables) {
+    const worksheet = workbook.addWorksheet(sheetName(table.title, used));
+    const placed = placeTable(table.content);
+
+    for (const { cell, row, column, rowSpan, colSpan, header } of placed.cells) {
+      const target = worksheet.getCell(row + 1, column + 1);
+      target.value = exportValue(cell);
+      target.alignment = { horizontal: cell.align ?? 'center', vertical: 'middle', wrapText: true };
+      target.border = { top: { style: 'thin' }, left: { style: 'thin' }, bottom: { style: 'thin' }, right: { style: 'thin' } };
+      if (header) target.font = { bold: true };
+
+      const fill = hexColor(cell.backgroundColor);
+      if (fill) target.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: `FF${fill}` } };
+
+      if (rowSpan > 1 || colSpan > 1) {
+        worksheet.mergeCells(row + 1, column + 1, row + rowSpan, column + colSpan);
+      }
+    }
+
+    worksheet.columns.forEach((column) => {
+      column.width = 18;
+    });
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// Colours go into a style attribute, so only plain colour values are let through
+function cssColor(color: string | undefined): string | null {
+  const value = color?.trim();
+  return value && /^(#[0-9a-f]{3,8}|[a-z]+|rgba?\([\d\s.,%]+\))$/i.test(value) ? value : null;
+}
+
+function renderHtmlTable(content: TableData): string {
+  const placed = placeTable(content);
+  const rows: string[][] = Array.from({ length: placed.rowCount }, () => []);
+
+  for (const { cell, row, rowSpan, colSpan, header } of placed.cells) {
+    const tag = header ? 'th' : 'td';
+    const attributes = [
+      colSpan > 1 ? ` colspan="${colSpan}"` : '',
+      rowSpan > 1 ? ` rowspan="${rowSpan}"` : '',
+    ].join('');
+    const styles = [`text-align: ${cell.align ?? 'center'}`];
+    const background = cssColor(cell.backgroundColor);
+    if (background) styles.push(`background-color: ${background}`);
+
+    rows[row]!.push(`<${tag}${attributes} style="${styles.join('; ')}">${escapeHtml(String(exportValue(cell)))}</${tag}>`);
+  }
+
+  const head = rows.slice(0, placed.headerRows).map((cells) => `<tr>${cells.join('')}</tr>`).join('\n');
+  const body = rows.slice(placed.headerRows).map((cells) => `<tr>${cells.join('')}</tr>`).join('\n');
+
+  return [
+    '<table>',
+    head ? `<thead>\n${head}\n</thead>` : '',
+    `<tbody>\n${body}\n</tbody>`,
+    '</table>',
+    content.description ? `<p class="description">${escapeHtml(content.description)}</p>` : '',
+  ].filter(Boolean).join('\n');
+}
+
+function renderHtml(document: ExportDocument): Buffer {
+  // A single table is titled by the page heading alone
+  const sections = document.tables.map((table) => document.tables.length > 1
+    ? `<section>\n<h2>${escapeHtml(table.title)}</h2>\n${renderHtmlTable(table.content)}\n</section>`
+    : `<section>\n${renderHtmlTable(table.content)}\n</section>`);
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(document.title)}</title>
+<style>
+body { font-family: Arial, Helvetica, sans-serif; color: #222; margin: 24px; }
+h1 { font-size: 20px; }
+h2 { font-size: 16px; margin-top: 28px; }
+table { border-collapse: collapse; margin: 8px 0; }
+th, td { border: 1px solid #999; padding: 4px 8px; font-size: 13px; vertical-align: middle; }
+th { background-color: #f0f0f0; }
+.description { font-size: 12px; color: #555; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(document.title)}</h1>
+${sections.join('\n')}
+</body>
+</html>
+`;
+  return Buffer.from(html, 'utf8');
+}
+
+const PDF_MARGIN = 40;
+const PDF_CELL_PADDING = 4;
+const PDF_FONT_SIZE = 9;
+const PDF_MIN_ROW_HEIGHT = 18;
+
+// PDF text uses the standard fonts, which have no checkmark glyph, so booleans print as Yes/No
+function drawPdfTable(doc: PDFKit.PDFDocument, content: TableData): void {
+  const placed = placeTable(content);
+  if (placed.columnCount === 0) return;
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const columnWidth = width / placed.columnCount;
+  const textWidth = (colSpan: number) => columnWidth * colSpan - PDF_CELL_PADDING * 2;
+
+  const fontFor = (header: boolean) => (header ? 'Helvetica-Bold' : 'Helvetica');
+  const textHeight = (cell: PlacedCell & { header: boolean }) => {
+    doc.font(fontFor(cell.header)).fontSize(PDF_FONT_SIZE);
+    return doc.heightOfString(cellText(cell.cell) || ' ', { width: textWidth(cell.colSpan) }) + PDF_CELL_PADDING * 2;
+  };
+
+  // Row heights fit their single-row cells; a taller merged cell grows the last row it covers
+  const heights = Array<number>(placed.rowCount).fill(PDF_MIN_ROW_HEIGHT);
+  for (const cell of placed.cells.filter((c) => c.rowSpan === 1)) {
+    heights[cell.row] = Math.max(heights[cell.row]!, textHeight(cell));
+  }
+  for (const cell of placed.cells.filter((c) => c.rowSpan > 1)) {
+    const spanned = heights.slice(cell.row, cell.row + cell.rowSpan).reduce((sum, h) => sum + h, 0);
+    const needed = textHeight(cell);
+    if (needed > spanned) heights[cell.row + cell.rowSpan - 1]! += needed - spanned;
+  }
+
+  // Rows joined by a rowSpan are kept on one page
+  const blocks: { start: number; end: number }[] = [];
+  for (let row = 0; row < placed.rowCount;) {
+    let end = row;
+    for (let r = row; r <= end; r++) {
+      for (const cell of placed.cells) {
+        if (cell.row === r) end = Math.max(end, cell.row + cell.rowSpan - 1);
+      }
+    }
+    // The header is one block, however many rows it has
+    if (row === 0 && placed.headerRows > 0) end = Math.max(end, placed.headerRows - 1);
+    blocks.push({ start: row, end });
+    row = end + 1;
+  }
+
+  const blockHeight = (block: { start: number; end: number }) =>
+    heights.slice(block.start, block.end + 1).reduce((sum, h) => sum + h, 0);
+  const bottom = () => doc.page.height - doc.page.margins.bottom;
+
+  const drawRows = (start: number, end: number, top: number) => {
+    const rowTop = (row: number) => top + heights.slice(start, row).reduce((sum, h) => sum + h, 0);
+    for (const cell of placed.cells) {
+      if (cell.row < start || cell.row > end) continue;
+
+      const x = left + cell.column * columnWidth;
+      const y = rowTop(cell.row);
+      const w = columnWidth * cell.colSpan;
+      const h = heights.slice(cell.row, cell.row + cell.rowSpan).reduce((sum, value) => sum + value, 0);
+
+      const fill = hexColor(cell.cell.backgroundColor);
+      if (fill || cell.header) {
+        doc.rect(x, y, w, h).fill(fill ? `#${fill}` : '#F0F0F0');
+      }
+      doc.rect(x, y, w, h).lineWidth(0.5).strokeColor('#999999').stroke();
+
+      const text = cellText(cell.cell);
+      doc.font(fontFor(cell.header)).fontSize(PDF_FONT_SIZE).fillColor('#222222');
+      const used = doc.heightOfString(text || ' ', { width: textWidth(cell.colSpan) });
+      const offset = Math.max(PDF_CELL_PADDING, (h - used) / 2);
+      doc.text(text, x + PDF_CELL_PADDING, y + offset, {
+        width: textWidth(cell.colSpan),
+        height: h - PDF_CELL_PADDING * 2,
+        align: cell.cell.align ?? 'center',
+        ellipsis: true,
+      });
+    }
+    return top + heights.slice(start, end + 1).reduce((sum, h) => sum + h, 0);
+  };
+
+  const headerBlock = placed.headerRows > 0 ? blocks[0]! : null;
+  let y = doc.y;
+
+  for (const block of blocks) {
+    if (y + blockHeight(block) > bottom() && y > doc.page.margins.top) {
+      doc.addPage();
+      y = doc.page.margins.top;
+      // Repeat the header on every page the table runs onto
+      if (headerBlock && block !== headerBlock) {
+        y = drawRows(headerBlock.start, headerBlock.end, y);
+      }
+    }
+    y = drawRows(block.start, block.end, y);
+  }
+
+  doc.x = left;
+  doc.y = y + 6;
+}
+
+// Renders into an open PDF document, so other documents (e.g. datasheets) can add their own pages
+export function writePdfTables(doc: PDFKit.PDFDocument, tables: ExportTable[], showTitles: boolean): void {
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  for (const table of tables) {
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 80) doc.addPage();
+
+    if (showTitles) {
+      doc.moveDown(0.5).font('Helvetica-Bold').fontSize(12).fillColor('#222222')
+        .text(table.title, doc.page.margins.left, doc.y, { width });
+      doc.moveDown(0.3);
+    }
+
+    drawPdfTable(doc, table.content);
+
+    if (table.content.description) {
+      doc.font('Helvetica').fontSize(8).fillColor('#555555')
+        .text(table.content.description, doc.page.margins.left, doc.y, { width });
+      doc.moveDown(0.5);
+    }
+  }
+}
+
+// Pages stay buffered until the end, so headers or footers can be added to every page
+export function createPdf(title: string): PDFKit.PDFDocument {
+  return new PDFDocument({ size: 'A4', margin: PDF_MARGIN, info: { Title: title }, bufferPages: true });
+}
+
+// Collect a document's output once it is ended
+export function pdfBuffer(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+}
+
+async function renderPdf(document: ExportDocument): Promise<Buffer> {
+  const doc = createPdf(document.title);
+  const output = pdfBuffer(doc);
+
+  doc.font('Helvetica-Bold').fontSize(16).fillColor('#222222').text(document.title);
+  doc.moveDown(0.5);
+  writePdfTables(doc, document.tables, document.tables.length > 1);
+
+  doc.end();
+  return await output;
+}
+
+export async function exportSpecifications(document: ExportDocument, format: SpecExportFormat): Promise<ExportedFile> {
+  const renderers: Record<SpecExportFormat, (document: ExportDocument) => Buffer | Promise<Buffer>> = {
+    csv: renderCsv,
+    xlsx: renderXlsx,
+    html: renderHtml,
+    pdf: renderPdf,
+  };
+
+  return {
+    buffer: await renderers[format](document),
+    contentType: contentTypes[format],
+    fileName: exportFileName(document.title, format),
+  };
+}
@@ -0,0 +1,382 @@
+import ExcelJS from 'exceljs';
+import { TableDataSchema, type TableCell, type TableData } from '../types/specification.js';
+import { MAX_TABLE_COLUMNS, MAX_TABLE_ROWS, repairTableGrid, type GridIssue } from '../utils/table-grid.js';
+
+// Building specification tables from spreadsheets. XLSX merged cells become colSpan/rowSpan
+// as they are; CSV has no merges, so they are inferred from blank cells (see inferMerges).
+
+export type SheetValue = string | number | boolean | null;
+
+// A merged range, 0-based and inclusive
+export interface MergeRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export interface SheetGrid {
+  name: string;
+  // May be sparse; missing rows and cells are blank
+  cells: SheetValue[][];
+  // Null for CSV, which cannot express merges
+  merges: MergeRange[] | null;
+  // Leading rows whose filled cells are all bold, a header hint from XLSX styling
+  boldRows: number;
+}
+
+export interface ImportOptions {
+  // Detected when not given
+  headerRows?: number | undefined;
+  // Leading body columns rendered as row headers
+  rowHeaderColumns?: number | undefined;
+}
+
+export interface ImportedTable {
+  content: TableData;
+  // Geometry problems in the sheet that were fixed on the way in
+  repairs: GridIssue[];
+  sheet: string;
+  headerRows: number;
+  rowHeaderColumns: number;
+  columnCount: number;
+  mergedCells: number;
+}
+
+// Why a sheet could not be turned into a table
+export interface ImportError {
+  error: string;
+}
+
+export const SPREADSHEET_TYPES = ['csv', 'xlsx'] as const;
+
+export type SpreadsheetType = typeof SPREADSHEET_TYPES[number];
+
+// RFC 4180: quoted fields may hold commas, newlines and doubled quotes. Values stay strings.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]!;
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// "B12" -> { row: 11, column: 1 }
+function decodeAddress(address: string): { row: number; column: number } | null {
+  const match = address.replace(/\$/g, '').match(/^([A-Z]+)(\d+)$/i);
+  if (!match) return null;
+
+  let column = 0;
+  for (const letter of match[1]!.toUpperCase()) {
+    column = column * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return { row: parseInt(match[2]!) - 1, column: column - 1 };
+}
+
+function xlsxValue(cell: ExcelJS.Cell): SheetValue {
+  const value = cell.value;
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'object' && 'result' in value && (typeof value.result === 'number' || typeof value.result === 'boolean')) {
+    return value.result;
+  }
+  // Rich text, hyperlinks and formulas with text results
+  return cell.text.trim() || null;
+}
+
+export async function readXlsx(buffer: Buffer, sheetName?: string): Promise<SheetGrid | null> {
+  const workbook = new ExcelJS.Workbook();
+  // exceljs types its input as an ArrayBuffer
+  await workbook.xlsx.load(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer);
+
+  const worksheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+  if (!worksheet) return null;
+
+  const cells: SheetValue[][] = [];
+  const bold: boolean[] = [];
+  // Only stored cells are visited and the rows stay sparse, so a stray cell far from the table
+  // does not make a huge grid; trimGrid checks the size before padding anything out
+  worksheet.eachRow((row, rowNumber) => {
+    const values: SheetValue[] = [];
+    let allBold = true;
+    let filled = 0;
+    row.eachCell((cell, columnNumber) => {
+      // Cells covered by a merge repeat nothing useful; only the master holds the value
+      const value = cell.isMerged && cell.master.address !== cell.address ? null : xlsxValue(cell);
+      values[columnNumber - 1] = value;
+      if (value !== null) {
+        filled++;
+        if (!cell.font?.bold) allBold = false;
+      }
+    });
+    cells[rowNumber - 1] = values;
+    bold[rowNumber - 1] = filled > 0 && allBold;
+  });
+
+  const merges: MergeRange[] = [];
+  for (const range of worksheet.model.merges ?? []) {
+    const [from, to] = range.split(':');
+    const start = from ? decodeAddress(from) : null;
+    const end = to ? decodeAddress(to) : null;
+    if (start && end) {
+      merges.push({ top: start.row, left: start.column, bottom: end.row, right: end.column });
+    }
+  }
+
+  let boldRows = 0;
+  while (bold[boldRows]) boldRows++;
+
+  return {
+    name: worksheet.name,
+    cells,
+    merges,
+    boldRows,
+  };
+}
+
+export function readCsv(buffer: Buffer, name: string): SheetGrid {
+  return { name, cells: parseCsv(buffer.toString('utf8')), merges: null, boldRows: 0 };
+}
+
+function isBlank(value: SheetValue | undefined): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+// Drop empty rows and columns around the table and pad every row to the same width. Merges are
+// cut back to the filled cells. Null when the table is larger than a specification table may be.
+function trimGrid(grid: SheetGrid): SheetGrid | null {
+  let top = -1;
+  let bottom = -1;
+  let left = Infinity;
+  let right = -1;
+  // forEach skips the holes of sparse rows
+  grid.cells.forEach((row, r) => {
+    row.forEach((value, column) => {
+      if (isBlank(value)) return;
+      if (top < 0) top = r;
+      bottom = r;
+      left = Math.min(left, column);
+      right = Math.max(right, column);
+    });
+  });
+  if (top < 0) return { ...grid, cells: [], merges: grid.merges && [] };
+
+  if (bottom - top + 1 > MAX_TABLE_ROWS || right - left + 1 > MAX_TABLE_COLUMNS) return null;
+
+  const trimmed = Array.from({ length: bottom - top + 1 }, (_, r) => {
+    const row = grid.cells[top + r] ?? [];
+    return Array.from({ length: right - left + 1 }, (_, column) => {
+      const value = row[left + column];
+      return isBlank(value) ? null : value ?? null;
+    });
+  });
+
+  const merges = grid.merges && grid.merges
+    .filter((merge) => merge.top >= top && merge.top <= bottom && merge.left >= left && merge.left <= right)
+    .map((merge) => ({
+      top: merge.top - top,
+      left: merge.left - left,
+      bottom: Math.min(merge.bottom, bottom) - top,
+      right: Math.min(merge.right, right) - left,
+    }));
+
+  return { ...grid, cells: trimmed, merges, boldRows: Math.max(0, grid.boldRows - top) };
+}
+
+// CSV merges, from blank cells:
+// - a blank header cell below a single-column header cell continues it downwards (rowSpan)
+// - otherwise a blank header cell continues the cell to its left (colSpan)
+// - a blank cell in a row-header column continues the row header above it (rowSpan)
+export function inferMerges(cells: SheetValue[][], headerRows: number, rowHeaderColumns: number): MergeRange[] {
+  const merges: MergeRange[] = [];
+  // For every position, the merge covering it (cells that stand alone get a 1x1 entry)
+  const owner: MergeRange[][] = cells.map(() => []);
+
+  cells.forEach((row, r) => {
+    row.forEach((value, c) => {
+      if (!isBlank(value)) {
+        const range = { top: r, left: c, bottom: r, right: c };
+        merges.push(range);
+        owner[r]![c] = range;
+        return;
+      }
+
+      const above = r > 0 ? owner[r - 1]![c] : undefined;
+      const left = c > 0 ? owner[r]![c - 1] : undefined;
+      const inHeader = r < headerRows;
+      let target: MergeRange | undefined;
+
+      if (inHeader && r > 0 && above && above.left === c && above.right === c && above.bottom === r - 1) {
+        target = above;
+      } else if (inHeader && left && left.top === r && left.right === c - 1) {
+        target = left;
+      } else if (!inHeader && r > headerRows && c < rowHeaderColumns && above && above.bottom === r - 1 && above.top >= headerRows) {
+        target = above;
+      }
+
+      if (target) {
+        target.bottom = Math.max(target.bottom, r);
+        target.right = Math.max(target.right, c);
+        owner[r]![c] = target;
+      } else {
+        const range = { top: r, left: c, bottom: r, right: c };
+        merges.push(range);
+        owner[r]![c] = range;
+      }
+    });
+  });
+
+  return merges.filter((merge) => merge.bottom > merge.top || merge.right > merge.left);
+}
+
+// Header rows: the first row, plus every row a header cell reaches down into, plus the row under
+// a header row with merged group cells (their sub-headers)
+function detectHeaderRows(cells: SheetValue[][], mergesFor: (headerRows: number) => MergeRange[]): number {
+  let headerRows = 1;
+
+  while (headerRows < cells.length - 1) {
+    const merges = mergesFor(headerRows);
+    const headerMerges = merges.filter((merge) => merge.top < headerRows);
+    const reachesDown = headerMerges.some((merge) => merge.bottom >= headerRows);
+    const groupsAbove = headerMerges.some((merge) => merge.top === headerRows - 1 && merge.right > merge.left);
+    if (!reachesDown && !groupsAbove) break;
+    headerRows++;
+  }
+
+  return headerRows;
+}
+
+// "✓" and "✗" become the boolean checkmarks the table renderer draws; whole numbers and
+// decimals written plainly become numbers
+function tableValue(value: SheetValue): string | number | boolean {
+  if (value === null) return '';
+  if (typeof value !== 'string') return value;
+
+  const text = value.trim();
+  if (/^[✓✔✅]$/.test(text)) return true;
+  if (/^[✗✘✕❌]$/.test(text)) return false;
+  if (/^-?\d+(\.\d+)?$/.test(text) && String(Number(text)) === text) return Number(text);
+  return text;
+}
+
+// Convert a sheet into table content. Null when the sheet is empty or the result is not a valid table.
+export function sheetToTable(source: SheetGrid, options: ImportOptions = {}): ImportedTable | ImportError | null {
+  const grid = trimGrid(source);
+  if (!grid) {
+    return { error: `The table is too large to import (at most ${MAX_TABLE_ROWS} rows and ${MAX_TABLE_COLUMNS} columns)` };
+  }
+  const { cells } = grid;
+  if (cells.length === 0) return null;
+
+  const rowHeaderColumns = Math.min(options.rowHeaderColumns ?? 1, cells[0]!.length);
+  const mergesFor = (headerRows: number) => grid.merges ?? inferMerges(cells, headerRows, rowHeaderColumns);
+
+  const headerRows = Math.min(
+    options.headerRows ?? (grid.boldRows > 0 && grid.boldRows < cells.length ? grid.boldRows : detectHeaderRows(cells, mergesFor)),
+    cells.length
+  );
+
+  // A merge may not run from the header into the body; cut it at the boundary
+  const merges = mergesFor(headerRows).map((merge) =>
+    merge.top < headerRows && merge.bottom >= headerRows ? { ...merge, bottom: headerRows - 1 } : merge
+  );
+
+  const covered = new Set<string>();
+  const spans = new Map<string, MergeRange>();
+  for (const merge of merges) {
+    spans.set(`${merge.top}:${merge.left}`, merge);
+    for (let r = merge.top; r <= merge.bottom; r++) {
+      for (let c = merge.left; c <= merge.right; c++) {
+        if (r !== merge.top || c !== merge.left) covered.add(`${r}:${c}`);
+      }
+    }
+  }
+
+  const toRow = (row: SheetValue[], r: number, isHeaderRow: boolean): TableCell[] => {
+    const out: TableCell[] = [];
+    row.forEach((value, c) => {
+      if (covered.has(`${r}:${c}`)) return;
+
+      const span = spans.get(`${r}:${c}`);
+      const rowHeader = !isHeaderRow && c < rowHeaderColumns;
+      const cell: Record<string, unknown> = {
+        id: isHeaderRow ? `h${r + 1}c${c + 1}` : `r${r - headerRows + 1}c${c + 1}`,
+        value: tableValue(value),
+      };
+      if (span && span.right > span.left) cell.colSpan = span.right - span.left + 1;
+      if (span && span.bottom > span.top) cell.rowSpan = span.bottom - span.top + 1;
+      if (rowHeader) {
+        cell.isHeader = true;
+        cell.align = 'left';
+      }
+      out.push(cell as TableCell);
+    });
+    return out;
+  };
+
+  const parsed = TableDataSchema.safeParse({
+    headers: cells.slice(0, headerRows).map((row, r) => toRow(row, r, true)),
+    rows: cells.slice(headerRows).map((row, index) => toRow(row, headerRows + index, false)),
+  });
+  if (!parsed.success) return null;
+
+  // Overlapping XLSX merges can leave rows that do not add up
+  const { table, repairs } = repairTableGrid(parsed.data);
+
+  return {
+    content: table,
+    repairs,
+    sheet: grid.name,
+    headerRows,
+    rowHeaderColumns,
+    columnCount: cells[0]!.length,
+    mergedCells: merges.filter((merge) => merge.bottom > merge.top || merge.right > merge.left).length,
+  };
+}
+
+// Read an uploaded CSV or XLSX file into table content. Null when the sheet is missing or empty.
+export async function importSpreadsheet(
+  file: { buffer: Buffer; originalname: string },
+  type: SpreadsheetType,
+  options: ImportOptions & { sheet?: string | undefined } = {}
+): Promise<ImportedTable | ImportError | null> {
+  const name = file.originalname.replace(/\.[^.]+$/, '');
+  const grid = type === 'xlsx' ? await readXlsx(file.buffer, options.sheet) : readCsv(file.buffer, name);
+  return grid ? sheetToTable(grid, options) : null;
+}
@@ -0,0 +1,294 @@
+import { and, asc, desc, eq, gte, ilike, inArray, isNotNull, isNull, lte, or, sql, type SQL } from 'drizzle-orm';
+import { db, type DbExecutor } from '../db/index.js';
+import { products, productSpecifications, specValues } from '../db/schema.js';
+import { placedInCategory, placedInSubcategory } from '../models/product-placement.model.js';
+import { TableDataSchema } from '../types/specification.js';
+import { cellText, columnHeaderPaths, layoutRows } from '../utils/table-grid.js';
+import { parseNumericRange } from '../utils/units.js';
+import { withinSchedule } from '../utils/schedule.js';
+import { escapeLike } from '../utils/like.js';
+
+export interface ExtractedSpecValue {
+  label: string;
+  facetKey: string;
+  value: string;
+  numericMin: number | null;
+  numericMax: number | null;
+}
+
+export interface FacetFilter {
+  facetKey: string;
+  values: string[];
+}
+
+export interface RangeFilter {
+  facetKey: string;
+  min?: number | undefined;
+  max?: number | undefined;
+}
+
+export interface FacetedSearchOptions {
+  q?: string | undefined;
+  categoryId?: string | undefined;
+  subcategoryId?: string | undefined;
+  facets: FacetFilter[];
+  ranges: RangeFilter[];
+  limit: number;
+  offset: number;
+}
+
+export interface Facet {
+  key: string;
+  label: string;
+  values: { value: string; count: number }[];
+  // Span of the parsed numeric values, for range sliders; null when nothing parsed as a number
+  range: { min: number; max: number } | null;
+}
+
+// Column stored values are cut to
+const MAX_VALUE_LENGTH = 500;
+
+// Values shown per facet; the rest are still filterable
+const MAX_FACET_VALUES = 50;
+
+// Facet keys are case and whitespace insensitive; ':' is reserved by the facet query syntax
+export function normalizeFacetKey(label: string): string {
+  return label.toLowerCase().replace(/[:\s]+/g, ' ').trim();
+}
+
+// Pull every value cell out of a specification table, labelled by the headers above it,
+// or by the row's header cells when the column has none (key/value style tables)
+export function extractSpecValues(content: unknown): ExtractedSpecValue[] {
+  const table = TableDataSchema.safeParse(content);
+  if (!table.success) {
+    return [];
+  }
+
+  const headerPaths = columnHeaderPaths(table.data.headers);
+  const { cells } = layoutRows(table.data.rows);
+
+  const rowLabels = new Map<number, string>();
+  for (const placed of cells) {
+    if (placed.cell.isHeader && cellText(placed.cell)) {
+      const existing = rowLabels.get(placed.row);
+      rowLabels.set(placed.row, existing ? `${existing} > ${cellText(placed.cell)}` : cellText(placed.cell));
+    }
+  }
+
+  const seen = new Set<string>();
+  const values: ExtractedSpecValue[] = [];
+
+  for (const placed of cells) {
+    if (placed.cell.isHeader) continue;
+
+    const value = cellText(placed.cell).slice(0, MAX_VALUE_LENGTH);
+    if (!value) continue;
+
+    for (let column = placed.column; column < placed.column + placed.colSpan; column++) {
+      const path = headerPaths[column] ?? [];
+      const label = (path.length > 0 ? path.join(' > ') : rowLabels.get(placed.row) ?? '').slice(0, MAX_VALUE_LENGTH);
+      if (!label) continue;
+
+      const facetKey = normalizeFacetKey(label);
+      const dedupeKey = `${facetKey}\u0000${value}`;
+      if (seen.has(dedupeKey)) continue;
+      seen.add(dedupeKey);
+
+      const numeric = parseNumericRange(value);
+      values.push({ label, facetKey, value, numericMin: numeric?.min ?? null, numericMax: numeric?.max ?? null });
+    }
+  }
+
+  return values;
+}
+
+// Rebuild one specification's entries in the search index
+export async function indexSpecification(
+  spec: { id: string; productId: string; content: unknown },
+  tx: DbExecutor = db
+): Promise<void> {
+  await tx.delete(specValues).where(eq(specValues.specificationId, spec.id));
+
+  const values = extractSpecValues(spec.content);
+  if (values.length === 0) return;
+
+  await tx.insert(specValues).values(values.map((value) => ({
+    ...value,
+    productId: spec.productId,
+    specificationId: spec.id,
+  })));
+}
+
+// Rebuild the whole index, e.g. after the extraction rules change. Returns how many specs were indexed.
+export async function reindexAllSpecifications(): Promise<number> {
+  const specs = await db
+    .select({ id: productSpecifications.id, productId: productSpecifications.productId, content: productSpecifications.content })
+    .from(productSpecifications);
+
+  for (const spec of specs) {
+    await db.transaction((tx) => indexSpecification(spec, tx));
+  }
+
+  return specs.length;
+}
+
+// Build the index on first start after the spec_values migration, so specifications written before
+// it are searchable without a manual reindex. Does nothing once the index has any rows.
+export async function ensureSpecificationIndex(): Promise<number> {
+  const indexed = await db.select({ id: specValues.id }).from(specValues).limit(1);
+  if (indexed.length > 0) return 0;
+  return await reindexAllSpecifications();
+}
+
+// Index rows count only while their specification is live
+const liveSpecification = and(eq(productSpecifications.isActive, true), isNull(productSpecifications.deletedAt));
+
+function matchingProducts(condition: SQL | undefined) {
+  return db
+    .select({ id: specValues.productId })
+    .from(specValues)
+    .innerJoin(productSpecifications, eq(specValues.specificationId, productSpecifications.id))
+    .where(and(liveSpecification, condition));
+}
+
+// Product conditions for a search, optionally leaving out the filters on one facet so that
+// facet's counts show what selecting another of its values would give
+function productConditions(options: FacetedSearchOptions, exceptFacetKey?: string): SQL {
+  const conditions: (SQL | undefined)[] = [
+    isNull(products.deletedAt),
+    eq(products.isActive, true),
+    withinSchedule(products),
+  ];
+
+  if (options.q) {
+    const pattern = `%${escapeLike(options.q)}%`;
+    conditions.push(or(
+      ilike(products.name, pattern),
+      ilike(products.shortDescription, pattern),
+      ilike(products.description, pattern)
+    ));
+  }
+  if (options.subcategoryId) conditions.push(placedInSubcategory(options.subcategoryId));
+  if (options.categoryId) conditions.push(placedInCategory(options.categoryId));
+
+  // Values of one facet are alternatives; different facets must all match
+  for (const filter of options.facets) {
+    if (filter.facetKey === exceptFacetKey) continue;
+    conditions.push(inArray(products.id, matchingProducts(and(
+      eq(specValues.facetKey, filter.facetKey),
+      inArray(specValues.value, filter.values)
+    ))));
+  }
+
+  // A range matches any value whose own range overlaps it
+  for (const filter of options.ranges) {
+    if (filter.facetKey === exceptFacetKey) continue;
+    conditions.push(inArray(products.id, matchingProducts(and(
+      eq(specValues.facetKey, filter.facetKey),
+      isNotNull(specValues.numericMin),
+      filter.min !== undefined ? gte(specValues.numericMax, filter.min) : undefined,
+      filter.max !== undefined ? lte(specValues.numericMin, filter.max) : undefined
+    ))));
+  }
+
+  return and(...conditions)!;
+}
+
+async function computeFacets(condition: SQL, onlyFacetKey?: string): Promise<Facet[]> {
+  const filter = and(
+    liveSpecification,
+    inArray(specValues.productId, db.select({ id: products.id }).from(products).where(condition)),
+    onlyFacetKey ? eq(specValues.facetKey, onlyFacetKey) : undefined
+  );
+
+  const counts = await db
+    .select({
+      facetKey: specValues.facetKey,
+      label: sql<string>`min(${specValues.label})`,
+      value: specValues.value,
+      count: sql<number>`count(distinct ${specValues.productId})::int`,
+    })
+    .from(specValues)
+    .innerJoin(productSpecifications, eq(specValues.specificationId, productSpecifications.id))
+    .where(filter)
+    .groupBy(specValues.facetKey, specValues.value)
+    .orderBy(asc(specValues.facetKey), desc(sql`count(distinct ${specValues.productId})`), asc(specValues.value));
+
+  const ranges = await db
+    .select({
+      facetKey: specValues.facetKey,
+      min: sql<number | null>`min(${specValues.numericMin})`,
+      max: sql<number | null>`max(${specValues.numericMax})`,
+    })
+    .from(specValues)
+    .innerJoin(productSpecifications, eq(specValues.specificationId, productSpecifications.id))
+    .where(filter)
+    .groupBy(specValues.facetKey);
+
+  const facets = new Map<string, Facet>();
+  for (const row of counts) {
+    let facet = facets.get(row.facetKey);
+    if (!facet) {
+      facet = { key: row.facetKey, label: row.label, values: [], range: null };
+      facets.set(row.facetKey, facet);
+    }
+    if (facet.values.length < MAX_FACET_VALUES) {
+      facet.values.push({ value: row.value, count: row.count });
+    }
+  }
+  for (const row of ranges) {
+    const facet = facets.get(row.facetKey);
+    if (facet && row.min !== null && row.max !== null) {
+      facet.range = { min: Number(row.min), max: Number(row.max) };
+    }
+  }
+
+  return [...facets.values()];
+}
+
+// Products matching text, catalog and specification filters, with facet counts for the result set
+export async function facetedSearch(options: FacetedSearchOptions) {
+  const condition = productConditions(options);
+
+  const results = await db
+    .select({
+      id: products.id,
+      subcategoryId: products.subcategoryId,
+      name: products.name,
+      slug: products.slug,
+      shortDescription: products.shortDescription,
+      price: products.price,
+      priceMode: products.priceMode,
+      priceAmount: products.priceAmount,
+      priceCurrency: products.priceCurrency,
+      priceUnit: products.priceUnit,
+      coverImage: products.coverImage,
+      images: products.images,
+    })
+    .from(products)
+    .where(condition)
+    .orderBy(asc(products.name), asc(products.id))
+    .limit(options.limit)
+    .offset(options.offset);
+
+  const [{ total } = { total: 0 }] = await db
+    .select({ total: sql<number>`count(*)::int` })
+    .from(products)
+    .where(condition);
+
+  const facets = await computeFacets(condition);
+
+  // Facets the user has filtered on are counted without their own filter
+  const filteredKeys = new Set([...options.facets, ...options.ranges].map((filter) => filter.facetKey));
+  for (const key of filteredKeys) {
+    const [ownFacet] = await computeFacets(productConditions(options, key), key);
+    const index = facets.findIndex((facet) => facet.key === key);
+    if (ownFacet && index >= 0) {
+      facets[index] = ownFacet;
+    } else if (ownFacet) {
+      facets.push(ownFacet);
+    }
+  }
+
+  return { products: results, total, facets };
+}
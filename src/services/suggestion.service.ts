@@ -0,0 +1,72 @@
+import { desc, sql } from 'drizzle-orm';
+import { db } from '../db/index.js';
+import { searchSuggestions } from '../db/schema.js';
+import { config } from '../config/config.js';
+import logger from '../utils/logger.js';
+import { escapeLike } from '../utils/like.js';
+
+export interface Suggestion {
+  text: string;
+  kind: 'product' | 'category' | 'keyword';
+  // Set for products and categories, so the client can link straight to the page
+  slug: string | null;
+}
+
+export interface SuggestResult {
+  suggestions: Suggestion[];
+  // A close existing term, only offered when nothing matched the query
+  didYouMean: string | null;
+}
+
+// Completions for a partial query: terms that start with it rank above terms containing it
+// at a word boundary. Both forms are served by the trigram index on search_suggestions.
+export async function suggest(query: string, limit: number): Promise<SuggestResult> {
+  const normalized = query.trim().toLowerCase().replace(/\s+/g, ' ');
+  const prefix = `${escapeLike(normalized)}%`;
+  const wordPrefix = `% ${escapeLike(normalized)}%`;
+  const startsWith = sql`${searchSuggestions.normalized} LIKE ${prefix}`;
+
+  const rows = await db
+    .select({
+      text: searchSuggestions.term,
+      kind: searchSuggestions.kind,
+      slug: searchSuggestions.slug,
+    })
+    .from(searchSuggestions)
+    .where(sql`(${startsWith} OR ${searchSuggestions.normalized} LIKE ${wordPrefix})`)
+    .orderBy(desc(startsWith), desc(searchSuggestions.weight), sql`length(${searchSuggestions.term})`)
+    .limit(limit);
+
+  const suggestions = rows.map((row) => ({ ...row, kind: row.kind as Suggestion['kind'] }));
+  if (suggestions.length > 0) {
+    return { suggestions, didYouMean: null };
+  }
+
+  // `%` is pg_trgm's similarity operator and uses the index (threshold pg_trgm.similarity_threshold, 0.3)
+  const [closest] = await db
+    .select({ text: searchSuggestions.term })
+    .from(searchSuggestions)
+    .where(sql`${searchSuggestions.normalized} % ${normalized}`)
+    .orderBy(desc(sql`similarity(${searchSuggestions.normalized}, ${normalized})`), desc(searchSuggestions.weight))
+    .limit(1);
+
+  return { suggestions, didYouMean: closest?.text ?? null };
+}
+
+// Rebuild the index without blocking readers
+export async function refreshSuggestions(): Promise<void> {
+  await db.refreshMaterializedView(searchSuggestions).concurrently();
+}
+
+// Keep the index in step with catalog edits and publishing windows
+export function scheduleSuggestionRefresh(): NodeJS.Timeout {
+  const run = async () => {
+    try {
+      await refreshSuggestions();
+    } catch (error) {
+      logger.error({ err: error }, 'Search suggestion refresh failed');
+    }
+  };
+
+  return setInterval(run, config.search.suggestionsRefreshMs);
+}
@@ -0,0 +1,254 @@
+import { and, eq, inArray, isNotNull, isNull, lt, ne, or, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import { db, type DbExecutor } from '../db/index.js';
+import { categories, subcategories, products, productSpecifications, posts } from '../db/schema.js';
+import { config } from '../config/config.js';
+import logger from '../utils/logger.js';
+
+// Resource types that are moved to the trash instead of being deleted
+const trashableTables = {
+  category: categories,
+  subcategory: subcategories,
+  product: products,
+  product_specification: productSpecifications,
+  post: posts,
+};
+
+export type TrashableResource = keyof typeof trashableTables;
+
+// Parent -> child links. Children go to the trash with their parent and come back with it.
+const trashChildren: Partial<Record<TrashableResource, { resourceType: TrashableResource; parentColumn: AnyPgColumn }>> = {
+  category: { resourceType: 'subcategory', parentColumn: subcategories.categoryId },
+  subcategory: { resourceType: 'product', parentColumn: products.subcategoryId },
+  product: { resourceType: 'product_specification', parentColumn: productSpecifications.productId },
+};
+
+const trashParents: Partial<Record<TrashableResource, { resourceType: TrashableResource; parentKey: string }>> = {
+  subcategory: { resourceType: 'category', parentKey: 'categoryId' },
+  product: { resourceType: 'subcategory', parentKey: 'subcategoryId' },
+  product_specification: { resourceType: 'product', parentKey: 'productId' },
+};
+
+export interface TrashEntry {
+  resourceType: TrashableResource;
+  id: string | number;
+  label: string;
+  deletedAt: Date;
+  // When the purge job will remove it for good
+  purgeAt: Date;
+}
+
+export function isTrashable(resourceType: string): resourceType is TrashableResource {
+  return resourceType in trashableTables;
+}
+
+type TrashableTable = typeof trashableTables[TrashableResource];
+
+function tableFor(resourceType: TrashableResource): TrashableTable {
+  return trashableTables[resourceType];
+}
+
+// Posts use serial IDs, everything else UUIDs
+function parseId(resourceType: TrashableResource, id: string | number): string | number | null {
+  if (resourceType !== 'post') return String(id);
+  return /^\d+$/.test(String(id)) ? parseInt(String(id)) : null;
+}
+
+// Move children of the given parents from one trash state to another, all the way down
+async function cascade(
+  resourceType: TrashableResource,
+  parentIds: (string | number)[],
+  match: Date | null,
+  deletedAt: Date | null,
+  tx: DbExecutor
+): Promise<void> {
+  const child = trashChildren[resourceType];
+  if (!child || parentIds.length === 0) return;
+
+  const table = tableFor(child.resourceType);
+  const rows = await tx
+    .update(table)
+    .set({ deletedAt })
+    .where(and(
+      inArray(child.parentColumn, parentIds),
+      match ? eq(table.deletedAt, match) : isNull(table.deletedAt)
+    ))
+    .returning({ id: table.id }) as { id: string | number }[];
+
+  await cascade(child.resourceType, rows.map((row) => row.id), match, deletedAt, tx);
+}
+
+// Soft delete a record and everything under it. Returns the trashed row, or null if there was no live row.
+export async function moveToTrash(
+  resourceType: TrashableResource,
+  id: string | number,
+  tx: DbExecutor = db
+): Promise<Record<string, unknown> | null> {
+  const parsedId = parseId(resourceType, id);
+  if (parsedId === null) return null;
+
+  // Every row trashed together shares one timestamp, which is how restore finds them again
+  const deletedAt = new Date();
+  const table = tableFor(resourceType);
+  const [row] = await tx
+    .update(table)
+    .set({ deletedAt })
+    .where(and(eq(table.id, parsedId), isNull(table.deletedAt)))
+    .returning() as Record<string, unknown>[];
+
+  if (!row) return null;
+
+  await cascade(resourceType, [parsedId], null, deletedAt, tx);
+  return row;
+}
+
+// A trashed row, or null if it is missing or not in the trash
+export async function getTrashed(
+  resourceType: TrashableResource,
+  id: string | number,
+  tx: DbExecutor = db
+): Promise<Record<string, unknown> | null> {
+  const parsedId = parseId(resourceType, id);
+  if (parsedId === null) return null;
+
+  const table = tableFor(resourceType);
+  const [row] = await tx
+    .select()
+    .from(table)
+    .where(and(eq(table.id, parsedId), isNotNull(table.deletedAt)))
+    .limit(1) as Record<string, unknown>[];
+  return row ?? null;
+}
+
+// The parent that has to come back first, if the record's parent is itself in the trash
+export async function trashedParentOf(
+  resourceType: TrashableResource,
+  row: Record<string, unknown>
+): Promise<{ resourceType: TrashableResource; id: string } | null> {
+  const parent = trashParents[resourceType];
+  if (!parent) return null;
+
+  const parentId = row[parent.parentKey] as string;
+  const trashed = await getTrashed(parent.resourceType, parentId);
+  return trashed ? { resourceType: parent.resourceType, id: parentId } : null;
+}
+
+// Bring a trashed record back together with the children that were trashed with it
+export async function restoreFromTrash(
+  resourceType: TrashableResource,
+  id: string | number,
+  tx: DbExecutor = db
+): Promise<Record<string, unknown> | null> {
+  const trashed = await getTrashed(resourceType, id, tx);
+  if (!trashed) return null;
+
+  const trashedId = trashed.id as string | number;
+  const table = tableFor(resourceType);
+  const [row] = await tx
+    .update(table)
+    .set({ deletedAt: null, updatedAt: new Date() })
+    .where(eq(table.id, trashedId))
+    .returning() as Record<string, unknown>[];
+
+  await cascade(resourceType, [trashedId], trashed.deletedAt as Date, null, tx);
+  return row ?? null;
+}
+
+// Permanently delete a trashed record; the foreign keys cascade to its children
+export async function purgeFromTrash(
+  resourceType: TrashableResource,
+  id: string | number,
+  tx: DbExecutor = db
+): Promise<boolean> {
+  const parsedId = parseId(resourceType, id);
+  if (parsedId === null) return false;
+
+  const table = tableFor(resourceType);
+  const rows = await tx
+    .delete(table)
+    .where(and(eq(table.id, parsedId), isNotNull(table.deletedAt)))
+    .returning({ id: table.id }) as unknown[];
+  return rows.length > 0;
+}
+
+function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + config.trash.retentionDays * 24 * 60 * 60 * 1000);
+}
+
+// Trashed records, leaving out children that were trashed along with their parent
+export async function listTrash(): Promise<TrashEntry[]> {
+  const entries: TrashEntry[] = [];
+  const push = (resourceType: TrashableResource, rows: { id: string | number; label: string; deletedAt: Date | null }[]) => {
+    for (const row of rows) {
+      entries.push({ resourceType, id: row.id, label: row.label, deletedAt: row.deletedAt!, purgeAt: purgeDate(row.deletedAt!) });
+    }
+  };
+  // The parent is live, or was trashed at a different moment
+  const trashedOnItsOwn = (childDeletedAt: AnyPgColumn, parentDeletedAt: AnyPgColumn): SQL | undefined =>
+    and(isNotNull(childDeletedAt), or(isNull(parentDeletedAt), ne(parentDeletedAt, childDeletedAt)));
+
+  push('category', await db
+    .select({ id: categories.id, label: categories.name, deletedAt: categories.deletedAt })
+    .from(categories)
+    .where(isNotNull(categories.deletedAt)));
+
+  push('subcategory', await db
+    .select({ id: subcategories.id, label: subcategories.name, deletedAt: subcategories.deletedAt })
+    .from(subcategories)
+    .innerJoin(categories, eq(subcategories.categoryId, categories.id))
+    .where(trashedOnItsOwn(subcategories.deletedAt, categories.deletedAt)));
+
+  push('product', await db
+    .select({ id: products.id, label: products.name, deletedAt: products.deletedAt })
+    .from(products)
+    .innerJoin(subcategories, eq(products.subcategoryId, subcategories.id))
+    .where(trashedOnItsOwn(products.deletedAt, subcategories.deletedAt)));
+
+  push('product_specification', await db
+    .select({ id: productSpecifications.id, label: productSpecifications.title, deletedAt: productSpecifications.deletedAt })
+    .from(productSpecifications)
+    .innerJoin(products, eq(productSpecifications.productId, products.id))
+    .where(trashedOnItsOwn(productSpecifications.deletedAt, products.deletedAt)));
+
+  push('post', await db
+    .select({ id: posts.id, label: posts.title, deletedAt: posts.deletedAt })
+    .from(posts)
+    .where(isNotNull(posts.deletedAt)));
+
+  return entries.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+}
+
+// Permanently delete everything that has been in the trash longer than the retention period
+export async function purgeExpiredTrash(retentionDays = config.trash.retentionDays): Promise<Record<TrashableResource, number>> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const purged = {} as Record<TrashableResource, number>;
+
+  // Parents first, so children that go with them are not counted twice
+  for (const resourceType of Object.keys(trashableTables) as TrashableResource[]) {
+    const table = tableFor(resourceType);
+    const rows = await db
+      .delete(table)
+      .where(lt(table.deletedAt, cutoff))
+      .returning({ id: table.id }) as unknown[];
+    purged[resourceType] = rows.length;
+  }
+
+  return purged;
+}
+
+// Run the purge on an interval for the lifetime of the process
+export function scheduleTrashPurge(): NodeJS.Timeout {
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredTrash();
+      if (Object.values(purged).some((count) => count > 0)) {
+        logger.info({ purged }, 'Purged expired trash');
+      }
+    } catch (error) {
+      logger.error({ err: error }, 'Trash purge failed');
+    }
+  };
+
+  void run();
+  return setInterval(run, config.trash.purgeIntervalMs);
+}
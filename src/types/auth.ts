@@ -27,11 +27,14 @@ export enum ActionType {
   LOGIN = 'login',
   LOGOUT = 'logout',
   APPROVE = 'approve',
-  REJECT = 'reject'
+  REJECT = 'reject',
+  REQUEST_REVISION = 'request_revision'
 }
 
 export enum ChangeStatus {
   PENDING = 'pending',
   APPROVED = 'approved',
-  REJECTED = 'rejected'
+  REJECTED = 'rejected',
+  NEEDS_REVISION = 'needs_revision',  // Sent back to the editor to amend
+  WITHDRAWN = 'withdrawn'  // Taken back by its editor before review
 }
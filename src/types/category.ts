@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { scheduleFields } from './schedule.js';
+
+// Request body schemas shared by the category routes and the approval workflow
+export const createCategorySchema = z.object({
+  name: z.string().min(1),
+  slug: z.string().min(1),
+  description: z.string().optional(),
+  image: z.string().optional(),
+  displayOrder: z.string().optional(),
+  ...scheduleFields,
+});
+
+export const updateCategorySchema = z.object({
+  name: z.string().min(1).optional(),
+  slug: z.string().min(1).optional(),
+  description: z.string().optional(),
+  image: z.string().optional(),
+  displayOrder: z.string().optional(),
+  isActive: z.boolean().optional(),
+  ...scheduleFields,
+});
+
+// Type exports
+export type CreateCategoryRequest = z.infer<typeof createCategorySchema>;
+export type UpdateCategoryRequest = z.infer<typeof updateCategorySchema>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// Request body schema shared by the home popup routes and the approval workflow
+export const createPopupSchema = z.object({
+  imageUrl: z.string().url(),
+  isActive: z.boolean().default(true),
+  link: z.string().url().optional().nullable(),
+  startDate: z.string().datetime().optional().nullable(), // Expects ISO string
+  endDate: z.string().datetime().optional().nullable(),
+});
+
+// Type exports
+export type CreatePopupRequest = z.infer<typeof createPopupSchema>;
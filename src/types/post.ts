@@ -0,0 +1,19 @@
+import { z } from 'zod';
+import { scheduleFields } from './schedule.js';
+
+// Request body schemas shared by the post routes and the approval workflow
+export const createPostSchema = z.object({
+  title: z.string().min(1),
+  slug: z.string().min(1),
+  content: z.object({}).passthrough(), // Accept any valid JSON object for Tiptap
+  coverImage: z.string().optional(),
+  seoKeywords: z.array(z.string()).optional(),
+  published: z.boolean().optional(),
+  ...scheduleFields,
+});
+
+export const updatePostSchema = createPostSchema.partial();
+
+// Type exports
+export type CreatePostRequest = z.infer<typeof createPostSchema>;
+export type UpdatePostRequest = z.infer<typeof updatePostSchema>;
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+
+export const priceModes = ['fixed', 'on_request'] as const;
+
+// Bulk price from a quantity upwards; the base amount covers anything below the first tier
+const priceTier = z.object({
+  minQuantity: z.number().int().min(2),
+  amount: z.number().nonnegative(),
+});
+
+// Structured price fields on the product schemas. Writing priceMode replaces the whole price.
+export const pricingFields = {
+  priceMode: z.enum(priceModes).nullable().optional(),
+  priceAmount: z.number().nonnegative().max(9999999999.99).nullable().optional(),
+  priceCurrency: z.string().length(3).toUpperCase().optional(),
+  priceUnit: z.string().trim().max(50).nullable().optional(),
+  priceTiers: z.array(priceTier).max(20).nullable().optional(),
+};
+
+type PricingInput = {
+  priceMode?: typeof priceModes[number] | null | undefined;
+  priceAmount?: number | null | undefined;
+  priceTiers?: { minQuantity: number; amount: number }[] | null | undefined;
+};
+
+// Cross-field rules, for use with superRefine
+export function checkPricing(data: PricingInput, ctx: z.RefinementCtx): void {
+  if (data.priceMode === 'fixed' && (data.priceAmount === undefined || data.priceAmount === null)) {
+    ctx.addIssue({ code: 'custom', path: ['priceAmount'], message: 'A fixed price needs an amount' });
+  }
+  if (data.priceMode === 'on_request' && (typeof data.priceAmount === 'number' || (data.priceTiers?.length ?? 0) > 0)) {
+    ctx.addIssue({ code: 'custom', path: ['priceMode'], message: 'Price on request cannot carry an amount or tiers' });
+  }
+  const quantities = (data.priceTiers ?? []).map((tier) => tier.minQuantity);
+  if (new Set(quantities).size !== quantities.length) {
+    ctx.addIssue({ code: 'custom', path: ['priceTiers'], message: 'Each tier needs a different minQuantity' });
+  }
+}
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+
+// Body for PUT /api/products/:id/placements, also used by the approval workflow.
+// The list replaces every placement of the product; exactly one must be primary.
+export const setPlacementsSchema = z.object({
+  placements: z.array(z.object({
+    subcategoryId: z.string().uuid(),
+    isPrimary: z.boolean().optional().default(false),
+    displayOrder: z.string().max(10).nullable().optional(),
+  })).min(1).max(20),
+}).superRefine((data, ctx) => {
+  if (data.placements.filter((placement) => placement.isPrimary).length !== 1) {
+    ctx.addIssue({ code: 'custom', path: ['placements'], message: 'Exactly one placement must be primary' });
+  }
+  const ids = data.placements.map((placement) => placement.subcategoryId);
+  if (new Set(ids).size !== ids.length) {
+    ctx.addIssue({ code: 'custom', path: ['placements'], message: 'A product can be placed in a subcategory only once' });
+  }
+});
+
+// Type exports
+export type SetPlacementsRequest = z.infer<typeof setPlacementsSchema>;
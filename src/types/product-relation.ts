@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { productRelationTypes } from '../models/product-relation.model.js';
+
+// Request body schemas shared by the relation routes and the approval workflow.
+// productId comes from the URL on the routes and is merged in before parsing.
+export const createRelationSchema = z.object({
+  productId: z.string().uuid(),
+  relatedProductId: z.string().uuid(),
+  type: z.enum(productRelationTypes),
+  displayOrder: z.number().int().optional(),
+}).refine((data) => data.productId !== data.relatedProductId, {
+  path: ['relatedProductId'],
+  message: 'A product cannot be related to itself',
+});
+
+export const updateRelationSchema = z.object({
+  type: z.enum(productRelationTypes).optional(),
+  displayOrder: z.number().int().optional(),
+});
+
+// Type exports
+export type CreateRelationRequest = z.infer<typeof createRelationSchema>;
+export type UpdateRelationRequest = z.infer<typeof updateRelationSchema>;
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+export const variantAvailabilities = ['in_stock', 'made_to_order', 'out_of_stock', 'discontinued'] as const;
+
+// SKUs are stored as entered but compared case-insensitively
+const skuField = z.string().trim().min(1).max(100).regex(/^[A-Za-z0-9][A-Za-z0-9._/-]*$/, 'SKU may only contain letters, digits and . _ / -');
+
+// Request body schemas shared by the variant routes and the approval workflow.
+// productId comes from the URL on the routes and is merged in before parsing.
+export const createVariantSchema = z.object({
+  productId: z.string().uuid(),
+  sku: skuField,
+  name: z.string().max(255).optional(),
+  attributes: z.record(z.string().min(1).max(100), z.string().max(255)).optional(),
+  price: z.number().nonnegative().max(9999999999.99).nullable().optional(),
+  currency: z.string().length(3).toUpperCase().optional(),
+  moq: z.number().int().min(1).optional(),
+  availability: z.enum(variantAvailabilities).optional(),
+  images: z.array(z.string()).optional(),
+  displayOrder: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateVariantSchema = createVariantSchema.omit({ productId: true }).partial();
+
+// Type exports
+export type CreateVariantRequest = z.infer<typeof createVariantSchema>;
+export type UpdateVariantRequest = z.infer<typeof updateVariantSchema>;
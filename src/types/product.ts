@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { scheduleFields } from './schedule.js';
+import { checkPricing, pricingFields } from './pricing.js';
 
 // Product validation schema
 export const ProductSchema = z.object({
@@ -19,6 +21,95 @@ export const ProductSchema = z.object({
 
 export const UpdateProductSchema = ProductSchema.partial();
 
+// Request body schemas shared by the product routes and the approval workflow
+export const createProductSchema = z.object({
+  subcategoryId: z.string().min(1),
+  name: z.string().min(1),
+  slug: z.string().min(1),
+  description: z.string().nullable().optional(),
+  shortDescription: z.string().nullable().optional(),
+  price: z.string().nullable().optional(),
+  images: z.array(z.string()).nullable().optional(),
+  coverImage: z.string().nullable().optional(),
+  pdfUrl: z.string().nullable().optional(),
+  specifications: z.any().optional(),
+  features: z.array(z.string()).nullable().optional(),
+  seoKeywords: z.array(z.string()).nullable().optional(),
+  staticPageUrl: z.string().nullable().optional(),
+  displayOrder: z.string().nullable().optional(),
+  isFeatured: z.boolean().optional(),
+  ...pricingFields,
+  ...scheduleFields,
+}).superRefine(checkPricing);
+
+export const updateProductSchema = z.object({
+  subcategoryId: z.string().min(1).optional(),
+  name: z.string().min(1).optional(),
+  slug: z.string().min(1).optional(),
+  description: z.string().optional().nullable(),
+  shortDescription: z.string().optional().nullable(),
+  price: z.string().optional().nullable(),
+  images: z.array(z.string()).optional().nullable(),
+  coverImage: z.string().optional().nullable(),
+  pdfUrl: z.string().optional().nullable(),
+  specifications: z.any().optional(),
+  features: z.array(z.string()).optional().nullable(),
+  seoKeywords: z.array(z.string()).optional().nullable(),
+  staticPageUrl: z.string().optional().nullable(),
+  displayOrder: z.string().optional().nullable(),
+  isActive: z.boolean().optional(),
+  isFeatured: z.boolean().optional(),
+  ...pricingFields,
+  ...scheduleFields,
+}).superRefine(checkPricing);
+
+// Columns a list request can ask for with ?fields=
+export const productListFields = [
+  'id', 'subcategoryId', 'name', 'slug', 'description', 'shortDescription', 'price', 'priceMode',
+  'priceAmount', 'priceCurrency', 'priceUnit', 'priceTiers', 'priceNeedsReview', 'images',
+  'coverImage', 'pdfUrl', 'datasheetUrl', 'specifications', 'features', 'seoKeywords', 'staticPageUrl',
+  'displayOrder', 'isActive', 'isFeatured', 'publishAt', 'unpublishAt', 'createdAt', 'updatedAt',
+] as const;
+
+export const productSortFields = ['name', 'createdAt', 'updatedAt', 'displayOrder', 'price'] as const;
+
+const queryBoolean = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+// Comma-separated list; an empty value means "none"
+const queryList = <T extends string>(values: readonly [T, ...T[]]) =>
+  z.string().transform((value) => value.split(',').map((item) => item.trim()).filter(Boolean)).pipe(z.array(z.enum(values)));
+
+// Query string for GET /api/products listings
+export const listProductsQuerySchema = z.object({
+  includeInactive: queryBoolean.optional(),
+  // Opaque cursor from the previous page's pagination.nextCursor
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  sort: z.enum(productSortFields).default('displayOrder'),
+  order: z.enum(['asc', 'desc']).default('asc'),
+  categoryId: z.string().uuid().optional(),
+  subcategoryId: z.string().uuid().optional(),
+  isFeatured: queryBoolean.optional(),
+  isActive: queryBoolean.optional(),
+  hasPdf: queryBoolean.optional(),
+  // Products whose legacy price string could not be parsed
+  priceNeedsReview: queryBoolean.optional(),
+  updatedSince: z.string().datetime().transform((value) => new Date(value)).optional(),
+  fields: queryList(productListFields).optional(),
+  // Relations to embed; defaults to specifications, pass include= to skip them
+  include: queryList(['specifications', 'variants']).optional(),
+});
+
+// Query string for GET /api/products/compare: 2-4 comma-separated product ids
+export const compareProductsQuerySchema = z.object({
+  ids: z.string()
+    .transform((value) => [...new Set(value.split(',').map((id) => id.trim()).filter(Boolean))])
+    .pipe(z.array(z.string().uuid()).min(2, 'Compare at least 2 products').max(4, 'Compare at most 4 products')),
+});
+
 // Type exports
 export type ProductInput = z.infer<typeof ProductSchema>;
 export type UpdateProductInput = z.infer<typeof UpdateProductSchema>;
+export type CreateProductRequest = z.infer<typeof createProductSchema>;
+export type UpdateProductRequest = z.infer<typeof updateProductSchema>;
+export type ListProductsQuery = z.infer<typeof listProductsQuerySchema>;
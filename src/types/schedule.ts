@@ -0,0 +1,10 @@
+import { z } from 'zod';
+
+// ISO timestamp in, Date out; null clears that side of the schedule
+const scheduleDate = z.string().datetime().transform((value) => new Date(value)).nullable().optional();
+
+// Publishing window fields shared by the product, category, subcategory and post schemas
+export const scheduleFields = {
+  publishAt: scheduleDate,
+  unpublishAt: scheduleDate,
+};
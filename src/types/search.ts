@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { searchResultTypes } from '../services/site-search.service.js';
+
+// A query parameter that may be given once or repeated
+const repeated = z.union([z.string(), z.array(z.string())])
+  .transform((value) => (Array.isArray(value) ? value : [value]));
+
+// "<facetKey>:<value>", e.g. facet=flow rate (lph):4
+const facetParam = z.string().regex(/^[^:]+:.+$/, 'Expected <facet>:<value>');
+
+// "<facetKey>:<min>..<max>", either bound optional, e.g. range=pressure (bar):1..2.5
+const rangeParam = z.string().regex(/^[^:]+:(-?\d*\.?\d+)?\.\.(-?\d*\.?\d+)?$/, 'Expected <facet>:<min>..<max>');
+
+// Query string for GET /api/search/products
+export const facetedSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).optional(),
+  categoryId: z.string().uuid().optional(),
+  subcategoryId: z.string().uuid().optional(),
+  facet: repeated.pipe(z.array(facetParam)).optional(),
+  range: repeated.pipe(z.array(rangeParam)).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Query string for GET /api/search, e.g. ?q=drip&types=product,post
+export const siteSearchQuerySchema = z.object({
+  q: z.string().trim().min(1),
+  types: z.string()
+    .transform((value) => value.split(',').map((type) => type.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(searchResultTypes)).min(1))
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// Query string for GET /api/search/suggest
+export const suggestQuerySchema = z.object({
+  q: z.string().trim().min(1).max(100),
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+});
+
+// Body for POST /api/search/synonyms
+export const createSynonymSchema = z.object({
+  term: z.string().trim().min(1).max(100),
+  synonyms: z.array(z.string().trim().min(1).max(100)).min(1).max(20),
+  isActive: z.boolean().optional(),
+});
+
+export const updateSynonymSchema = createSynonymSchema.partial();
+
+// Body for POST /api/search/pins; productIds are shown in the given order
+export const createPinSchema = z.object({
+  query: z.string().trim().min(1).max(200),
+  productIds: z.array(z.string().uuid()).min(1).max(20),
+  isActive: z.boolean().optional(),
+});
+
+export const updatePinSchema = createPinSchema.partial();
+
+// Type exports
+export type FacetedSearchQuery = z.infer<typeof facetedSearchQuerySchema>;
+export type SiteSearchQuery = z.infer<typeof siteSearchQuerySchema>;
+export type SuggestQuery = z.infer<typeof suggestQuerySchema>;
+export type CreateSynonymRequest = z.infer<typeof createSynonymSchema>;
+export type UpdateSynonymRequest = z.infer<typeof updateSynonymSchema>;
+export type CreatePinRequest = z.infer<typeof createPinSchema>;
+export type UpdatePinRequest = z.infer<typeof updatePinSchema>;
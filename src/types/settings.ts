@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+// Request body schema shared by the settings routes and the approval workflow
+export const upsertSettingsSchema = z.object({
+  settings: z.array(z.object({
+    key: z.string().min(1),
+    value: z.string(),
+  })),
+});
+
+// Type exports
+export type UpsertSettingsRequest = z.infer<typeof upsertSettingsSchema>;
@@ -1,11 +1,12 @@
 import { z } from 'zod';
+import { MAX_TABLE_COLUMNS, MAX_TABLE_ROWS, validateTableGrid } from '../utils/table-grid.js';
 
 // A single cell definition with support for merged cells and various content types
 export const CellSchema = z.object({
   id: z.string(), // Unique ID for React keys
   value: z.union([z.string(), z.number(), z.boolean()]), // Supports text, numbers, or checks
-  colSpan: z.number().optional().default(1), // For horizontal merging
-  rowSpan: z.number().optional().default(1), // For vertical merging
+  colSpan: z.number().int().min(1).max(MAX_TABLE_COLUMNS).optional().default(1), // For horizontal merging
+  rowSpan: z.number().int().min(1).max(MAX_TABLE_ROWS).optional().default(1), // For vertical merging
   align: z.enum(['left', 'center', 'right']).optional().default('center'),
   isHeader: z.boolean().optional(), // If true, renders as <th>
   className: z.string().optional(), // Custom CSS classes
@@ -35,8 +36,67 @@ export const SpecificationContentSchema = z.union([
   ImageDataSchema,
 ]);
 
+// Merged cells in table content must add up to a rectangular grid
+function checkTableGrid(content: unknown, ctx: z.RefinementCtx): void {
+  const table = TableDataSchema.safeParse(content);
+  if (!table.success) return;
+  for (const issue of validateTableGrid(table.data)) {
+    ctx.addIssue({ code: 'custom', path: ['content', issue.section, issue.row], message: issue.message });
+  }
+}
+
+// Specification payloads accepted by the approval workflow
+export const createSpecificationSchema = z.object({
+  productId: z.string().min(1),
+  title: z.string().min(1),
+  type: z.string().optional(),
+  content: SpecificationContentSchema,
+  displayOrder: z.string().optional(),
+}).superRefine((data, ctx) => {
+  // Same rule as the specification routes: grid and matrix types must carry table content
+  const isTable = !data.type || data.type === 'grid' || data.type === 'matrix';
+  if (isTable && !TableDataSchema.safeParse(data.content).success) {
+    ctx.addIssue({ code: 'custom', path: ['content'], message: 'Grid and matrix specifications require table content' });
+  }
+  checkTableGrid(data.content, ctx);
+});
+
+export const updateSpecificationSchema = z.object({
+  title: z.string().min(1).optional(),
+  type: z.string().optional(),
+  content: SpecificationContentSchema.optional(),
+  displayOrder: z.string().optional(),
+  isActive: z.boolean().optional(),
+}).superRefine((data, ctx) => {
+  checkTableGrid(data.content, ctx);
+});
+
+// Form fields sent with a spreadsheet to POST /api/specifications/import (multipart, so all strings)
+export const importSpecificationSchema = z.object({
+  productId: z.string().min(1).optional(),
+  // Defaults to the sheet name
+  title: z.string().min(1).optional(),
+  type: z.enum(['grid', 'matrix']).default('grid'),
+  displayOrder: z.string().optional(),
+  // XLSX sheet to read; the first one by default
+  sheet: z.string().min(1).optional(),
+  // Detected from merges and bold rows when not given
+  headerRows: z.coerce.number().int().min(0).max(20).optional(),
+  rowHeaderColumns: z.coerce.number().int().min(0).max(10).optional(),
+  // Return the converted table without creating the specification
+  preview: z.enum(['true', 'false']).transform((value) => value === 'true').default(false),
+}).refine((data) => data.preview || data.productId, { path: ['productId'], message: 'Product ID is required unless previewing' });
+
+export const specExportFormats = ['csv', 'xlsx', 'html', 'pdf'] as const;
+
+// Query string for the specification export endpoints
+export const exportSpecificationQuerySchema = z.object({
+  format: z.enum(specExportFormats),
+});
+
 // Type exports
 export type TableCell = z.infer<typeof CellSchema>;
 export type TableData = z.infer<typeof TableDataSchema>;
 export type ImageData = z.infer<typeof ImageDataSchema>;
 export type SpecificationContent = z.infer<typeof SpecificationContentSchema>;
+export type SpecExportFormat = typeof specExportFormats[number];
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { scheduleFields } from './schedule.js';
+
+// Request body schemas shared by the subcategory routes and the approval workflow
+export const createSubcategorySchema = z.object({
+  categoryId: z.string().min(1),
+  name: z.string().min(1),
+  slug: z.string().min(1),
+  description: z.string().optional(),
+  image: z.string().optional(),
+  displayOrder: z.string().optional(),
+  ...scheduleFields,
+});
+
+export const updateSubcategorySchema = z.object({
+  categoryId: z.string().min(1).optional(),
+  name: z.string().min(1).optional(),
+  slug: z.string().min(1).optional(),
+  description: z.string().optional(),
+  image: z.string().optional(),
+  displayOrder: z.string().optional(),
+  isActive: z.boolean().optional(),
+  ...scheduleFields,
+});
+
+// Type exports
+export type CreateSubcategoryRequest = z.infer<typeof createSubcategorySchema>;
+export type UpdateSubcategoryRequest = z.infer<typeof updateSubcategorySchema>;
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { extractYouTubeVideoId } from '../utils/youtube.js';
+
+// A link to a YouTube video, checked here so the direct routes and approved changes agree
+const youtubeUrl = z.string().url('Invalid YouTube URL').refine(
+  (url) => extractYouTubeVideoId(url) !== null,
+  'Invalid YouTube URL. Please provide a valid YouTube video link.'
+);
+
+// Request body schemas shared by the YouTube video routes and the approval workflow
+export const createVideoSchema = z.object({
+  youtubeUrl,
+  displayOrder: z.number().int().optional().default(0),
+  isActive: z.boolean().optional().default(true),
+});
+
+export const updateVideoSchema = z.object({
+  youtubeUrl: youtubeUrl.optional(),
+  displayOrder: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+});
+
+// Type exports
+export type CreateVideoRequest = z.infer<typeof createVideoSchema>;
+export type UpdateVideoRequest = z.infer<typeof updateVideoSchema>;
@@ -0,0 +1,5 @@
+// SQLSTATE of a Postgres error; drizzle wraps driver errors, keeping the original as `cause`
+export function pgErrorCode(error: unknown): string | undefined {
+  const err = error as { code?: string; cause?: { code?: string } };
+  return err.cause?.code ?? err.code;
+}
@@ -0,0 +1,205 @@
+import { TableDataSchema, type TableCell, type TableData } from '../types/specification.js';
+
+// Structured diffs between a pending change's previousData and changeData, for the review screen
+
+export interface TextSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface ListDiff {
+  added: string[];
+  removed: string[];
+  // Same items, different order
+  reordered: boolean;
+}
+
+export interface CellDiff {
+  kind: 'added' | 'removed' | 'changed';
+  cellId: string;
+  section: 'headers' | 'rows';
+  row: number;
+  column: number;
+  before?: TableCell;
+  after?: TableCell;
+}
+
+export interface FieldDiff {
+  field: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+  // Word-level diff for long text such as product descriptions
+  text?: TextSegment[];
+  // Item diff for string lists such as images, features and seoKeywords
+  items?: ListDiff;
+  // Cell diff for specification table content
+  cells?: CellDiff[];
+}
+
+// Bookkeeping columns that are not part of what an editor changes
+const ignoredFields = new Set(['id', 'createdAt', 'updatedAt']);
+
+// Strings shorter than this are shown as plain before/after values
+const TEXT_DIFF_MIN_LENGTH = 80;
+
+// Upper bound on the LCS table so a huge description cannot stall the request
+const TEXT_DIFF_MAX_CELLS = 4_000_000;
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+export function diffText(before: string, after: string): TextSegment[] | undefined {
+  const a = before.split(/(\s+)/);
+  const b = after.split(/(\s+)/);
+  if (a.length * b.length > TEXT_DIFF_MAX_CELLS) {
+    return undefined;
+  }
+
+  // Longest common subsequence over words (whitespace kept as its own tokens)
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] = a[i] === b[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const segments: TextSegment[] = [];
+  const push = (type: TextSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]!);
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      push('removed', a[i++]!);
+    } else {
+      push('added', b[j++]!);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]!);
+  while (j < b.length) push('added', b[j++]!);
+
+  return segments.filter((segment) => segment.text !== '');
+}
+
+export function diffList(before: string[], after: string[]): ListDiff {
+  const added = after.filter((item) => !before.includes(item));
+  const removed = before.filter((item) => !after.includes(item));
+  const reordered = added.length === 0 && removed.length === 0 && !sameValue(before, after);
+  return { added, removed, reordered };
+}
+
+function indexCells(table: TableData) {
+  const cells = new Map<string, { cell: TableCell; section: CellDiff['section']; row: number; column: number }>();
+  for (const section of ['headers', 'rows'] as const) {
+    table[section].forEach((row, rowIndex) => {
+      row.forEach((cell, columnIndex) => {
+        cells.set(cell.id, { cell, section, row: rowIndex, column: columnIndex });
+      });
+    });
+  }
+  return cells;
+}
+
+// Cells are matched by their id, which the table editor keeps stable across edits
+export function diffTable(before: TableData, after: TableData): CellDiff[] {
+  const beforeCells = indexCells(before);
+  const afterCells = indexCells(after);
+  const diffs: CellDiff[] = [];
+
+  for (const [cellId, entry] of afterCells) {
+    const previous = beforeCells.get(cellId);
+    if (!previous) {
+      diffs.push({ kind: 'added', cellId, section: entry.section, row: entry.row, column: entry.column, after: entry.cell });
+    } else if (!sameValue(previous.cell, entry.cell)) {
+      diffs.push({
+        kind: 'changed',
+        cellId,
+        section: entry.section,
+        row: entry.row,
+        column: entry.column,
+        before: previous.cell,
+        after: entry.cell,
+      });
+    }
+  }
+
+  for (const [cellId, entry] of beforeCells) {
+    if (!afterCells.has(cellId)) {
+      diffs.push({ kind: 'removed', cellId, section: entry.section, row: entry.row, column: entry.column, before: entry.cell });
+    }
+  }
+
+  return diffs;
+}
+
+function diffField(field: string, before: unknown, after: unknown): FieldDiff | null {
+  if (sameValue(before, after)) {
+    return null;
+  }
+  if (isEmpty(before)) {
+    return { field, kind: 'added', after };
+  }
+  if (isEmpty(after)) {
+    return { field, kind: 'removed', before };
+  }
+
+  const diff: FieldDiff = { field, kind: 'changed', before, after };
+
+  if (typeof before === 'string' && typeof after === 'string'
+    && Math.max(before.length, after.length) >= TEXT_DIFF_MIN_LENGTH) {
+    const text = diffText(before, after);
+    if (text) diff.text = text;
+  } else if (isStringList(before) && isStringList(after)) {
+    diff.items = diffList(before, after);
+  } else {
+    const beforeTable = TableDataSchema.safeParse(before);
+    const afterTable = TableDataSchema.safeParse(after);
+    if (beforeTable.success && afterTable.success) {
+      diff.cells = diffTable(beforeTable.data, afterTable.data);
+    }
+  }
+
+  return diff;
+}
+
+// A JSON object's fields; null and anything else that is not an object have none
+function fieldsOf(data: unknown): Record<string, unknown> {
+  return data && typeof data === 'object' && !Array.isArray(data) ? Object.fromEntries(Object.entries(data)) : {};
+}
+
+// Per-field diff of what applying a change would do to the record
+export function diffChange(action: string, previousData: unknown, changeData: unknown): FieldDiff[] {
+  const before = fieldsOf(previousData);
+  const after = fieldsOf(changeData);
+
+  // A delete removes every field; create and update only touch the fields they carry
+  const fields = action === 'delete' ? Object.keys(before) : Object.keys(after);
+
+  return fields
+    .filter((field) => !ignoredFields.has(field))
+    .map((field) => action === 'delete'
+      ? (isEmpty(before[field]) ? null : { field, kind: 'removed' as const, before: before[field] })
+      : diffField(field, action === 'create' ? undefined : before[field], after[field]))
+    .filter((diff): diff is FieldDiff => diff !== null);
+}
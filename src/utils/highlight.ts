@@ -0,0 +1,64 @@
+// Snippets and <mark> highlighting for search results. Output is HTML-escaped, so it is
+// safe to render as markup.
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Words of a query worth highlighting
+export function searchTerms(query: string): string[] {
+  const terms = query.toLowerCase().split(/\s+/).filter((term) => term.length >= 2);
+  return [...new Set(terms)];
+}
+
+function termPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) return null;
+  // Longest first so "drip emitter" style overlaps prefer the longer match
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return new RegExp(`(${alternatives.join('|')})`, 'gi');
+}
+
+export function highlight(text: string, terms: string[]): string {
+  const pattern = termPattern(terms);
+  if (!pattern) return escapeHtml(text);
+
+  return text
+    .split(pattern)
+    .map((part, index) => (index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part)))
+    .join('');
+}
+
+// A window of text around the first matching term, highlighted, with ellipses where cut
+export function snippet(text: string, terms: string[], length = 160): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= length) return highlight(flat, terms);
+
+  const pattern = termPattern(terms);
+  const match = pattern ? pattern.exec(flat) : null;
+  const center = match ? match.index + match[0].length / 2 : 0;
+
+  let start = Math.max(0, Math.round(center - length / 2));
+  let end = Math.min(flat.length, start + length);
+  start = Math.max(0, end - length);
+
+  // Don't cut words in half
+  if (start > 0) {
+    const space = flat.indexOf(' ', start);
+    if (space !== -1 && space < end) start = space + 1;
+  }
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  return `${start > 0 ? '…' : ''}${highlight(flat.slice(start, end), terms)}${end < flat.length ? '…' : ''}`;
+}
@@ -0,0 +1,4 @@
+// Escape LIKE wildcards so user input matches literally; backslash is Postgres's default escape character
+export function escapeLike(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
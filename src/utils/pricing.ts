@@ -0,0 +1,112 @@
+// Product pricing: reading legacy free-text prices and keeping the structured columns consistent.
+
+// Same patterns as drizzle/0024_structured_pricing.sql, which migrated the existing rows
+const onRequestPattern = /^\s*(contact|call|enquire|inquire|ask|price on request|on request|request|poa|quote|get quote)/i;
+// "450", "₹450/roll", "Rs. 1,200 per piece", "INR 300/-"
+const fixedPattern = /^\s*(?:₹|rs\.?|inr)?\s*([0-9][0-9,]*(?:\.[0-9]+)?)\s*(?:\/-)?\s*(?:(?:\/|per\b)\s*([a-z][a-z .]*))?\s*$/i;
+
+export interface ParsedPrice {
+  priceMode: 'fixed' | 'on_request';
+  priceAmount: number | null;
+  priceUnit: string | null;
+}
+
+// Null when the text is not a price we can read with confidence
+export function parseLegacyPrice(text: string): ParsedPrice | null {
+  if (onRequestPattern.test(text)) {
+    return { priceMode: 'on_request', priceAmount: null, priceUnit: null };
+  }
+
+  const match = text.match(fixedPattern);
+  if (!match) {
+    return null;
+  }
+
+  const unit = match[2]?.toLowerCase().replace(/[ .]+$/, '') || null;
+  return { priceMode: 'fixed', priceAmount: parseFloat(match[1]!.replace(/,/g, '')), priceUnit: unit };
+}
+
+// The pricing a write lands on: the stored row's for an update, nothing yet for a create
+export interface StoredPricing {
+  priceMode: 'fixed' | 'on_request' | null;
+  priceAmount: number | null;
+  priceCurrency: string;
+  priceUnit: string | null;
+  priceTiers: { minQuantity: number; amount: number }[] | null;
+}
+
+const noPricing: StoredPricing = { priceMode: null, priceAmount: null, priceCurrency: 'INR', priceUnit: null, priceTiers: null };
+
+function mergePricing(stored: StoredPricing, write: Record<string, unknown>): StoredPricing {
+  const merged: Record<string, unknown> = { ...stored };
+  for (const key of Object.keys(stored)) {
+    if (write[key] !== undefined) merged[key] = write[key];
+  }
+  return merged as unknown as StoredPricing;
+}
+
+// The legacy string for a structured price, in the form the migration parsed
+function formatPrice(pricing: StoredPricing): string | null {
+  if (pricing.priceMode === 'on_request') return 'Price on request';
+  if (pricing.priceMode !== 'fixed' || pricing.priceAmount === null) return null;
+
+  const amount = pricing.priceCurrency === 'INR' ? `₹${pricing.priceAmount}` : `${pricing.priceCurrency} ${pricing.priceAmount}`;
+  return (pricing.priceUnit ? `${amount}/${pricing.priceUnit}` : amount).slice(0, 50);
+}
+
+// Fill in the structured price columns for a product write. An explicit priceMode wins;
+// otherwise a legacy `price` string is parsed, and flagged for review if that fails.
+// Structured writes re-derive `price` so it never contradicts the columns.
+export function resolvePricing<T extends object>(data: T, stored: StoredPricing = noPricing): T {
+  const resolved: Record<string, unknown> = Object.fromEntries(Object.entries(data));
+  let derivePrice = false;
+
+  // An amount on its own makes the price fixed
+  if (resolved.priceMode === undefined && typeof resolved.priceAmount === 'number') {
+    resolved.priceMode = 'fixed';
+  }
+
+  if (resolved.priceMode !== undefined) {
+    resolved.priceNeedsReview = false;
+    if (resolved.priceMode !== 'fixed') {
+      resolved.priceAmount = null;
+      resolved.priceTiers = null;
+    }
+    derivePrice = true;
+  } else if (resolved.price !== undefined) {
+    const text = typeof resolved.price === 'string' ? resolved.price.trim() : '';
+    const parsed = text ? parseLegacyPrice(text) : null;
+    Object.assign(resolved, parsed ?? { priceMode: null, priceAmount: null, priceUnit: null });
+    resolved.priceNeedsReview = text !== '' && parsed === null;
+  } else if (resolved.priceUnit !== undefined || resolved.priceCurrency !== undefined) {
+    derivePrice = stored.priceMode !== null;
+  }
+
+  // Tiers only belong to a fixed price, whether this write or an earlier one set the mode
+  if (Array.isArray(resolved.priceTiers)) {
+    resolved.priceTiers = mergePricing(stored, resolved).priceMode === 'fixed'
+      ? [...resolved.priceTiers].sort((a, b) => a.minQuantity - b.minQuantity)
+      : null;
+  }
+
+  if (derivePrice) {
+    resolved.price = formatPrice(mergePricing(stored, resolved));
+  }
+
+  return resolved as T;
+}
+
+// Why a write cannot be applied to the pricing it lands on, or null. The schemas only see the
+// fields sent, so an update that leaves out priceMode is checked against the stored one here.
+export function pricingProblem(data: object, stored: StoredPricing = noPricing): string | null {
+  const tiers = (data as { priceTiers?: unknown }).priceTiers;
+  const merged = mergePricing(stored, resolvePricing(data, stored) as Record<string, unknown>);
+
+  if (Array.isArray(tiers) && tiers.length > 0 && merged.priceMode !== 'fixed') {
+    return 'Price tiers need a fixed price';
+  }
+  if (merged.priceMode === 'fixed' && merged.priceAmount === null) {
+    return 'A fixed price needs an amount';
+  }
+  return null;
+}
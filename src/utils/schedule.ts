@@ -0,0 +1,12 @@
+import { and, gt, isNull, lte, or, type SQL } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+
+// Rows whose publishing window is open right now. Used by public queries so a boundary
+// takes effect immediately, before the scheduler gets round to flipping the row.
+export function withinSchedule(table: { publishAt: AnyPgColumn; unpublishAt: AnyPgColumn }): SQL {
+  const now = new Date();
+  return and(
+    or(isNull(table.publishAt), lte(table.publishAt, now)),
+    or(isNull(table.unpublishAt), gt(table.unpublishAt, now))
+  )!;
+}
@@ -0,0 +1,239 @@
+import type { TableCell } from '../types/specification.js';
+
+// A cell placed on the table's grid, after colSpan/rowSpan are taken into account
+export interface PlacedCell {
+  cell: TableCell;
+  row: number;
+  column: number;
+  rowSpan: number;
+  colSpan: number;
+}
+
+// Widest and tallest merge a cell may have. Content is validated against these, but stored or
+// imported tables are laid out too, so layoutRows clamps to them as well.
+export const MAX_TABLE_COLUMNS = 100;
+export const MAX_TABLE_ROWS = 1000;
+
+// Lay out rows of cells the way an HTML table does: each cell takes the next column not
+// already covered by a rowSpan from a row above it. Spans are clamped to the rows given and to
+// MAX_TABLE_COLUMNS, so a huge span cannot make the layout allocate a huge grid.
+export function layoutRows(rows: TableCell[][]): { cells: PlacedCell[]; columnCount: number } {
+  const occupied: boolean[][] = [];
+  const cells: PlacedCell[] = [];
+  let columnCount = 0;
+
+  rows.forEach((row, rowIndex) => {
+    occupied[rowIndex] ??= [];
+    let column = 0;
+
+    for (const cell of row) {
+      while (occupied[rowIndex]![column]) column++;
+
+      const rowSpan = clampSpan(cell.rowSpan, rows.length - rowIndex);
+      const colSpan = clampSpan(cell.colSpan, MAX_TABLE_COLUMNS - column);
+      for (let r = rowIndex; r < rowIndex + rowSpan; r++) {
+        occupied[r] ??= [];
+        for (let c = column; c < column + colSpan; c++) {
+          occupied[r]![c] = true;
+        }
+      }
+
+      cells.push({ cell, row: rowIndex, column, rowSpan, colSpan });
+      column += colSpan;
+      columnCount = Math.max(columnCount, column);
+    }
+  });
+
+  return { cells, columnCount };
+}
+
+// A whole span of at least 1 and at most `room` (but always at least 1)
+function clampSpan(span: number | undefined, room: number): number {
+  const whole = Math.floor(span ?? 1);
+  return Math.max(1, Math.min(Number.isFinite(whole) ? whole : 1, room));
+}
+
+export function cellText(cell: TableCell): string {
+  if (typeof cell.value === 'boolean') return cell.value ? 'Yes' : 'No';
+  return String(cell.value).trim();
+}
+
+// The header labels above each column, outermost first, e.g. ["Dimensions", "Diameter"]
+export function columnHeaderPaths(headers: TableCell[][]): string[][] {
+  const { cells, columnCount } = layoutRows(headers);
+  const paths: string[][] = Array.from({ length: columnCount }, () => []);
+
+  // Cells come out in row order, so outer headers are pushed before inner ones
+  for (const placed of cells) {
+    const label = cellText(placed.cell);
+    if (!label) continue;
+    for (let c = placed.column; c < placed.column + placed.colSpan; c++) {
+      const path = paths[c]!;
+      if (path[path.length - 1] !== label) path.push(label);
+    }
+  }
+
+  return paths;
+}
+
+export type GridSection = 'headers' | 'rows';
+
+export interface GridIssue {
+  code: 'invalid_span' | 'span_overflow' | 'overlap' | 'row_width' | 'duplicate_id';
+  section: GridSection;
+  // Index into headers/rows; column is the position on the laid-out grid
+  row: number;
+  column: number | null;
+  cellId: string | null;
+  message: string;
+}
+
+function validSpan(span: number | undefined): boolean {
+  return span === undefined || (Number.isInteger(span) && span >= 1);
+}
+
+// Walk a table the way layoutRows does, recording every geometry problem and fixing it in a
+// copy as it goes: bad spans are cut back to what fits and short rows are padded with empty cells
+function checkTable(table: { headers: TableCell[][]; rows: TableCell[][] }) {
+  const issues: GridIssue[] = [];
+  const ids = new Set<string>();
+  const repaired: Record<GridSection, TableCell[][]> = { headers: [], rows: [] };
+  // Which grid columns each row ends up covering, including cells merged down into it
+  const coverage: { section: GridSection; row: number; taken: boolean[] }[] = [];
+
+  // The header decides the table's width. Spans reaching past it are trimmed, but a cell that
+  // starts past it widens the table, since trimming could not keep it.
+  const header = layoutRows(table.headers);
+  const body = layoutRows(table.rows);
+  const lastStart = Math.max(0, ...[...header.cells, ...body.cells].map((placed) => placed.column + 1));
+  const columnCount = table.headers.length > 0 ? Math.max(header.columnCount, lastStart) : body.columnCount;
+
+  for (const section of ['headers', 'rows'] as const) {
+    const source = table[section];
+    const occupied: boolean[][] = source.map(() => []);
+
+    source.forEach((row, rowIndex) => {
+      const out: TableCell[] = [];
+      let column = 0;
+
+      row.forEach((original, cellIndex) => {
+        const cell = { ...original };
+        while (occupied[rowIndex]![column]) column++;
+
+        const report = (code: GridIssue['code'], message: string) => issues.push({
+          code,
+          section,
+          row: rowIndex,
+          column,
+          cellId: original.id,
+          message: `${section}[${rowIndex}][${cellIndex}] (${original.id}): ${message}`,
+        });
+
+        if (ids.has(cell.id)) {
+          report('duplicate_id', `id "${cell.id}" is used by another cell`);
+          let n = 2;
+          while (ids.has(`${original.id}-${n}`)) n++;
+          cell.id = `${original.id}-${n}`;
+        }
+        ids.add(cell.id);
+
+        if (!validSpan(cell.colSpan) || !validSpan(cell.rowSpan)) {
+          report('invalid_span', `colSpan and rowSpan must be whole numbers of at least 1 (got ${cell.colSpan ?? 1} and ${cell.rowSpan ?? 1})`);
+        }
+        let colSpan = clampSpan(cell.colSpan, Number.MAX_SAFE_INTEGER);
+        let rowSpan = clampSpan(cell.rowSpan, Number.MAX_SAFE_INTEGER);
+
+        if (rowIndex + rowSpan > source.length) {
+          report('span_overflow', `rowSpan ${rowSpan} runs past the last of the ${source.length} ${section} rows`);
+          rowSpan = source.length - rowIndex;
+        }
+
+        if (column + colSpan > columnCount) {
+          report('span_overflow', `colSpan ${colSpan} runs past the table's ${columnCount} columns`);
+          colSpan = columnCount - column;
+        }
+
+        // Columns to the right, or rows below, may already be taken by a cell merged down from above
+        let fitsAcross = colSpan;
+        for (let c = column; c < column + colSpan; c++) {
+          if (occupied[rowIndex]![c]) {
+            fitsAcross = c - column;
+            break;
+          }
+        }
+        let fitsDown = rowSpan;
+        for (let r = rowIndex + 1; r < rowIndex + rowSpan && fitsDown === rowSpan; r++) {
+          for (let c = column; c < column + fitsAcross; c++) {
+            if (occupied[r]![c]) {
+              fitsDown = r - rowIndex;
+              break;
+            }
+          }
+        }
+        if (fitsAcross < colSpan || fitsDown < rowSpan) {
+          report('overlap', `a ${colSpan}x${rowSpan} merge overlaps a cell merged down from an earlier row`);
+          colSpan = fitsAcross;
+          rowSpan = fitsDown;
+        }
+
+        for (let r = rowIndex; r < rowIndex + rowSpan; r++) {
+          for (let c = column; c < column + colSpan; c++) {
+            occupied[r]![c] = true;
+          }
+        }
+
+        if (colSpan !== (original.colSpan ?? 1)) cell.colSpan = colSpan;
+        if (rowSpan !== (original.rowSpan ?? 1)) cell.rowSpan = rowSpan;
+        out.push(cell);
+        column += colSpan;
+      });
+
+      repaired[section].push(out);
+    });
+
+    occupied.forEach((taken, rowIndex) => coverage.push({ section, row: rowIndex, taken }));
+  }
+
+  // Every row must cover the full width of the table
+  for (const { section, row, taken } of coverage) {
+    const missing: number[] = [];
+    for (let c = 0; c < columnCount; c++) {
+      if (!taken[c]) missing.push(c);
+    }
+    if (missing.length === 0) continue;
+
+    issues.push({
+      code: 'row_width',
+      section,
+      row,
+      column: missing[0]!,
+      cellId: null,
+      message: `${section}[${row}] covers ${columnCount - missing.length} of the table's ${columnCount} columns`,
+    });
+
+    // One empty cell per run of missing columns. Appended cells take the next free column,
+    // so the runs fill left to right.
+    for (let i = 0; i < missing.length;) {
+      let end = i;
+      while (missing[end + 1] === missing[end]! + 1) end++;
+      let id = `${section === 'headers' ? 'h' : 'r'}${row + 1}c${missing[i]! + 1}`;
+      while (ids.has(id)) id = `${id}-pad`;
+      ids.add(id);
+      repaired[section][row]!.push({ id, value: '', colSpan: end - i + 1, rowSpan: 1, align: 'center' });
+      i = end + 1;
+    }
+  }
+
+  return { headers: repaired.headers, rows: repaired.rows, issues };
+}
+
+// Problems with a table's merged-cell geometry; empty when it lays out as a clean rectangle
+export function validateTableGrid(table: { headers: TableCell[][]; rows: TableCell[][] }): GridIssue[] {
+  return checkTable(table).issues;
+}
+
+// A copy of the table with its geometry fixed, and the problems that were fixed
+export function repairTableGrid<T extends { headers: TableCell[][]; rows: TableCell[][] }>(table: T): { table: T; repairs: GridIssue[] } {
+  const checked = checkTable(table);
+  return { table: { ...table, headers: checked.headers, rows: checked.rows }, repairs: checked.issues };
+}
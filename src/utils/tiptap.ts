@@ -0,0 +1,35 @@
+// Plain text of a Tiptap (ProseMirror) JSON document, e.g. a post's content
+
+interface TiptapNode {
+  type?: string;
+  text?: string;
+  content?: TiptapNode[];
+}
+
+// Nodes that start a new line of text when flattened
+const blockTypes = new Set([
+  'paragraph', 'heading', 'blockquote', 'codeBlock', 'listItem', 'bulletList',
+  'orderedList', 'taskItem', 'tableRow', 'tableCell', 'tableHeader', 'horizontalRule', 'hardBreak',
+]);
+
+export function extractTiptapText(doc: unknown): string {
+  const parts: string[] = [];
+
+  const walk = (node: TiptapNode) => {
+    if (typeof node.text === 'string') {
+      parts.push(node.text);
+    }
+    if (Array.isArray(node.content)) {
+      node.content.forEach(walk);
+    }
+    if (node.type && blockTypes.has(node.type)) {
+      parts.push('\n');
+    }
+  };
+
+  if (doc && typeof doc === 'object') {
+    walk(doc as TiptapNode);
+  }
+
+  return parts.join('').replace(/[ \t]*\n+[ \t]*/g, '\n').replace(/[ \t]+/g, ' ').trim();
+}
@@ -0,0 +1,125 @@
+// Measurements in specification cells: reading "16 mm" or "1.0-3.0 bar" and converting
+// between units of the same kind, so products specified in different units can be compared.
+
+const NUMBER = String.raw`\d*\.?\d+`;
+const RANGE_PATTERN = new RegExp(String.raw`^\D*?(${NUMBER})\s*(?:-|–|—|to|~)\s*(${NUMBER})\D*$`, 'i');
+const NEGATIVE_PATTERN = new RegExp(String.raw`^\s*(-${NUMBER})\D*$`);
+const SINGLE_PATTERN = new RegExp(String.raw`^\D*?(${NUMBER})\D*$`);
+
+// "2 LPH" -> 2..2, "1.0-3.0 bar" -> 1..3, "1,200 mm" -> 1200..1200. Anything with more
+// numbers than that (e.g. "16 x 2.5") is not treated as numeric.
+export function parseNumericRange(value: string): { min: number; max: number } | null {
+  const normalized = value.replace(/(\d),(?=\d{3}\b)/g, '$1');
+
+  const range = normalized.match(RANGE_PATTERN);
+  if (range) {
+    const a = parseFloat(range[1]!);
+    const b = parseFloat(range[2]!);
+    return { min: Math.min(a, b), max: Math.max(a, b) };
+  }
+
+  const single = normalized.match(NEGATIVE_PATTERN) ?? normalized.match(SINGLE_PATTERN);
+  if (single) {
+    const n = parseFloat(single[1]!);
+    return { min: n, max: n };
+  }
+
+  return null;
+}
+
+export interface Measurement {
+  min: number;
+  max: number;
+  unit: string;
+}
+
+interface UnitDefinition {
+  kind: string;
+  // Size of one unit in the kind's base unit
+  factor: number;
+}
+
+// Canonical unit -> definition. Base units: mm, LPH, bar, g, ml.
+const units: Record<string, UnitDefinition> = {
+  mm: { kind: 'length', factor: 1 },
+  cm: { kind: 'length', factor: 10 },
+  m: { kind: 'length', factor: 1000 },
+  in: { kind: 'length', factor: 25.4 },
+  ft: { kind: 'length', factor: 304.8 },
+  LPH: { kind: 'flow', factor: 1 },
+  LPM: { kind: 'flow', factor: 60 },
+  GPH: { kind: 'flow', factor: 3.78541 },
+  'm³/h': { kind: 'flow', factor: 1000 },
+  bar: { kind: 'pressure', factor: 1 },
+  kPa: { kind: 'pressure', factor: 0.01 },
+  MPa: { kind: 'pressure', factor: 10 },
+  psi: { kind: 'pressure', factor: 0.0689476 },
+  'kg/cm²': { kind: 'pressure', factor: 0.980665 },
+  g: { kind: 'mass', factor: 1 },
+  kg: { kind: 'mass', factor: 1000 },
+  ml: { kind: 'volume', factor: 1 },
+  L: { kind: 'volume', factor: 1000 },
+};
+
+// Spellings seen in spec sheets, lowercased with spaces removed
+const aliases: Record<string, string> = {
+  mm: 'mm', millimeter: 'mm', millimetre: 'mm', millimeters: 'mm', millimetres: 'mm',
+  cm: 'cm', m: 'm', meter: 'm', metre: 'm', meters: 'm', metres: 'm', mtr: 'm', mtrs: 'm',
+  in: 'in', inch: 'in', inches: 'in', '"': 'in', ft: 'ft', feet: 'ft', foot: 'ft',
+  lph: 'LPH', 'l/h': 'LPH', 'l/hr': 'LPH', 'ltr/hr': 'LPH', 'lit/hr': 'LPH',
+  lpm: 'LPM', 'l/min': 'LPM', 'ltr/min': 'LPM',
+  gph: 'GPH', 'm3/h': 'm³/h', 'm³/h': 'm³/h', 'm3/hr': 'm³/h', 'm³/hr': 'm³/h', cumec: 'm³/h',
+  bar: 'bar', kpa: 'kPa', mpa: 'MPa', psi: 'psi',
+  'kg/cm2': 'kg/cm²', 'kg/cm²': 'kg/cm²', 'kgf/cm2': 'kg/cm²', 'kgf/cm²': 'kg/cm²',
+  g: 'g', gm: 'g', gms: 'g', gram: 'g', grams: 'g', kg: 'kg', kgs: 'kg',
+  ml: 'ml', l: 'L', ltr: 'L', ltrs: 'L', litre: 'L', liter: 'L', litres: 'L', liters: 'L',
+};
+
+// Longest first, so "16 mm" is read as millimetres and not "16 m" plus a stray "m"
+const aliasesBySize = Object.keys(aliases).sort((a, b) => b.length - a.length);
+// "Diameter (mm)" -> "mm"
+const LABEL_UNIT = /\s*[([]\s*([^()[\]]+?)\s*[)\]]\s*$/;
+
+export function canonicalUnit(text: string): string | null {
+  return aliases[text.toLowerCase().replace(/\s+/g, '')] ?? null;
+}
+
+// A unit given in a column header, and the header without it
+export function splitLabelUnit(label: string): { label: string; unit: string | null } {
+  const match = label.match(LABEL_UNIT);
+  const unit = match ? canonicalUnit(match[1]!) : null;
+  return unit ? { label: label.slice(0, match!.index).trim(), unit } : { label, unit: null };
+}
+
+// Null unless the value is a number or range with a known unit, either written after it or
+// given by the column header (defaultUnit)
+export function parseMeasurement(value: string, defaultUnit?: string | null): Measurement | null {
+  const text = value.trim();
+  const lower = text.toLowerCase();
+
+  // Units such as kg/cm2 contain digits, so split the unit off before reading the number
+  for (const alias of aliasesBySize) {
+    if (!lower.endsWith(alias)) continue;
+    const number = text.slice(0, text.length - alias.length).trimEnd();
+    if (!/\d$/.test(number)) continue;
+    const range = parseNumericRange(number);
+    return range ? { ...range, unit: aliases[alias]! } : null;
+  }
+
+  // No unit written: a bare number takes the header's unit
+  if (!defaultUnit || !/^[\d\s.,\-–—~to]+$/i.test(text)) return null;
+  const range = parseNumericRange(text);
+  return range ? { ...range, unit: defaultUnit } : null;
+}
+
+// Null when the units measure different things
+export function convertMeasurement(measurement: Measurement, unit: string): Measurement | null {
+  const from = units[measurement.unit];
+  const to = units[unit];
+  if (!from || !to || from.kind !== to.kind) return null;
+
+  const scale = from.factor / to.factor;
+  // Round away float noise such as 0.30000000000000004
+  const round = (n: number) => parseFloat((n * scale).toPrecision(10));
+  return { min: round(measurement.min), max: round(measurement.max), unit };
+}
@@ -0,0 +1,17 @@
+import { createHash } from 'crypto';
+import type { Request } from 'express';
+import { config } from '../config/config.js';
+
+export function clientIp(req: Request): string | undefined {
+  return (req.headers['x-forwarded-for'] as string)?.split(',')[0]?.trim() ||
+    (req.headers['x-real-ip'] as string) ||
+    req.socket.remoteAddress;
+}
+
+// Stable per-visitor id that cannot be turned back into an IP address
+export function anonymizeVisitor(req: Request): string {
+  return createHash('sha256')
+    .update(`${config.search.visitorSalt}:${clientIp(req) ?? ''}:${req.headers['user-agent'] ?? ''}`)
+    .digest('hex')
+    .slice(0, 32);
+}
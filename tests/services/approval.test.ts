@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { PendingChange } from '../../src/db/schema.js';
+import { findConflicts, parseChangeData, resolveConflicts } from '../../src/services/approval.service.js';
+
+function pendingChange(overrides: Partial<PendingChange>): PendingChange {
+  return {
+    id: 'change-1',
+    userId: 'editor-1',
+    action: 'update',
+    resourceType: 'product',
+    resourceId: 'product-1',
+    changeData: {},
+    previousData: null,
+    status: 'pending',
+    reviewedBy: null,
+    reviewedAt: null,
+    reviewNotes: null,
+    applyError: null,
+    changesetId: null,
+    sequence: null,
+    ref: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('findConflicts', () => {
+  const previousData = { id: 'product-1', name: 'Drip tape', price: '450', updatedAt: '2026-01-01T00:00:00.000Z' };
+
+  it('reports a field the change touches that was edited since it was proposed', () => {
+    const change = pendingChange({ previousData, changeData: { name: 'Drip tape 16mm' } });
+    const current = { ...previousData, name: 'Drip tape (new)' };
+
+    expect(findConflicts(change, current)).toEqual([
+      { field: 'name', theirs: 'Drip tape', ours: 'Drip tape 16mm', current: 'Drip tape (new)' },
+    ]);
+  });
+
+  it('ignores fields the change does not touch, bookkeeping fields and matching edits', () => {
+    const change = pendingChange({ previousData, changeData: { name: 'Drip tape 16mm', price: '500' } });
+    const current = { ...previousData, name: 'Drip tape 16mm', price: '450', updatedAt: '2026-02-01T00:00:00.000Z' };
+
+    expect(findConflicts(change, current)).toEqual([]);
+    expect(findConflicts(change, { ...current, price: '450', description: 'edited' })).toEqual([]);
+  });
+
+  it('compares dates in their JSON form', () => {
+    const change = pendingChange({ previousData: { publishAt: '2026-03-01T00:00:00.000Z' }, changeData: { publishAt: null } });
+
+    expect(findConflicts(change, { publishAt: new Date('2026-03-01T00:00:00.000Z') })).toEqual([]);
+  });
+
+  it('reports anything that changed under a delete', () => {
+    const change = pendingChange({ action: 'delete', previousData, changeData: {} });
+
+    expect(findConflicts(change, { ...previousData, price: '480' }).map((conflict) => conflict.field)).toEqual(['price']);
+  });
+
+  it('never reports conflicts for a create or a change without a snapshot', () => {
+    expect(findConflicts(pendingChange({ action: 'create', changeData: { name: 'x' } }), { name: 'y' })).toEqual([]);
+    expect(findConflicts(pendingChange({ changeData: { name: 'x' } }), { name: 'y' })).toEqual([]);
+  });
+
+  it('reports a settings key another edit changed, comparing the proposed list per key', () => {
+    const change = pendingChange({
+      resourceType: 'global_settings',
+      resourceId: 'global',
+      previousData: { phone: '111', email: 'a@example.com' },
+      changeData: { settings: [{ key: 'phone', value: '222' }, { key: 'email', value: 'a@example.com' }] },
+    });
+
+    expect(findConflicts(change, { phone: '333', email: 'a@example.com' })).toEqual([
+      { field: 'phone', theirs: '111', ours: '222', current: '333' },
+    ]);
+  });
+});
+
+describe('resolveConflicts', () => {
+  const conflict = { field: 'name', theirs: 'a', ours: 'b', current: 'c' };
+
+  it('keeps the proposed value for "ours" and drops the field for "current"', () => {
+    const change = pendingChange({});
+    const data = { name: 'b', price: '500' };
+
+    expect(resolveConflicts(change, data, [conflict], { name: 'ours' })).toEqual({ data, unresolved: [] });
+    expect(resolveConflicts(change, data, [conflict], { name: 'current' })).toEqual({ data: { price: '500' }, unresolved: [] });
+  });
+
+  it('returns conflicts without a resolution as unresolved', () => {
+    expect(resolveConflicts(pendingChange({}), { name: 'b' }, [conflict]).unresolved).toEqual([conflict]);
+  });
+
+  it('does not let a delete keep the live value', () => {
+    const change = pendingChange({ action: 'delete' });
+    expect(resolveConflicts(change, {}, [conflict], { name: 'current' }).unresolved).toEqual([conflict]);
+  });
+
+  it('drops a settings key kept at its live value from the proposed list', () => {
+    const change = pendingChange({ resourceType: 'global_settings', resourceId: 'global' });
+    const data = { settings: [{ key: 'phone', value: '222' }, { key: 'email', value: 'b@example.com' }] };
+    const phone = { field: 'phone', theirs: '111', ours: '222', current: '333' };
+
+    expect(resolveConflicts(change, data, [phone], { phone: 'current' }).data).toEqual({
+      settings: [{ key: 'email', value: 'b@example.com' }],
+    });
+  });
+});
+
+describe('parseChangeData', () => {
+  it('checks a proposed YouTube link the way the direct route does', () => {
+    expect(parseChangeData('youtube_video', 'create', { youtubeUrl: 'https://youtu.be/dQw4w9WgXcQ' })).toEqual({
+      youtubeUrl: 'https://youtu.be/dQw4w9WgXcQ',
+      displayOrder: 0,
+      isActive: true,
+    });
+    expect(() => parseChangeData('youtube_video', 'create', { youtubeUrl: 'https://example.com/video' })).toThrow(/YouTube/);
+    expect(() => parseChangeData('youtube_video', 'update', { youtubeUrl: 'https://example.com/video' })).toThrow(/YouTube/);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { checkOperations, resolveRefs, type ChangesetOperation } from '../../src/services/changeset.service.js';
+
+describe('resolveRefs', () => {
+  const refs = new Map([['cat', 'c1'], ['sub', 's1']]);
+
+  it('replaces references anywhere in a value', () => {
+    expect(resolveRefs({ categoryId: '$ref:cat', nested: { ids: ['$ref:sub', 'plain'] }, count: 2 }, refs)).toEqual({
+      categoryId: 'c1',
+      nested: { ids: ['s1', 'plain'] },
+      count: 2,
+    });
+    expect(resolveRefs('$ref:sub', refs)).toBe('s1');
+    expect(resolveRefs(null, refs)).toBeNull();
+  });
+
+  it('leaves strings that only mention a reference alone', () => {
+    expect(resolveRefs('see $ref:cat', refs)).toBe('see $ref:cat');
+  });
+
+  it('fails on a reference it does not know', () => {
+    expect(() => resolveRefs({ categoryId: '$ref:missing' }, refs)).toThrow('Unknown reference: missing');
+  });
+});
+
+describe('checkOperations', () => {
+  const category: ChangesetOperation = { ref: 'cat', action: 'create', resourceType: 'category', changeData: { name: 'Pipes', slug: 'pipes' } };
+  const subcategory: ChangesetOperation = {
+    ref: 'sub',
+    action: 'create',
+    resourceType: 'subcategory',
+    changeData: { categoryId: '$ref:cat', name: 'PVC', slug: 'pvc' },
+  };
+
+  it('accepts operations that reference earlier creates', () => {
+    expect(checkOperations([category, subcategory])).toBeNull();
+  });
+
+  it('rejects a reference to a later or missing create', () => {
+    expect(checkOperations([subcategory, category])).toEqual({
+      operation: 0,
+      error: 'Reference "cat" must name an earlier create operation',
+    });
+  });
+
+  it('rejects refs on anything but a create, and duplicate refs', () => {
+    expect(checkOperations([{ ref: 'x', action: 'delete', resourceType: 'category', resourceId: 'c1' }])).toEqual({
+      operation: 0,
+      error: 'Only create operations can declare a ref',
+    });
+    expect(checkOperations([category, { ...category, changeData: { name: 'Valves', slug: 'valves' } }])).toEqual({
+      operation: 1,
+      error: 'Duplicate ref "cat"',
+    });
+  });
+
+  it('requires a resource ID for updates and deletes', () => {
+    expect(checkOperations([{ action: 'update', resourceType: 'category', changeData: { name: 'x' } }])).toEqual({
+      operation: 0,
+      error: 'Resource ID is required for update and delete',
+    });
+  });
+
+  it('rejects unsupported resource types and actions', () => {
+    expect(checkOperations([{ action: 'create', resourceType: 'user', changeData: {} }])?.error).toBe('Unsupported resource type: user');
+    expect(checkOperations([{ action: 'update', resourceType: 'home_popup', resourceId: 'p1', changeData: {} }])?.error)
+      .toBe('home_popup does not support update');
+  });
+
+  it('validates each payload against its schema', () => {
+    const problem = checkOperations([category, { action: 'create', resourceType: 'subcategory', changeData: { categoryId: '$ref:cat' } }]);
+    expect(problem).toMatchObject({ operation: 1, error: 'Invalid change data' });
+    expect(problem?.details).toEqual(expect.arrayContaining([expect.objectContaining({ path: ['name'] })]));
+  });
+});
@@ -0,0 +1,145 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { importSpreadsheet, inferMerges, parseCsv, readCsv, sheetToTable, type ImportedTable, type SheetValue } from '../../src/services/spec-import.service.js';
+import { validateTableGrid } from '../../src/utils/table-grid.js';
+
+async function xlsxFile(build: (sheet: ExcelJS.Worksheet) => void) {
+  const workbook = new ExcelJS.Workbook();
+  build(workbook.addWorksheet('Sizes'));
+  return { buffer: Buffer.from(await workbook.xlsx.writeBuffer()), originalname: 'sizes.xlsx' };
+}
+
+function imported(result: Awaited<ReturnType<typeof importSpreadsheet>>): ImportedTable {
+  if (!result || 'error' in result) throw new Error(`Expected a table, got ${JSON.stringify(result)}`);
+  return result;
+}
+
+describe('parseCsv', () => {
+  it('handles quoted commas, newlines and doubled quotes', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n"two\nlines",,x')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['two\nlines', '', 'x'],
+    ]);
+  });
+
+  it('strips a byte order mark and ignores a trailing newline', () => {
+    expect(parseCsv('\uFEFFa,b\n1,2\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('inferMerges', () => {
+  it('extends a group header right and a single header down', () => {
+    const cells: SheetValue[][] = [
+      ['Model', 'Dimensions', null],
+      [null, 'Diameter', 'Length'],
+      ['A', '16', '100'],
+    ];
+    expect(inferMerges(cells, 2, 1)).toEqual([
+      { top: 0, left: 0, bottom: 1, right: 0 },
+      { top: 0, left: 1, bottom: 0, right: 2 },
+    ]);
+  });
+
+  it('extends a row header down through blank body cells only', () => {
+    const cells: SheetValue[][] = [
+      ['Model', 'Size'],
+      ['A', '16'],
+      [null, '20'],
+      ['B', null],
+    ];
+    expect(inferMerges(cells, 1, 1)).toEqual([{ top: 1, left: 0, bottom: 2, right: 0 }]);
+  });
+});
+
+describe('sheetToTable', () => {
+  it('turns a CSV into a valid table with detected header rows', () => {
+    const csv = 'Model,Dimensions,\n,Diameter,Drip\nA,16,✓\nB,20.5,✗\n';
+    const table = imported(sheetToTable(readCsv(Buffer.from(csv), 'Sizes')));
+
+    expect(table.headerRows).toBe(2);
+    expect(table.mergedCells).toBe(2);
+    expect(table.content.headers[0]).toEqual([
+      expect.objectContaining({ id: 'h1c1', value: 'Model', rowSpan: 2 }),
+      expect.objectContaining({ id: 'h1c2', value: 'Dimensions', colSpan: 2 }),
+    ]);
+    expect(table.content.rows.map((row) => row.map((cell) => cell.value))).toEqual([
+      ['A', 16, true],
+      ['B', 20.5, false],
+    ]);
+    expect(table.content.rows[0]![0]).toMatchObject({ isHeader: true, align: 'left' });
+    expect(validateTableGrid(table.content)).toEqual([]);
+  });
+
+  it('trims blank rows and columns around the table', () => {
+    const table = imported(sheetToTable({ name: 'Sizes', cells: [[], [null, null], [null, 'a', 'b'], [null, '1', '2']], merges: null, boldRows: 0 }));
+    expect(table.columnCount).toBe(2);
+    expect(table.content.headers).toHaveLength(1);
+    expect(table.content.rows).toHaveLength(1);
+  });
+
+  it('returns null for an empty sheet', () => {
+    expect(sheetToTable({ name: 'Empty', cells: [[null, '  ']], merges: null, boldRows: 0 })).toBeNull();
+  });
+
+  it('rejects tables larger than a specification may be', () => {
+    const cells: SheetValue[][] = [];
+    cells[0] = ['a'];
+    cells[0][150] = 'b';
+    expect(sheetToTable({ name: 'Wide', cells, merges: null, boldRows: 0 })).toEqual({
+      error: expect.stringContaining('too large'),
+    });
+  });
+});
+
+describe('importSpreadsheet with XLSX', () => {
+  it('keeps merged cells as spans and reads bold rows as headers', async () => {
+    const file = await xlsxFile((sheet) => {
+      sheet.addRow(['Model', 'Dimensions', null]);
+      sheet.addRow([null, 'Diameter', 'Length']);
+      sheet.addRow(['A', 16, 100]);
+      sheet.mergeCells('A1:A2');
+      sheet.mergeCells('B1:C1');
+      sheet.getRow(1).font = { bold: true };
+      sheet.getRow(2).font = { bold: true };
+    });
+    const table = imported(await importSpreadsheet(file, 'xlsx'));
+
+    expect(table.sheet).toBe('Sizes');
+    expect(table.headerRows).toBe(2);
+    expect(table.content.headers[0]).toEqual([
+      expect.objectContaining({ value: 'Model', rowSpan: 2 }),
+      expect.objectContaining({ value: 'Dimensions', colSpan: 2 }),
+    ]);
+    expect(table.content.rows[0]!.map((cell) => cell.value)).toEqual(['A', 16, 100]);
+    expect(validateTableGrid(table.content)).toEqual([]);
+  });
+
+  it('cuts a merge across the whole sheet back to the filled cells', async () => {
+    const file = await xlsxFile((sheet) => {
+      sheet.getCell('A1').value = 'Title';
+      sheet.getCell('B1').value = 'Other';
+      sheet.getCell('A2').value = 'a';
+      sheet.getCell('B2').value = 'b';
+      sheet.mergeCells('B1:XFD1');
+    });
+    const table = imported(await importSpreadsheet(file, 'xlsx'));
+
+    expect(table.columnCount).toBe(2);
+    expect(table.content.headers[0]!.map((cell) => cell.colSpan)).toEqual([1, 1]);
+  });
+
+  it('rejects a sheet with a cell far outside the size limit', async () => {
+    const file = await xlsxFile((sheet) => {
+      sheet.getCell('A1').value = 'Model';
+      sheet.getCell('XFD1').value = 'Stray';
+    });
+    expect(await importSpreadsheet(file, 'xlsx')).toEqual({ error: expect.stringContaining('too large') });
+  });
+
+  it('returns null for a missing sheet', async () => {
+    const file = await xlsxFile((sheet) => {
+      sheet.getCell('A1').value = 'Model';
+    });
+    expect(await importSpreadsheet(file, 'xlsx', { sheet: 'Nope' })).toBeNull();
+  });
+});
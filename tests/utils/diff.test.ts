@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { diffChange, diffList, diffText } from '../../src/utils/diff.js';
+
+const table = (value: string) => ({
+  headers: [[{ id: 'h1', value: 'Size', colSpan: 1, rowSpan: 1, align: 'center' }]],
+  rows: [[{ id: 'r1', value, colSpan: 1, rowSpan: 1, align: 'center' }]],
+});
+
+describe('diffChange', () => {
+  it('diffs only the fields an update carries, skipping bookkeeping and unchanged ones', () => {
+    const previous = { id: 'p1', name: 'Drip tape', price: '450', updatedAt: '2026-01-01' };
+    const change = { name: 'Drip tape', price: '480', updatedAt: '2026-02-01' };
+
+    expect(diffChange('update', previous, change)).toEqual([{ field: 'price', kind: 'changed', before: '450', after: '480' }]);
+  });
+
+  it('marks fields filled in or cleared by an update', () => {
+    expect(diffChange('update', { pdfUrl: null, coverImage: 'a.png' }, { pdfUrl: 'a.pdf', coverImage: null })).toEqual([
+      { field: 'pdfUrl', kind: 'added', after: 'a.pdf' },
+      { field: 'coverImage', kind: 'removed', before: 'a.png' },
+    ]);
+  });
+
+  it('treats every field of a create as added', () => {
+    expect(diffChange('create', { name: 'ignored' }, { name: 'Valve', slug: 'valve' })).toEqual([
+      { field: 'name', kind: 'added', after: 'Valve' },
+      { field: 'slug', kind: 'added', after: 'valve' },
+    ]);
+  });
+
+  it('treats every filled field of a delete as removed', () => {
+    expect(diffChange('delete', { id: 'p1', name: 'Valve', description: null }, {})).toEqual([
+      { field: 'name', kind: 'removed', before: 'Valve' },
+    ]);
+  });
+
+  it('adds item diffs for string lists and cell diffs for tables', () => {
+    const [features, content] = diffChange(
+      'update',
+      { features: ['UV stable', 'Long life'], content: table('16mm') },
+      { features: ['Long life', 'Low cost'], content: table('20mm') }
+    );
+
+    expect(features?.items).toEqual({ added: ['Low cost'], removed: ['UV stable'], reordered: false });
+    expect(content?.cells).toEqual([
+      expect.objectContaining({ kind: 'changed', cellId: 'r1', section: 'rows', row: 0, column: 0 }),
+    ]);
+  });
+
+  it('adds a word diff for long text', () => {
+    const before = 'Inline drip tape for row crops, with emitters every thirty centimetres along the lateral.';
+    const after = 'Inline drip tape for row crops, with emitters every twenty centimetres along the lateral.';
+    const [diff] = diffChange('update', { description: before }, { description: after });
+
+    expect(diff?.text?.filter((segment) => segment.type !== 'equal')).toEqual([
+      { type: 'removed', text: 'thirty' },
+      { type: 'added', text: 'twenty' },
+    ]);
+  });
+
+  it('has nothing to compare when a payload is not an object', () => {
+    expect(diffChange('update', null, null)).toEqual([]);
+    expect(diffChange('update', ['a'], 'b')).toEqual([]);
+  });
+});
+
+describe('diffList', () => {
+  it('notices a reorder of the same items', () => {
+    expect(diffList(['a', 'b'], ['b', 'a'])).toEqual({ added: [], removed: [], reordered: true });
+  });
+});
+
+describe('diffText', () => {
+  it('diffs word by word and keeps the whitespace between words', () => {
+    expect(diffText('one two three', 'one four three')).toEqual([
+      { type: 'equal', text: 'one ' },
+      { type: 'removed', text: 'two' },
+      { type: 'added', text: 'four' },
+      { type: 'equal', text: ' three' },
+    ]);
+  });
+});
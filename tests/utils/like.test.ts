@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { escapeLike } from '../../src/utils/like.js';
+
+describe('escapeLike', () => {
+  it('escapes wildcards and the escape character', () => {
+    expect(escapeLike('50%_off\\')).toBe('50\\%\\_off\\\\');
+  });
+
+  it('leaves plain text alone', () => {
+    expect(escapeLike('steel pipe')).toBe('steel pipe');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { parseLegacyPrice, pricingProblem, resolvePricing, type StoredPricing } from '../../src/utils/pricing.js';
+
+describe('parseLegacyPrice', () => {
+  it('reads plain and currency-prefixed amounts', () => {
+    expect(parseLegacyPrice('450')).toEqual({ priceMode: 'fixed', priceAmount: 450, priceUnit: null });
+    expect(parseLegacyPrice('₹ 12.50')).toEqual({ priceMode: 'fixed', priceAmount: 12.5, priceUnit: null });
+    expect(parseLegacyPrice('INR 300/-')).toEqual({ priceMode: 'fixed', priceAmount: 300, priceUnit: null });
+  });
+
+  it('drops thousands separators and reads the unit', () => {
+    expect(parseLegacyPrice('Rs. 1,200 per piece')).toEqual({ priceMode: 'fixed', priceAmount: 1200, priceUnit: 'piece' });
+    expect(parseLegacyPrice('₹450/Roll')).toEqual({ priceMode: 'fixed', priceAmount: 450, priceUnit: 'roll' });
+    expect(parseLegacyPrice('₹450 / sq. ft.')).toEqual({ priceMode: 'fixed', priceAmount: 450, priceUnit: 'sq. ft' });
+  });
+
+  it('reads on-request wording', () => {
+    for (const text of ['Contact us', 'Price on request', 'POA', 'get quote']) {
+      expect(parseLegacyPrice(text)).toEqual({ priceMode: 'on_request', priceAmount: null, priceUnit: null });
+    }
+  });
+
+  it('gives up on anything else', () => {
+    expect(parseLegacyPrice('450-500')).toBeNull();
+    expect(parseLegacyPrice('from 450')).toBeNull();
+    expect(parseLegacyPrice('$450')).toBeNull();
+    expect(parseLegacyPrice('')).toBeNull();
+  });
+});
+
+describe('resolvePricing', () => {
+  it('parses a legacy price when no mode is given', () => {
+    expect(resolvePricing({ price: ' ₹450/roll ' })).toMatchObject({
+      priceMode: 'fixed',
+      priceAmount: 450,
+      priceUnit: 'roll',
+      priceNeedsReview: false,
+    });
+  });
+
+  it('flags a legacy price it cannot read', () => {
+    expect(resolvePricing({ price: 'around 450' })).toMatchObject({
+      priceMode: null,
+      priceAmount: null,
+      priceNeedsReview: true,
+    });
+  });
+
+  it('does not flag a cleared price', () => {
+    expect(resolvePricing({ price: '' })).toMatchObject({ priceMode: null, priceNeedsReview: false });
+  });
+
+  it('lets an explicit mode win and clears the amount off fixed pricing', () => {
+    const resolved = resolvePricing({ price: '450', priceMode: 'on_request', priceAmount: 450, priceTiers: [] });
+    expect(resolved).toMatchObject({ priceMode: 'on_request', priceAmount: null, priceTiers: null, priceNeedsReview: false });
+    expect(resolved.price).toBe('Price on request');
+  });
+
+  it('derives the legacy price from a structured write', () => {
+    expect(resolvePricing({ priceMode: 'fixed', priceAmount: 450, priceUnit: 'roll' }).price).toBe('₹450/roll');
+    expect(resolvePricing({ priceMode: null }).price).toBeNull();
+  });
+
+  it('keeps a legacy price as written', () => {
+    expect(resolvePricing({ price: '450' }).price).toBe('450');
+  });
+
+  it('makes an amount on its own fixed and sorts tiers', () => {
+    const resolved = resolvePricing({
+      priceAmount: 100,
+      priceTiers: [{ minQuantity: 50, amount: 80 }, { minQuantity: 10, amount: 90 }],
+    });
+    expect(resolved.priceMode).toBe('fixed');
+    expect(resolved.priceTiers.map((tier: { minQuantity: number }) => tier.minQuantity)).toEqual([10, 50]);
+  });
+
+  it('leaves pricing alone when the write does not touch it', () => {
+    expect(resolvePricing({ name: 'Drip tape' })).toEqual({ name: 'Drip tape' });
+  });
+});
+
+const fixedPrice: StoredPricing = { priceMode: 'fixed', priceAmount: 450, priceCurrency: 'INR', priceUnit: 'roll', priceTiers: null };
+const onRequest: StoredPricing = { priceMode: 'on_request', priceAmount: null, priceCurrency: 'INR', priceUnit: null, priceTiers: null };
+
+describe('resolvePricing against stored pricing', () => {
+  it('derives the legacy price from the stored fields a write leaves out', () => {
+    expect(resolvePricing({ priceAmount: 500 }, fixedPrice).price).toBe('₹500/roll');
+    expect(resolvePricing({ priceUnit: 'kg' }, fixedPrice).price).toBe('₹450/kg');
+  });
+
+  it('drops tiers sent for a product priced on request', () => {
+    expect(resolvePricing({ priceTiers: [{ minQuantity: 10, amount: 90 }] }, onRequest).priceTiers).toBeNull();
+  });
+});
+
+describe('pricingProblem', () => {
+  const tiers = [{ minQuantity: 10, amount: 90 }];
+
+  it('rejects tiers an update would attach to a product priced on request', () => {
+    expect(pricingProblem({ priceTiers: tiers }, onRequest)).toBe('Price tiers need a fixed price');
+  });
+
+  it('accepts tiers on a fixed price, stored or sent', () => {
+    expect(pricingProblem({ priceTiers: tiers }, fixedPrice)).toBeNull();
+    expect(pricingProblem({ priceMode: 'fixed', priceAmount: 100, priceTiers: tiers }, onRequest)).toBeNull();
+  });
+
+  it('rejects tiers on a new product without a fixed price', () => {
+    expect(pricingProblem({ priceTiers: tiers })).toBe('Price tiers need a fixed price');
+  });
+
+  it('rejects clearing the amount of a fixed price', () => {
+    expect(pricingProblem({ priceAmount: null }, fixedPrice)).toBe('A fixed price needs an amount');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { CellSchema, type TableCell } from '../../src/types/specification.js';
+import { columnHeaderPaths, layoutRows, MAX_TABLE_COLUMNS, repairTableGrid, validateTableGrid } from '../../src/utils/table-grid.js';
+
+// Cells named by id; spans as [colSpan, rowSpan]
+function cell(id: string, colSpan = 1, rowSpan = 1): TableCell {
+  return { id, value: id, colSpan, rowSpan };
+}
+
+const codes = (table: { headers: TableCell[][]; rows: TableCell[][] }) => validateTableGrid(table).map((issue) => issue.code);
+
+describe('layoutRows', () => {
+  it('places cells after columns merged down from above', () => {
+    const { cells, columnCount } = layoutRows([
+      [cell('a', 1, 2), cell('b', 2)],
+      [cell('c'), cell('d')],
+    ]);
+    expect(columnCount).toBe(3);
+    expect(cells.map(({ cell: { id }, row, column }) => [id, row, column])).toEqual([
+      ['a', 0, 0], ['b', 0, 1], ['c', 1, 1], ['d', 1, 2],
+    ]);
+  });
+
+  it('clamps huge spans to the table limits and the rows given', () => {
+    const { cells, columnCount } = layoutRows([[cell('a', 2e7, 1e9)], []]);
+    expect(columnCount).toBe(MAX_TABLE_COLUMNS);
+    expect(cells.map(({ colSpan, rowSpan }) => [colSpan, rowSpan])).toEqual([[MAX_TABLE_COLUMNS, 2]]);
+  });
+
+  it('treats invalid spans as 1', () => {
+    const { cells } = layoutRows([[cell('a', NaN, -3), cell('b', Infinity, 0.5)]]);
+    expect(cells.map(({ column, colSpan, rowSpan }) => [column, colSpan, rowSpan])).toEqual([[0, 1, 1], [1, 1, 1]]);
+  });
+});
+
+describe('columnHeaderPaths', () => {
+  it('labels each column by the headers above it', () => {
+    expect(columnHeaderPaths([
+      [cell('Model', 1, 2), cell('Dimensions', 2)],
+      [cell('Diameter'), cell('Length')],
+    ])).toEqual([['Model'], ['Dimensions', 'Diameter'], ['Dimensions', 'Length']]);
+  });
+});
+
+describe('validateTableGrid', () => {
+  it('accepts a clean merged table', () => {
+    expect(codes({
+      headers: [[cell('h1', 1, 2), cell('h2', 2)], [cell('h3'), cell('h4')]],
+      rows: [[cell('r1'), cell('r2', 2)]],
+    })).toEqual([]);
+  });
+
+  it('reports invalid spans', () => {
+    expect(codes({ headers: [[cell('h1', 1.5), cell('h2')]], rows: [[cell('r1'), cell('r2')]] })).toContain('invalid_span');
+  });
+
+  it('reports spans running past the section or the header width', () => {
+    const issues = validateTableGrid({
+      headers: [[cell('h1'), cell('h2')]],
+      rows: [[cell('r1', 3)], [cell('r2', 1, 3), cell('r3')]],
+    });
+    expect(issues.map(({ code, section, row }) => [code, section, row])).toEqual([
+      ['span_overflow', 'rows', 0],
+      ['span_overflow', 'rows', 1],
+    ]);
+  });
+
+  it('reports a merge overlapping a cell merged down from above', () => {
+    expect(codes({
+      headers: [[cell('h1'), cell('h2'), cell('h3')]],
+      rows: [[cell('r1'), cell('r2', 1, 2), cell('r3')], [cell('r4', 2), cell('r5')]],
+    })).toEqual(['overlap']);
+  });
+
+  it('reports short rows and duplicate ids', () => {
+    const issues = validateTableGrid({ headers: [[cell('a'), cell('b')]], rows: [[cell('a')]] });
+    expect(issues.map(({ code, cellId, column }) => [code, cellId, column])).toEqual([
+      ['duplicate_id', 'a', 0],
+      ['row_width', null, 1],
+    ]);
+  });
+
+  it('reports a huge span as an overflow without laying it out', () => {
+    expect(codes({ headers: [[cell('h1'), cell('h2')]], rows: [[cell('r1', 2e7), cell('r2')]] })).toContain('span_overflow');
+  });
+});
+
+describe('repairTableGrid', () => {
+  it('cuts spans back, pads short rows and renames duplicate ids', () => {
+    const { table, repairs } = repairTableGrid({
+      title: 'kept',
+      headers: [[cell('h1'), cell('h2'), cell('h3')]],
+      rows: [[cell('r1', 5)], [cell('h1', 1, 4)], [cell('r3')]],
+    });
+
+    expect(repairs.map((repair) => repair.code)).toEqual(['span_overflow', 'duplicate_id', 'span_overflow', 'row_width', 'row_width']);
+    expect(table.title).toBe('kept');
+    expect(table.rows).toEqual([
+      [cell('r1', 3)],
+      [{ ...cell('h1', 1, 2), id: 'h1-2' }, { id: 'r2c2', value: '', colSpan: 2, rowSpan: 1, align: 'center' }],
+      [cell('r3'), { id: 'r3c3', value: '', colSpan: 1, rowSpan: 1, align: 'center' }],
+    ]);
+    expect(validateTableGrid(table)).toEqual([]);
+  });
+
+  it('leaves a clean table as it was', () => {
+    const clean = { headers: [[cell('h1'), cell('h2')]], rows: [[cell('r1'), cell('r2')]] };
+    expect(repairTableGrid(clean)).toEqual({ table: clean, repairs: [] });
+  });
+});
+
+describe('CellSchema', () => {
+  it('caps spans at the table limits', () => {
+    expect(CellSchema.safeParse(cell('a', MAX_TABLE_COLUMNS)).success).toBe(true);
+    expect(CellSchema.safeParse(cell('a', MAX_TABLE_COLUMNS + 1)).success).toBe(false);
+    expect(CellSchema.safeParse(cell('a', 1, 2e7)).success).toBe(false);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { convertMeasurement, parseMeasurement, parseNumericRange, splitLabelUnit } from '../../src/utils/units.js';
+
+describe('parseNumericRange', () => {
+  it('reads single values and ranges', () => {
+    expect(parseNumericRange('2 LPH')).toEqual({ min: 2, max: 2 });
+    expect(parseNumericRange('1.0-3.0 bar')).toEqual({ min: 1, max: 3 });
+    expect(parseNumericRange('4 to 2')).toEqual({ min: 2, max: 4 });
+    expect(parseNumericRange('1,200 mm')).toEqual({ min: 1200, max: 1200 });
+    expect(parseNumericRange('-5 °C')).toEqual({ min: -5, max: -5 });
+  });
+
+  it('rejects values with more numbers than a range', () => {
+    expect(parseNumericRange('16 x 2.5')).toBeNull();
+    expect(parseNumericRange('n/a')).toBeNull();
+  });
+});
+
+describe('splitLabelUnit', () => {
+  it('takes a known unit off the header', () => {
+    expect(splitLabelUnit('Diameter (mm)')).toEqual({ label: 'Diameter', unit: 'mm' });
+    expect(splitLabelUnit('Pressure [kgf/cm2]')).toEqual({ label: 'Pressure', unit: 'kg/cm²' });
+  });
+
+  it('leaves other brackets alone', () => {
+    expect(splitLabelUnit('Model (new)')).toEqual({ label: 'Model (new)', unit: null });
+    expect(splitLabelUnit('Diameter')).toEqual({ label: 'Diameter', unit: null });
+  });
+});
+
+describe('parseMeasurement', () => {
+  it('reads the unit written after the number', () => {
+    expect(parseMeasurement('16 mm')).toEqual({ min: 16, max: 16, unit: 'mm' });
+    expect(parseMeasurement('1.0-2.5 kg/cm2')).toEqual({ min: 1, max: 2.5, unit: 'kg/cm²' });
+    expect(parseMeasurement('8 Ltr/Hr')).toEqual({ min: 8, max: 8, unit: 'LPH' });
+  });
+
+  it('prefers the longest unit spelling', () => {
+    expect(parseMeasurement('16mm')?.unit).toBe('mm');
+    expect(parseMeasurement('2 cm')?.unit).toBe('cm');
+  });
+
+  it('gives a bare number the header unit', () => {
+    expect(parseMeasurement('16', 'mm')).toEqual({ min: 16, max: 16, unit: 'mm' });
+    expect(parseMeasurement('1 - 3', 'bar')).toEqual({ min: 1, max: 3, unit: 'bar' });
+    expect(parseMeasurement('16')).toBeNull();
+  });
+
+  it('rejects text that is not a measurement', () => {
+    expect(parseMeasurement('PVC', 'mm')).toBeNull();
+    expect(parseMeasurement('16 widgets')).toBeNull();
+  });
+});
+
+describe('convertMeasurement', () => {
+  it('converts between units of the same kind', () => {
+    expect(convertMeasurement({ min: 1, max: 2, unit: 'in' }, 'mm')).toEqual({ min: 25.4, max: 50.8, unit: 'mm' });
+    expect(convertMeasurement({ min: 2, max: 2, unit: 'LPM' }, 'LPH')).toEqual({ min: 120, max: 120, unit: 'LPH' });
+    expect(convertMeasurement({ min: 100, max: 100, unit: 'kPa' }, 'bar')).toEqual({ min: 1, max: 1, unit: 'bar' });
+  });
+
+  it('rounds away float noise', () => {
+    expect(convertMeasurement({ min: 3, max: 3, unit: 'mm' }, 'cm')).toEqual({ min: 0.3, max: 0.3, unit: 'cm' });
+  });
+
+  it('refuses to convert between kinds or unknown units', () => {
+    expect(convertMeasurement({ min: 1, max: 1, unit: 'mm' }, 'bar')).toBeNull();
+    expect(convertMeasurement({ min: 1, max: 1, unit: 'furlong' }, 'mm')).toBeNull();
+  });
+});